@@ -2,15 +2,19 @@
 // Place this in: app/api/ask/route.ts
 
 import { NextResponse } from 'next/server';
-import { queryRag } from 'nextjs-rag';
-import OpenAI from 'openai';
+import { createRagRouteHandler, askRag, askRagStream } from 'nextjs-rag';
 
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
+// Simple RAG endpoint - validation, limits and error responses built in.
+// Use mode: 'ask' to answer with an LLM instead of returning context.
+export const { POST } = createRagRouteHandler({
+  maxTopK: 10,
+  onRequest: ({ method, status, durationMs }) => console.log(`${method} /api/ask ${status} ${durationMs}ms`),
 });
 
-// Simple RAG endpoint - just return context
-export async function POST(req: Request) {
+// Custom endpoints, for when you need full control over the response
+
+// Advanced RAG endpoint - answer with an LLM and cite the sources
+export async function advancedRAGEndpoint(req: Request) {
   try {
     const { question } = await req.json();
     
@@ -21,15 +25,19 @@ export async function POST(req: Request) {
       );
     }
     
-    const result = await queryRag(question, { topK: 5 });
+    // Retrieves context, prompts the chat model and maps [n] markers to sources
+    const result = await askRag(question, { topK: 5, chatModel: 'gpt-4o' });
     
     return NextResponse.json({
-      context: result.text,
-      sources: result.citations,
-      chunks: result.context,
+      answer: result.answer,
+      sources: result.citations.map(citation => ({
+        index: citation.index,
+        filePath: citation.filePath,
+        breadcrumb: citation.chunk.breadcrumb,
+      })),
     });
   } catch (error) {
-    console.error('RAG query error:', error);
+    console.error('Advanced RAG error:', error);
     return NextResponse.json(
       { error: 'Query failed' },
       { status: 500 }
@@ -37,48 +45,39 @@ export async function POST(req: Request) {
   }
 }
 
-// Advanced RAG endpoint - combine with LLM for answers
-export async function advancedRAGEndpoint(req: Request) {
-  try {
-    const { question } = await req.json();
-    
-    if (!question) {
-      return NextResponse.json(
-        { error: 'Question is required' },
-        { status: 400 }
-      );
-    }
-    
-    // Get context from RAG
-    const result = await queryRag(question, { topK: 5 });
-    
-    // Send to LLM with context
-    const completion = await openai.chat.completions.create({
-      model: 'gpt-4',
-      messages: [
-        {
-          role: 'system',
-          content: 'You are a helpful assistant. Answer questions based on the provided context. If the context does not contain relevant information, say so.',
-        },
-        {
-          role: 'user',
-          content: `Context from documentation:\n\n${result.text}\n\nSources: ${result.citations.join(', ')}\n\nQuestion: ${question}`,
-        },
-      ],
-      temperature: 0.7,
-    });
-    
-    const answer = completion.choices[0].message.content;
-    
-    return NextResponse.json({
-      answer,
-      sources: result.citations,
-    });
-  } catch (error) {
-    console.error('Advanced RAG error:', error);
+// Streaming RAG endpoint - send the answer as it is generated, then the sources
+export async function streamingRAGEndpoint(req: Request) {
+  const { question } = await req.json();
+  
+  if (!question) {
     return NextResponse.json(
-      { error: 'Query failed' },
-      { status: 500 }
+      { error: 'Question is required' },
+      { status: 400 }
     );
   }
+  
+  const encoder = new TextEncoder();
+  
+  const stream = new ReadableStream({
+    async start(controller) {
+      try {
+        for await (const event of askRagStream(question, { topK: 5 })) {
+          controller.enqueue(encoder.encode(JSON.stringify(
+            event.type === 'token'
+              ? event
+              : { type: 'done', sources: event.citations.map(citation => citation.filePath) }
+          ) + '\n'));
+        }
+      } catch (error) {
+        console.error('Streaming RAG error:', error);
+        controller.enqueue(encoder.encode(JSON.stringify({ type: 'error', error: 'Query failed' }) + '\n'));
+      } finally {
+        controller.close();
+      }
+    },
+  });
+  
+  return new Response(stream, {
+    headers: { 'Content-Type': 'application/x-ndjson' },
+  });
 }
@@ -0,0 +1,130 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { askRag, askRagStream, extractCitations } from './answer';
+import { configure } from './config';
+import { upsertDocuments } from './documents';
+import { AskStreamEvent, ChatMessage, ChatModel, ContextChunk, ContextPassage } from './types';
+
+function chunk(id: number, filePath: string, content = `Content of ${filePath}`): ContextChunk {
+  return { id, filePath, content, collection: 'default', similarity: 1, score: 1 };
+}
+
+function passage(...chunks: ContextChunk[]): ContextPassage {
+  return { content: chunks.map(hit => hit.content).join('\n\n'), filePath: chunks[0].filePath, collection: 'default', chunks, truncated: false };
+}
+
+/** A chat model that replies with fixed tokens and records the messages it gets */
+function fakeChatModel(tokens: string[], options: { stream?: boolean } = {}): ChatModel & { messages: ChatMessage[][] } {
+  const messages: ChatMessage[][] = [];
+  return {
+    name: 'fake',
+    model: 'fake-chat',
+    messages,
+    complete: async sent => {
+      messages.push(sent);
+      return tokens.join('');
+    },
+    ...(options.stream === false ? {} : {
+      async *stream(sent: ChatMessage[]) {
+        messages.push(sent);
+        yield* tokens;
+      },
+    }),
+  };
+}
+
+describe('extractCitations', () => {
+  it('maps markers to the context entries they cite, once each', () => {
+    const context = [chunk(1, 'docs/a.md'), chunk(2, 'docs/b.md'), chunk(3, 'docs/c.md')];
+
+    const citations = extractCitations('Use a layout [3]. It wraps pages [1, 3] and keeps state [1][3].', context);
+
+    expect(citations.map(citation => [citation.index, citation.filePath])).toEqual([[3, 'docs/c.md'], [1, 'docs/a.md']]);
+    expect(citations[0].chunk).toBe(context[2]);
+  });
+
+  it('ignores markers without a context entry', () => {
+    expect(extractCitations('See [0], [4] and [12].', [chunk(1, 'docs/a.md')])).toEqual([]);
+  });
+
+  it('cites the best chunk of a passage', () => {
+    const best = chunk(1, 'docs/a.md');
+    const cited = passage(best, chunk(2, 'docs/a.md'));
+
+    const [citation] = extractCitations('Yes [1].', [cited]);
+
+    expect(citation.chunk).toBe(best);
+    expect(citation.passage).toBe(cited);
+  });
+});
+
+describe('askRag', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'nextjs-rag-'));
+    configure({ embeddingProvider: 'local', dbPath: path.join(dir, 'index.db') });
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('with indexed documents', () => {
+    beforeEach(async () => {
+      await upsertDocuments([
+        { id: 'docs/caching.md', text: '# Caching\n\nCall revalidateTag to purge cached data on demand.' },
+        { id: 'docs/routing.md', text: '# Routing\n\nDynamic segments are wrapped in square brackets.' },
+      ]);
+    });
+
+    it('answers from numbered context and returns the cited passages', async () => {
+      const chatModel = fakeChatModel(['Call revalidateTag [1].']);
+
+      const result = await askRag('How do I purge cached data?', { chatModel, topK: 1 });
+
+      expect(result.answer).toBe('Call revalidateTag [1].');
+      expect(result.citations.map(citation => [citation.index, citation.filePath])).toEqual([[1, 'docs/caching.md']]);
+      expect(chatModel.messages[0][1].content).toContain('[1] docs/caching.md');
+      expect(chatModel.messages[0][1].content).toContain('Question: How do I purge cached data?');
+    });
+
+    it('streams the tokens in order, then the done event', async () => {
+      const chatModel = fakeChatModel(['Call ', 'revalidateTag ', '[1].']);
+      const events: AskStreamEvent[] = [];
+
+      for await (const event of askRagStream('How do I purge cached data?', { chatModel, topK: 1 })) {
+        events.push(event);
+      }
+
+      expect(events.map(event => (event.type === 'token' ? event.token : event.type))).toEqual(['Call ', 'revalidateTag ', '[1].', 'done']);
+      const done = events[3] as Extract<AskStreamEvent, { type: 'done' }>;
+      expect(done.answer).toBe('Call revalidateTag [1].');
+      expect(done.citations.map(citation => citation.filePath)).toEqual(['docs/caching.md']);
+    });
+
+    it('streams models without stream() as one token', async () => {
+      const chatModel = fakeChatModel(['Call ', 'revalidateTag.'], { stream: false });
+      const events: AskStreamEvent[] = [];
+
+      for await (const event of askRagStream('How do I purge cached data?', { chatModel })) {
+        events.push(event);
+      }
+
+      expect(events.map(event => event.type)).toEqual(['token', 'done']);
+      expect(events[0]).toEqual({ type: 'token', token: 'Call revalidateTag.' });
+    });
+  });
+
+  it('tells the model when nothing relevant was found and cites nothing', async () => {
+    const chatModel = fakeChatModel(['The docs do not say [1].']);
+
+    const result = await askRag('How do I purge cached data?', { chatModel });
+
+    expect(result.context).toEqual([]);
+    expect(result.citations).toEqual([]);
+    expect(chatModel.messages[0][1].content).toContain('(no relevant context found)');
+  });
+});
@@ -0,0 +1,147 @@
+import { queryRag, QueryOptions } from './query';
+import { getChatModel } from './chat';
+import { getConfig } from './config';
+import { getUrlMapper, toCitation } from './citations';
+import { AnswerCitation, AskResult, AskStreamEvent, ChatMessage, ChatModel, ContextChunk, ContextPassage } from './types';
+
+export const DEFAULT_SYSTEM_PROMPT =
+  'You are a helpful assistant. Answer questions using only the provided context. ' +
+  'Cite the context entries you use with their numbers in square brackets, like [1] or [2][3]. ' +
+  'If the context does not contain the answer, say so.';
+
+export const DEFAULT_PROMPT_TEMPLATE = 'Context:\n\n{context}\n\nQuestion: {question}';
+
+export interface AskOptions extends QueryOptions {
+  /** Chat model to answer with (default: chatModel from config) */
+  chatModel?: string | ChatModel;
+  /** System message (default: DEFAULT_SYSTEM_PROMPT) */
+  systemPrompt?: string;
+  /** User message with {context} and {question} placeholders (default: DEFAULT_PROMPT_TEMPLATE) */
+  promptTemplate?: string;
+}
+
+/** Context entries the prompt numbers: passages, or chunks as-is */
+type ContextEntry = ContextPassage | ContextChunk;
+
+function isPassage(entry: ContextEntry): entry is ContextPassage {
+  return 'chunks' in entry;
+}
+
+/**
+ * Number the context entries the way the answer is expected to cite them
+ */
+function formatContext(context: ContextEntry[]): string {
+  if (context.length === 0) {
+    return '(no relevant context found)';
+  }
+
+  return context
+    .map((chunk, idx) => {
+      const source = chunk.breadcrumb ? `${chunk.filePath} > ${chunk.breadcrumb}` : chunk.filePath;
+      return `[${idx + 1}] ${source}\n${chunk.content}`;
+    })
+    .join('\n\n');
+}
+
+/**
+ * Build the chat messages for a question and its context
+ */
+export function buildPrompt(
+  question: string,
+  context: ContextEntry[],
+  options: Pick<AskOptions, 'systemPrompt' | 'promptTemplate'> = {}
+): ChatMessage[] {
+  const template = options.promptTemplate || DEFAULT_PROMPT_TEMPLATE;
+
+  // A replacer function keeps $ patterns in the context from being expanded
+  const prompt = template
+    .replace(/\{context\}/g, () => formatContext(context))
+    .replace(/\{question\}/g, () => question);
+
+  return [
+    { role: 'system', content: options.systemPrompt || DEFAULT_SYSTEM_PROMPT },
+    { role: 'user', content: prompt },
+  ];
+}
+
+/**
+ * Map the [n] markers of an answer to the context entries they cite.
+ * Markers that don't refer to a context entry are ignored.
+ */
+export function extractCitations(answer: string, context: ContextEntry[]): AnswerCitation[] {
+  const citations = new Map<number, AnswerCitation>();
+  const urlMapper = getUrlMapper();
+
+  // Matches [1] as well as grouped markers like [1, 2]
+  for (const match of answer.matchAll(/\[(\d+(?:\s*,\s*\d+)*)\]/g)) {
+    for (const index of match[1].split(',').map(Number)) {
+      const entry = context[index - 1];
+      if (entry && !citations.has(index)) {
+        citations.set(index, isPassage(entry)
+          ? { ...toCitation(entry, urlMapper), index, chunk: entry.chunks[0], passage: entry }
+          : { ...toCitation(entry, urlMapper), index, chunk: entry });
+      }
+    }
+  }
+
+  return [...citations.values()];
+}
+
+/**
+ * Retrieve context and build the messages for the chat model
+ */
+async function prepare(question: string, options: AskOptions = {}) {
+  const { context, passages, truncation } = await queryRag(question, options);
+  const config = getConfig();
+  const chatModel = getChatModel({ ...config, chatModel: options.chatModel ?? config.chatModel });
+  const messages = buildPrompt(question, passages, options);
+
+  return { context, passages, truncation, chatModel, messages };
+}
+
+/**
+ * Answer a question from the indexed documents. Inline [n] markers in the
+ * answer refer to entries of the returned passages.
+ */
+export async function askRag(question: string, options?: AskOptions): Promise<AskResult> {
+  const { context, passages, truncation, chatModel, messages } = await prepare(question, options);
+
+  const answer = await chatModel.complete(messages);
+
+  return {
+    answer,
+    context,
+    passages,
+    citations: extractCitations(answer, passages),
+    truncation,
+  };
+}
+
+/**
+ * Streaming variant of askRag: yields the answer as it is generated,
+ * followed by a 'done' event with the full answer and its citations
+ */
+export async function* askRagStream(question: string, options?: AskOptions): AsyncGenerator<AskStreamEvent> {
+  const { context, passages, truncation, chatModel, messages } = await prepare(question, options);
+
+  let answer = '';
+
+  if (chatModel.stream) {
+    for await (const token of chatModel.stream(messages)) {
+      answer += token;
+      yield { type: 'token', token };
+    }
+  } else {
+    answer = await chatModel.complete(messages);
+    yield { type: 'token', token: answer };
+  }
+
+  yield {
+    type: 'done',
+    answer,
+    context,
+    passages,
+    citations: extractCitations(answer, passages),
+    truncation,
+  };
+}
@@ -0,0 +1,88 @@
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import { AddressInfo } from 'net';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { indexBuildOutput, indexSitemap } from './build-output';
+import { configure } from './config';
+import { VectorStore } from './vectorstore';
+
+const page = (body: string) => `<html><head><title>Docs</title></head><body><header>Site nav</header>${body}<footer>Footer</footer></body></html>`;
+
+describe('build output indexing', () => {
+  let dir: string;
+
+  const pageText = (route: string) => {
+    const store = new VectorStore(path.join(dir, 'index.db'));
+    try {
+      return store.getFileChunks(route).map(chunk => chunk.content).join('\n');
+    } finally {
+      store.close();
+    }
+  };
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'nextjs-rag-'));
+    configure({ embeddingProvider: 'local', dbPath: path.join(dir, 'index.db') });
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('keeps every article of a page and nothing between them', async () => {
+    fs.mkdirSync(path.join(dir, 'out'));
+    fs.writeFileSync(
+      path.join(dir, 'out', 'index.html'),
+      page('<article>First post</article><aside>Popular tags</aside><article>Second post</article>')
+    );
+    fs.writeFileSync(path.join(dir, 'out', 'guide.html'), page('<main>The guide</main><nav>Related</nav>'));
+
+    const result = await indexBuildOutput({ directory: dir, outputDir: 'out' });
+    const home = pageText('/');
+
+    expect(result.pagesIndexed).toBe(2);
+    expect(home).toContain('First post');
+    expect(home).toContain('Second post');
+    expect(home).not.toContain('Popular tags');
+    expect(home).not.toContain('Site nav');
+    expect(pageText('/guide')).not.toContain('Related');
+  });
+
+  describe('from a sitemap', () => {
+    let server: http.Server;
+    let origin: string;
+
+    beforeEach(async () => {
+      server = http.createServer((req, res) => {
+        if (req.url === '/sitemap.xml') {
+          res.setHeader('content-type', 'application/xml');
+          res.end(`<urlset>${['/docs', '/broken', 'http://', '/missing'].map(loc => `<url><loc>${loc}</loc></url>`).join('')}</urlset>`);
+        } else if (req.url === '/docs') {
+          res.setHeader('content-type', 'text/html');
+          res.end(page('<main>Crawled docs</main>'));
+        } else if (req.url === '/broken') {
+          req.socket.destroy();
+        } else {
+          res.statusCode = 404;
+          res.end();
+        }
+      });
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+      origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterEach(async () => {
+      await new Promise(resolve => server.close(resolve));
+    });
+
+    it('skips pages that fail to load and indexes the rest', async () => {
+      const result = await indexSitemap({ url: origin });
+
+      expect(result.pagesFound).toBe(1);
+      expect(result.pagesIndexed).toBe(1);
+      expect(pageText('/docs')).toContain('Crawled docs');
+    });
+  });
+});
@@ -0,0 +1,285 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { htmlLoader } from './loaders';
+import { writeDocuments } from './documents';
+import { matchesGlob } from './glob';
+import { getConfig } from './config';
+import { IndexFailure } from './indexer';
+import { DocumentInput } from './types';
+
+export interface BuildIndexOptions {
+  /** Project directory containing the build output (default: current directory) */
+  directory?: string;
+  /** Build output to read, relative to directory: .next or a static export such as out (default: .next, else out) */
+  outputDir?: string;
+  /** Origin for page URLs in citations, e.g. https://example.com (default: urlMapper baseUrl, else root-relative) */
+  siteUrl?: string;
+  /** Routes to leave out, as globs, e.g. ['/admin/**'] */
+  exclude?: string[];
+  /** Collection to index into (default: 'default') */
+  collection?: string;
+  verbose?: boolean;
+}
+
+export interface CrawlOptions extends Omit<BuildIndexOptions, 'directory' | 'outputDir'> {
+  /** Origin of a running server, e.g. http://localhost:3000 */
+  url: string;
+  /** Sitemap to read routes from (default: /sitemap.xml on url) */
+  sitemap?: string;
+  /** Pages fetched at a time (default: 4) */
+  concurrency?: number;
+}
+
+export interface BuildIndexResult {
+  pagesFound: number;
+  pagesIndexed: number;
+  pagesUnchanged: number;
+  /** Pages indexed before that are gone from the build */
+  pagesRemoved: number;
+  chunksCreated: number;
+  embeddingsReused: number;
+  /** Pages left as they were because some chunks couldn't be embedded; `filePath` is the route */
+  failures: IndexFailure[];
+}
+
+interface RenderedPage {
+  route: string;
+  html: string;
+  /** Public URL of the page, when known */
+  url?: string;
+}
+
+/** Pages every build has that aren't content */
+const ERROR_ROUTES = ['/404', '/500'];
+
+/**
+ * Route of a prerendered HTML file, relative to the directory of its router.
+ * Special files such as _not-found and _error have no route.
+ */
+function toRoute(relativePath: string): string | undefined {
+  const segments = relativePath.replace(/\\/g, '/').replace(/\.html$/, '').split('/');
+
+  if (segments[segments.length - 1] === 'index') {
+    segments.pop();
+  }
+  if (segments.some(segment => segment.startsWith('_'))) {
+    return undefined;
+  }
+
+  const route = `/${segments.join('/')}`;
+  return ERROR_ROUTES.includes(route) ? undefined : route;
+}
+
+function findHtmlFiles(dir: string, skip: string[] = []): string[] {
+  if (!fs.existsSync(dir)) {
+    return [];
+  }
+
+  const files: string[] = [];
+
+  const traverse = (current: string) => {
+    for (const entry of fs.readdirSync(current, { withFileTypes: true })) {
+      const fullPath = path.join(current, entry.name);
+      if (entry.isDirectory()) {
+        if (!skip.includes(entry.name)) traverse(fullPath);
+      } else if (entry.isFile() && entry.name.endsWith('.html')) {
+        files.push(fullPath);
+      }
+    }
+  };
+
+  traverse(dir);
+  return files;
+}
+
+/**
+ * Read the prerendered pages of a build: .next/server/app and
+ * .next/server/pages, or every page of a static export
+ */
+function readBuildOutput(outputDir: string): RenderedPage[] {
+  const isNextDir = fs.existsSync(path.join(outputDir, 'server'));
+  const routerDirs = isNextDir
+    ? [path.join(outputDir, 'server', 'app'), path.join(outputDir, 'server', 'pages')]
+    : [outputDir];
+
+  const pages = new Map<string, RenderedPage>();
+
+  for (const routerDir of routerDirs) {
+    for (const file of findHtmlFiles(routerDir, ['_next'])) {
+      const route = toRoute(path.relative(routerDir, file));
+      // A route rendered by both routers is served by the app router
+      if (route && !pages.has(route)) {
+        pages.set(route, { route, html: fs.readFileSync(file, 'utf-8') });
+      }
+    }
+  }
+
+  return [...pages.values()];
+}
+
+/**
+ * Cut a page down to its main content, dropping site chrome such as the
+ * header, navigation and footer. The title and description are kept.
+ */
+function extractMainContent(html: string): string {
+  const head = [
+    html.match(/<title[^>]*>[\s\S]*?<\/title>/i)?.[0],
+    html.match(/<meta\s+[^>]*name=["']description["'][^>]*>/i)?.[0],
+  ].filter(Boolean).join('');
+
+  // Non-greedy, so text between several <main> or <article> elements isn't swept in
+  const mains = [...html.matchAll(/<main\b[^>]*>([\s\S]*?)<\/main>/gi)].map(match => match[1]);
+  const articles = [...html.matchAll(/<article\b[^>]*>([\s\S]*?)<\/article>/gi)].map(match => match[1]);
+  const main = [mains, articles].find(regions => regions.length > 0)?.join('\n')
+    ?? (html.match(/<body\b[^>]*>([\s\S]*)<\/body>/i)?.[1] ?? html)
+      .replace(/<(header|footer|aside)\b[\s\S]*?<\/\1>/gi, '');
+
+  return `<html><head>${head}</head><body>${main}</body></html>`;
+}
+
+/**
+ * Turn rendered pages into documents keyed by route and index them,
+ * removing pages of earlier runs that are gone
+ */
+async function indexPages(pages: RenderedPage[], options: Omit<BuildIndexOptions, 'directory' | 'outputDir'>): Promise<BuildIndexResult> {
+  const urlMapper = getConfig().urlMapper;
+  const siteUrl = (options.siteUrl ?? (typeof urlMapper === 'object' ? urlMapper.baseUrl : undefined) ?? '').replace(/\/+$/, '');
+  const included = pages.filter(page => !options.exclude?.some(pattern => matchesGlob(page.route, pattern)));
+
+  const documents: DocumentInput[] = [];
+
+  for (const page of included) {
+    const loaded = await htmlLoader.load(Buffer.from(extractMainContent(page.html)), { path: `${page.route}.html`, mimeType: 'text/html' });
+    if (!loaded.content.trim()) {
+      continue;
+    }
+
+    documents.push({
+      id: page.route,
+      text: loaded.content,
+      metadata: { ...loaded.metadata, url: siteUrl ? `${siteUrl}${page.route}` : page.url ?? page.route },
+      format: loaded.format,
+    });
+
+    if (options.verbose) {
+      console.log(`Page: ${page.route}`);
+    }
+  }
+
+  const result = await writeDocuments(documents, 'build', {
+    collection: options.collection,
+    raw: false,
+    prune: true,
+  });
+
+  return {
+    pagesFound: pages.length,
+    pagesIndexed: result.documentsUpserted,
+    pagesUnchanged: result.documentsUnchanged,
+    pagesRemoved: result.documentsRemoved,
+    chunksCreated: result.chunksCreated,
+    embeddingsReused: result.embeddingsReused,
+    failures: result.failures,
+  };
+}
+
+/**
+ * Index the prerendered pages of a Next.js build by route, so pages
+ * generated from data are searchable by the text users actually read.
+ * Pages rendered only at request time aren't in the build; crawl a running
+ * server with indexSitemap() to include them.
+ */
+export async function indexBuildOutput(options: BuildIndexOptions = {}): Promise<BuildIndexResult> {
+  const directory = path.resolve(options.directory || process.cwd());
+  const outputDir = options.outputDir
+    ? path.resolve(directory, options.outputDir)
+    : [path.join(directory, '.next'), path.join(directory, 'out')].find(dir => fs.existsSync(dir));
+
+  if (!outputDir || !fs.existsSync(outputDir)) {
+    throw new Error(`No build output found in ${directory}. Run \`next build\` first, or pass the output directory.`);
+  }
+
+  const pages = readBuildOutput(outputDir);
+
+  if (options.verbose) {
+    console.log(`Found ${pages.length} prerendered pages in ${outputDir}`);
+  }
+
+  return indexPages(pages, options);
+}
+
+/**
+ * Read page URLs from a sitemap, following sitemap indexes
+ */
+async function readSitemap(url: string, seen: Set<string> = new Set()): Promise<string[]> {
+  if (seen.has(url)) {
+    return [];
+  }
+  seen.add(url);
+
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch sitemap ${url}: ${response.status} ${response.statusText}`);
+  }
+
+  const xml = await response.text();
+  const locations = [...xml.matchAll(/<loc>\s*([\s\S]*?)\s*<\/loc>/g)].map(match =>
+    match[1].replace(/&amp;/g, '&').replace(/<!\[CDATA\[|\]\]>/g, '')
+  );
+
+  if (/<sitemapindex\b/.test(xml)) {
+    const nested: string[] = [];
+    for (const location of locations) {
+      nested.push(...(await readSitemap(location, seen)));
+    }
+    return nested;
+  }
+
+  return locations;
+}
+
+/**
+ * Index the pages of a running server (e.g. `next start`) listed in its
+ * sitemap, by route. Sitemap URLs usually point at the production site, so
+ * pages are fetched from the given server and cited with their sitemap URL.
+ */
+export async function indexSitemap(options: CrawlOptions): Promise<BuildIndexResult> {
+  const origin = new URL(options.url).origin;
+  const sitemapUrl = options.sitemap ? new URL(options.sitemap, origin).href : `${origin}/sitemap.xml`;
+  const locations = [...new Set(await readSitemap(sitemapUrl))];
+
+  if (options.verbose) {
+    console.log(`Found ${locations.length} pages in ${sitemapUrl}`);
+  }
+
+  const pages: RenderedPage[] = [];
+  const queue = [...locations];
+
+  const worker = async () => {
+    for (let location = queue.shift(); location !== undefined; location = queue.shift()) {
+      // One page that can't be fetched shouldn't lose the others
+      try {
+        const { pathname, search } = new URL(location, origin);
+        const response = await fetch(`${origin}${pathname}${search}`);
+
+        if (!response.ok || !response.headers.get('content-type')?.includes('text/html')) {
+          if (options.verbose) {
+            console.log(`Skipping ${pathname}: ${response.status} ${response.headers.get('content-type') || ''}`);
+          }
+          continue;
+        }
+
+        const route = pathname.replace(/\/+$/, '') || '/';
+        pages.push({ route, html: await response.text(), url: location });
+      } catch (error) {
+        if (options.verbose) {
+          console.log(`Skipping ${location}: ${(error as Error).message}`);
+        }
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.max(options.concurrency ?? 4, 1) }, worker));
+
+  return indexPages(pages, options);
+}
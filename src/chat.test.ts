@@ -0,0 +1,54 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { getChatModel } from './chat';
+import { getConfig } from './config';
+
+describe('getChatModel', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  const requests: Array<{ url?: string; body: any }> = [];
+
+  // A minimal OpenAI-compatible chat completions endpoint
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', data => (body += data));
+      req.on('end', () => {
+        requests.push({ url: req.url, body: JSON.parse(body) });
+        res.setHeader('content-type', 'application/json');
+        res.end(JSON.stringify({
+          id: 'chatcmpl-1',
+          object: 'chat.completion',
+          created: 0,
+          model: 'llama3',
+          choices: [{ index: 0, finish_reason: 'stop', message: { role: 'assistant', content: 'From the local server' } }],
+        }));
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('sends chat requests to chatBaseUrl', async () => {
+    const model = getChatModel({ ...getConfig(), apiKey: '', chatModel: 'llama3', chatBaseUrl: baseUrl });
+    const answer = await model.complete([{ role: 'user', content: 'Hi' }]);
+
+    expect(model.name).toBe('openai-compatible');
+    expect(answer).toBe('From the local server');
+    expect(requests.at(-1)).toMatchObject({ url: '/v1/chat/completions', body: { model: 'llama3' } });
+  });
+
+  it('uses the OpenAI API without chatBaseUrl, even if embeddings come from another server', async () => {
+    const sent = requests.length;
+    const model = getChatModel({ ...getConfig(), apiKey: '', chatModel: 'gpt-4o-mini', embeddingBaseUrl: baseUrl, chatBaseUrl: undefined });
+
+    expect(model.name).toBe('openai');
+    await expect(model.complete([{ role: 'user', content: 'Hi' }])).rejects.toThrow(/API key/);
+    expect(requests).toHaveLength(sent);
+  });
+});
@@ -0,0 +1,86 @@
+import OpenAI from 'openai';
+import { getConfig } from './config';
+import { ChatMessage, ChatModel, ResolvedRagConfig } from './types';
+
+export interface OpenAIChatModelOptions {
+  model: string;
+  apiKey?: string;
+  /** Base URL of an OpenAI-compatible server (Ollama, LM Studio, vLLM) */
+  baseURL?: string;
+  temperature?: number;
+}
+
+/**
+ * Generates answers through the OpenAI chat completions API or any server that speaks it
+ */
+export class OpenAIChatModel implements ChatModel {
+  readonly name: string;
+  readonly model: string;
+  private client: OpenAI | null = null;
+  private apiKey: string;
+  private baseURL?: string;
+  private temperature?: number;
+
+  constructor(options: OpenAIChatModelOptions) {
+    this.name = options.baseURL ? 'openai-compatible' : 'openai';
+    this.model = options.model;
+    this.apiKey = options.apiKey || '';
+    this.baseURL = options.baseURL;
+    this.temperature = options.temperature;
+  }
+
+  private getClient(): OpenAI {
+    if (!this.client) {
+      if (!this.apiKey && !this.baseURL) {
+        throw new Error('OpenAI API key not found. Set OPENAI_API_KEY environment variable or pass apiKey in config.');
+      }
+      this.client = new OpenAI({
+        apiKey: this.apiKey || 'not-needed',
+        baseURL: this.baseURL,
+      });
+    }
+    return this.client;
+  }
+
+  async complete(messages: ChatMessage[]): Promise<string> {
+    const completion = await this.getClient().chat.completions.create({
+      model: this.model,
+      messages,
+      temperature: this.temperature,
+    });
+
+    return completion.choices[0]?.message.content || '';
+  }
+
+  async *stream(messages: ChatMessage[]): AsyncIterable<string> {
+    const stream = await this.getClient().chat.completions.create({
+      model: this.model,
+      messages,
+      temperature: this.temperature,
+      stream: true,
+    });
+
+    for await (const chunk of stream) {
+      const delta = chunk.choices[0]?.delta?.content;
+      if (delta) {
+        yield delta;
+      }
+    }
+  }
+}
+
+/**
+ * Get the chat model for the current config
+ */
+export function getChatModel(config: ResolvedRagConfig = getConfig()): ChatModel {
+  if (typeof config.chatModel === 'object') {
+    return config.chatModel;
+  }
+
+  // embeddingBaseUrl isn't used: an embedding server may not serve chat models
+  return new OpenAIChatModel({
+    model: config.chatModel,
+    apiKey: config.apiKey,
+    baseURL: config.chatBaseUrl,
+  });
+}
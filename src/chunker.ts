@@ -1,15 +1,27 @@
 import * as crypto from 'crypto';
+import { TextSizer, getTextSizer } from './tokenizer';
 
 export interface ChunkOptions {
   chunkSize: number;
   chunkOverlap: number;
+  /** Measures chunkSize and chunkOverlap (default: characters) */
+  sizer?: TextSizer;
+}
+
+/**
+ * A chunk produced by a structure-aware chunker, with chunk-level metadata
+ * (heading path, symbol name, ...) that is merged into the file's metadata
+ */
+export interface TextChunk {
+  content: string;
+  metadata?: Record<string, any>;
 }
 
 /**
  * Splits text into overlapping chunks with smart boundary detection
  */
 export function chunkText(text: string, options: ChunkOptions): string[] {
-  const { chunkSize, chunkOverlap } = options;
+  const { chunkSize, chunkOverlap, sizer = getTextSizer() } = options;
   const chunks: string[] = [];
   
   // Normalize whitespace
@@ -19,23 +31,29 @@ export function chunkText(text: string, options: ChunkOptions): string[] {
   const sentences = text.split(/(?<=[.!?])\s+/);
   
   let currentChunk = '';
+  // Sizes are summed per sentence rather than re-measuring the whole chunk,
+  // which keeps token counting linear
+  let currentSize = 0;
   
   for (const sentence of sentences) {
-    // If a single sentence is larger than chunkSize, split it by character
-    if (sentence.length > chunkSize) {
+    const sentenceSize = sizer.measure(sentence);
+    
+    // If a single sentence is larger than chunkSize, split it by size
+    if (sentenceSize > chunkSize) {
       if (currentChunk) {
         chunks.push(currentChunk.trim());
         currentChunk = '';
+        currentSize = 0;
       }
       
       // Split large sentence
-      const parts = splitByCharacter(sentence, chunkSize, chunkOverlap);
+      const parts = sizer.split(sentence, chunkSize, chunkOverlap);
       chunks.push(...parts);
       continue;
     }
     
     // If adding this sentence would exceed chunkSize
-    if (currentChunk.length + sentence.length > chunkSize) {
+    if (currentSize + sentenceSize > chunkSize) {
       if (currentChunk) {
         chunks.push(currentChunk.trim());
       }
@@ -43,12 +61,15 @@ export function chunkText(text: string, options: ChunkOptions): string[] {
       // Start new chunk with overlap from previous chunk
       if (chunks.length > 0 && chunkOverlap > 0) {
         const previousChunk = chunks[chunks.length - 1];
-        const overlapText = previousChunk.slice(-chunkOverlap);
+        const overlapText = sizer.tail(previousChunk, chunkOverlap);
         currentChunk = overlapText + ' ' + sentence;
+        currentSize = sizer.measure(overlapText) + 1 + sentenceSize;
       } else {
         currentChunk = sentence;
+        currentSize = sentenceSize;
       }
     } else {
+      currentSize += (currentChunk ? 1 : 0) + sentenceSize;
       currentChunk += (currentChunk ? ' ' : '') + sentence;
     }
   }
@@ -60,23 +81,111 @@ export function chunkText(text: string, options: ChunkOptions): string[] {
   return chunks.filter(chunk => chunk.length > 0);
 }
 
-function splitByCharacter(text: string, chunkSize: number, overlap: number): string[] {
-  const chunks: string[] = [];
-  let start = 0;
-  
-  while (start < text.length) {
-    const end = Math.min(start + chunkSize, text.length);
-    chunks.push(text.slice(start, end));
-    start += chunkSize - overlap;
+/** Characters matched at each end of a chunk that isn't a contiguous span of its source */
+const ANCHOR_LENGTH = 60;
+
+/**
+ * Collapse whitespace runs to a single space, remembering where each
+ * character of the result came from
+ */
+function normalizeWhitespace(text: string): { normalized: string; offsets: number[] } {
+  let normalized = '';
+  const offsets: number[] = [];
+  let inWhitespace = false;
+
+  for (let i = 0; i < text.length; i++) {
+    if (/\s/.test(text[i])) {
+      if (!inWhitespace) {
+        normalized += ' ';
+        offsets.push(i);
+      }
+      inWhitespace = true;
+    } else {
+      normalized += text[i];
+      offsets.push(i);
+      inWhitespace = false;
+    }
   }
-  
-  return chunks;
+
+  return { normalized, offsets };
+}
+
+/** Where a chunk was found in its source; lines are 1-based and inclusive */
+export interface ChunkLocation {
+  start: number;
+  end: number;
+  startLine: number;
+  endLine: number;
+}
+
+/**
+ * 1-based line of a character offset, given the offsets where lines start
+ */
+function lineAt(lineStarts: number[], offset: number): number {
+  let low = 0;
+  let high = lineStarts.length - 1;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (lineStarts[mid] <= offset) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return low + 1;
+}
+
+/**
+ * Find the character and line range of each chunk within the source it was
+ * cut from. Chunkers may re-join whitespace, drop MDX syntax or repeat table
+ * headers, so matching ignores whitespace and falls back to locating the
+ * start and end of a chunk separately. Locations are undefined for chunks
+ * that can't be found.
+ */
+export function locateChunks(source: string, contents: string[]): Array<ChunkLocation | undefined> {
+  const { normalized, offsets } = normalizeWhitespace(source);
+  const lineStarts = [0];
+  for (let i = 0; i < source.length; i++) {
+    if (source[i] === '\n') lineStarts.push(i + 1);
+  }
+  let cursor = 0;
+
+  return contents.map(content => {
+    const needle = normalizeWhitespace(content).normalized.trim();
+    if (!needle) {
+      return undefined;
+    }
+
+    let start = normalized.indexOf(needle, cursor);
+    let end = start + needle.length;
+
+    if (start === -1) {
+      const head = needle.slice(0, ANCHOR_LENGTH);
+      const tail = needle.slice(-ANCHOR_LENGTH);
+      start = normalized.indexOf(head, cursor);
+      const tailStart = start === -1 ? -1 : normalized.indexOf(tail, start);
+      if (tailStart === -1) {
+        return undefined;
+      }
+      end = tailStart + tail.length;
+    }
+
+    // Chunks come in source order but may overlap the previous one
+    cursor = start + 1;
+
+    const location = { start: offsets[start], end: offsets[end - 1] + 1 };
+    return {
+      ...location,
+      startLine: lineAt(lineStarts, location.start),
+      endLine: lineAt(lineStarts, location.end - 1),
+    };
+  });
 }
 
 /**
  * Generates MD5 hash for content deduplication
  */
-export function hashContent(content: string): string {
+export function hashContent(content: string | Buffer): string {
   return crypto.createHash('md5').update(content).digest('hex');
 }
 
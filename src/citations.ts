@@ -0,0 +1,113 @@
+import * as path from 'path';
+import { getConfig } from './config';
+import { Citation, ContextChunk, ContextPassage, ResolvedRagConfig, UrlMapper, UrlMapperOptions } from './types';
+
+/** Extensions Next.js renders pages from with MDX enabled */
+const PAGE_EXTENSIONS = ['.mdx', '.md', '.tsx', '.ts', '.jsx', '.js'];
+
+/**
+ * Join route segments into a path, skipping what Next.js leaves out of URLs.
+ * Routes with dynamic or private segments have no single URL.
+ */
+function toRoute(segments: string[]): string | undefined {
+  const route: string[] = [];
+
+  for (const segment of segments) {
+    // Route groups and parallel route slots
+    if (/^\(.*\)$/.test(segment) || segment.startsWith('@')) continue;
+    // Private folders, dynamic segments and intercepting routes
+    if (segment.startsWith('_') || segment.startsWith('[') || segment.startsWith('(')) return undefined;
+    route.push(segment);
+  }
+
+  return `/${route.join('/')}`;
+}
+
+function stripExtension(filePath: string): string | undefined {
+  const extension = path.posix.extname(filePath);
+  return extension ? filePath.slice(0, -extension.length) : undefined;
+}
+
+/**
+ * Create a mapper that follows Next.js routing conventions:
+ * `app/**\/page.mdx`, `pages/**` and content directories rendered by a
+ * dynamic route. Files that don't render a page map to undefined.
+ */
+export function createUrlMapper(options: UrlMapperOptions = {}): UrlMapper {
+  const baseUrl = (options.baseUrl || '').replace(/\/+$/, '');
+  // Longest directory first, so nested content directories win
+  const contentDirs = Object.entries(options.contentDirs || {})
+    .map(([dir, route]) => [dir.replace(/^\.\/|\/+$/g, ''), route.replace(/^\/*/, '/').replace(/\/+$/, '')] as const)
+    .sort((a, b) => b[0].length - a[0].length);
+
+  const toUrl = (route: string | undefined) => (route === undefined ? undefined : `${baseUrl}${route}`);
+
+  return filePath => {
+    const normalized = filePath.replace(/\\/g, '/').replace(/^\.\//, '');
+
+    for (const [dir, route] of contentDirs) {
+      if (!normalized.startsWith(`${dir}/`)) continue;
+
+      const page = stripExtension(normalized.slice(dir.length + 1));
+      if (page === undefined) return undefined;
+
+      const segments = page.split('/');
+      if (segments[segments.length - 1] === 'index') segments.pop();
+      return toUrl([route, ...segments].join('/') || '/');
+    }
+
+    const withoutSrc = normalized.replace(/^src\//, '');
+    const extension = path.posix.extname(withoutSrc);
+    if (!PAGE_EXTENSIONS.includes(extension)) {
+      return undefined;
+    }
+
+    const appPage = withoutSrc.match(/^app\/(?:(.*)\/)?page\.[^/.]+$/);
+    if (appPage) {
+      return toUrl(toRoute(appPage[1] ? appPage[1].split('/') : []));
+    }
+
+    if (withoutSrc.startsWith('pages/')) {
+      const segments = stripExtension(withoutSrc)!.split('/').slice(1);
+      // API routes and special files like _app don't render pages
+      if (segments[0] === 'api') return undefined;
+      if (segments[segments.length - 1] === 'index') segments.pop();
+      return toUrl(toRoute(segments));
+    }
+
+    return undefined;
+  };
+}
+
+/**
+ * Get the URL mapper for the current config
+ */
+export function getUrlMapper(config: ResolvedRagConfig = getConfig()): UrlMapper {
+  if (config.urlMapper === false) {
+    return () => undefined;
+  }
+  if (typeof config.urlMapper === 'function') {
+    return config.urlMapper;
+  }
+  return createUrlMapper(config.urlMapper);
+}
+
+/**
+ * Describe where a passage or chunk comes from. A `url` in the metadata,
+ * e.g. of a document added through the API, wins over the URL mapper.
+ */
+export function toCitation(entry: ContextPassage | ContextChunk, urlMapper: UrlMapper = getUrlMapper()): Citation {
+  const metadata = 'chunks' in entry ? entry.chunks[0]?.metadata : entry.metadata;
+  const page = typeof metadata?.url === 'string' ? metadata.url : urlMapper(entry.filePath);
+
+  return {
+    filePath: entry.filePath,
+    collection: entry.collection,
+    url: page !== undefined && entry.anchor ? `${page}#${entry.anchor}` : page,
+    title: metadata?.title ?? metadata?.headingPath?.[0],
+    anchor: entry.anchor,
+    lines: entry.startLine !== undefined && entry.endLine !== undefined
+      ? { start: entry.startLine, end: entry.endLine }
+      : undefined,
+  };
+}
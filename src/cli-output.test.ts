@@ -0,0 +1,60 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import chalk from 'chalk';
+import { pluralize, printStats } from './cli-output';
+import { IndexStats } from './types';
+
+describe('pluralize', () => {
+  it('uses the singular only for one', () => {
+    expect(pluralize(1, 'chunk')).toBe('1 chunk');
+    expect(pluralize(0, 'chunk')).toBe('0 chunks');
+    expect(pluralize(5, 'file')).toBe('5 files');
+  });
+});
+
+describe('printStats', () => {
+  const STATS: IndexStats = {
+    collection: 'default',
+    fileCount: 6,
+    sources: { file: 5, api: 1 },
+    chunkCount: 3,
+    chunksWithoutEmbedding: 0,
+    totalSize: 2048,
+    databaseSize: 4096,
+    largestFiles: [
+      { filePath: 'docs/a.md', size: 1500, chunkCount: 2 },
+      { filePath: 'docs/b.md', size: 548, chunkCount: 1 },
+    ],
+    chunkLengths: { min: 10, max: 10, mean: 10, median: 10, p90: 10, histogram: [] },
+  };
+
+  const printed = (stats: IndexStats) => {
+    const level = chalk.level;
+    chalk.level = 0;
+    const lines: string[] = [];
+    vi.spyOn(console, 'log').mockImplementation((line = '') => lines.push(line));
+
+    try {
+      printStats(stats);
+    } finally {
+      chalk.level = level;
+    }
+    return lines;
+  };
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('pluralizes counts by their number', () => {
+    const lines = printed(STATS);
+
+    expect(lines).toContain('  Files: 6 (5 files, 1 API document)');
+    expect(lines.find(line => line.includes('docs/a.md'))).toMatch(/ 2 chunks /);
+    expect(lines.find(line => line.includes('docs/b.md'))).toMatch(/ 1 chunk /);
+  });
+
+  it('gives the file count once for a single source', () => {
+    expect(printed({ ...STATS, fileCount: 2, sources: { file: 2 } })).toContain('  Files: 2');
+    expect(printed({ ...STATS, fileCount: 2, sources: { api: 2 } })).toContain('  Files: 2 API documents');
+  });
+});
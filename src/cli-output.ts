@@ -0,0 +1,518 @@
+import * as path from 'path';
+import chalk from 'chalk';
+import type { Ora } from 'ora';
+import { toCitation } from './citations';
+import { ChunkInfo, Citation, ContextChunk, DocumentSource, FileRecord, IndexStats, QueryResult } from './types';
+import { EvalComparison, EvalMetrics, EvalReport } from './eval';
+import { IndexEvent, IndexFailure, IndexPreview } from './indexer';
+import { ExcludedFile, ExclusionReason } from './discovery';
+import { ConfigDescription, ConfigOrigin } from './config';
+
+export type OutputFormat = 'text' | 'json' | 'jsonl' | 'markdown';
+
+export const OUTPUT_FORMATS: OutputFormat[] = ['text', 'json', 'jsonl', 'markdown'];
+
+/** Characters of each result shown unless the full text is asked for */
+const PREVIEW_LENGTH = 200;
+
+export interface PrintOptions {
+  /** Show the whole text of each result instead of a preview */
+  full?: boolean;
+  /** Show the ranking score next to the similarity */
+  showScore?: boolean;
+  /** Show the collection of each result */
+  showCollection?: boolean;
+  /** Show the assembled context below the results */
+  showContext?: boolean;
+}
+
+function preview(content: string, full?: boolean): string {
+  return full || content.length <= PREVIEW_LENGTH ? content : `${content.slice(0, PREVIEW_LENGTH)}...`;
+}
+
+/**
+ * Where a citation points, e.g. `docs/guide.md:10-24 → https://example.com/guide`
+ */
+export function formatSource(source: Citation): string {
+  const lines = source.lines ? `:${source.lines.start}-${source.lines.end}` : '';
+  const url = source.url ? ` → ${source.url}` : '';
+  return `${source.filePath}${lines}${url}`;
+}
+
+/**
+ * A citation as a Markdown link to its page, or plain text if it has none
+ */
+function markdownLink(source: Citation): string {
+  const label = formatSource({ ...source, url: undefined });
+  return source.url ? `[${label}](${source.url})` : label;
+}
+
+/**
+ * Print one retrieved chunk the way `query` lists results
+ */
+export function printChunk(chunk: ContextChunk, rank: number, options: PrintOptions = {}): void {
+  const collection = options.showCollection ? chalk.gray(` (${chunk.collection})`) : '';
+  console.log(chalk.cyan(`[${rank}] ${chunk.filePath}`) + collection);
+  console.log(chalk.gray(`    Similarity: ${(chunk.similarity * 100).toFixed(2)}%`));
+  if (options.showScore) {
+    console.log(chalk.gray(`    Score: ${chunk.score.toPrecision(4)}`));
+  }
+  if (chunk.rerankScore !== undefined) {
+    console.log(chalk.gray(`    Rerank score: ${chunk.rerankScore.toPrecision(4)} (was #${chunk.originalRank})`));
+  }
+  console.log(chalk.white(preview(chunk.content, options.full).replace(/^/gm, '    ')));
+  console.log();
+}
+
+/**
+ * Print query results for people: the results, the assembled context if
+ * asked for, what didn't fit the token budget, and the citations
+ */
+export function printResults(result: QueryResult, options: PrintOptions = {}): void {
+  console.log(chalk.bold('\n🔍 Results:\n'));
+
+  if (result.context.length === 0) {
+    console.log(chalk.gray('    No results.\n'));
+  }
+
+  result.context.forEach((chunk, idx) => printChunk(chunk, idx + 1, options));
+
+  if (options.showContext) {
+    console.log(chalk.bold('🧩 Context:\n'));
+    console.log(chalk.white(result.text));
+    console.log();
+  }
+
+  if (result.truncation?.truncated) {
+    const { tokens, maxTokens, droppedPassages, droppedChunkIds } = result.truncation;
+    console.log(chalk.yellow(
+      `✂ Context cut to ${tokens}/${maxTokens} tokens: ${pluralize(droppedPassages, 'passage')} and ${pluralize(droppedChunkIds.length, 'result')} left out\n`
+    ));
+  }
+
+  console.log(chalk.bold('📚 Citations:'));
+  result.sources.forEach((source, idx) => {
+    console.log(chalk.gray(`  [${idx + 1}] ${formatSource(source)}`));
+  });
+}
+
+/**
+ * Format query results for scripts and reports. JSON and JSON Lines always
+ * carry the full text; Markdown shows previews unless `full` is set.
+ * - json: the whole result, with the question
+ * - jsonl: one line per retrieved chunk, with its rank and citation
+ * - markdown: the results as a report
+ */
+export function formatResults(
+  question: string,
+  result: QueryResult,
+  format: Exclude<OutputFormat, 'text'>,
+  options: PrintOptions = {}
+): string {
+  if (format === 'json') {
+    return JSON.stringify({ question, ...result }, null, 2);
+  }
+
+  if (format === 'jsonl') {
+    return result.context
+      .map((chunk, idx) => JSON.stringify({ rank: idx + 1, ...chunk, citation: toCitation(chunk) }))
+      .join('\n');
+  }
+
+  const output = [`# ${question}`, ''];
+
+  if (result.context.length === 0) {
+    output.push('No results.', '');
+  }
+
+  result.context.forEach((chunk, idx) => {
+    const citation = toCitation(chunk);
+    const scores = [`similarity ${(chunk.similarity * 100).toFixed(2)}%`];
+    if (options.showScore) scores.push(`score ${chunk.score.toPrecision(4)}`);
+    if (chunk.rerankScore !== undefined) scores.push(`rerank score ${chunk.rerankScore.toPrecision(4)} (was #${chunk.originalRank})`);
+    if (options.showCollection) scores.push(`collection ${chunk.collection}`);
+
+    output.push(`## [${idx + 1}] ${markdownLink(citation)}`, '');
+    output.push(`_${scores.join(', ')}_`, '');
+    output.push(preview(chunk.content, options.full).replace(/^/gm, '> '), '');
+  });
+
+  if (options.showContext) {
+    output.push('## Context', '', '````text', result.text, '````', '');
+  }
+
+  if (result.truncation?.truncated) {
+    const { tokens, maxTokens, droppedPassages, droppedChunkIds } = result.truncation;
+    output.push(`_Context cut to ${tokens}/${maxTokens} tokens: ${pluralize(droppedPassages, 'passage')} and ${pluralize(droppedChunkIds.length, 'result')} left out._`, '');
+  }
+
+  if (result.sources.length > 0) {
+    output.push('## Citations', '');
+    result.sources.forEach((source, idx) => {
+      output.push(`${idx + 1}. ${markdownLink(source)}`);
+    });
+  }
+
+  return output.join('\n').trimEnd();
+}
+
+/**
+ * Size in bytes for people, e.g. 1.5 MB
+ */
+export function formatBytes(bytes: number): string {
+  const units = ['B', 'KB', 'MB', 'GB'];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${unit === 0 ? value : value.toFixed(1)} ${units[unit]}`;
+}
+
+/**
+ * A count with its noun, e.g. 1 chunk or 5 chunks
+ */
+export function pluralize(count: number, noun: string): string {
+  return `${count} ${count === 1 ? noun : `${noun}s`}`;
+}
+
+/** What a file of each source is called in stats */
+const SOURCE_NOUNS: Record<DocumentSource, string> = {
+  file: 'file',
+  api: 'API document',
+  build: 'build page',
+};
+
+/**
+ * Print index statistics with a bar chart of chunk lengths
+ */
+export function printStats(stats: IndexStats): void {
+  const { index, chunkLengths } = stats;
+  const sources = Object.entries(stats.sources) as Array<[DocumentSource, number]>;
+  const counts = sources.map(([source, count]) => pluralize(count, SOURCE_NOUNS[source] ?? source));
+  // Break the count down only for a mix of sources, and name a single source unless it's files
+  const files = sources.length > 1
+    ? `${stats.fileCount} (${counts.join(', ')})`
+    : sources.length === 1 && sources[0][0] !== 'file' ? counts[0] : String(stats.fileCount);
+
+  console.log(chalk.bold(`\n📊 ${stats.collection}\n`));
+  console.log(chalk.cyan(`  Model: ${index ? `${index.embeddingProvider}/${index.embeddingModel} (${index.dimension} dimensions)` : 'unknown'}`));
+  if (index) {
+    console.log(chalk.gray(`  Chunking: ${index.chunkStrategy}, ${index.chunkSize} ${index.chunkUnit} with ${index.chunkOverlap} overlap`));
+  }
+  console.log(chalk.cyan(`  Files: ${files}`));
+  console.log(chalk.cyan(`  Chunks: ${stats.chunkCount}`));
+  if (stats.chunksWithoutEmbedding > 0) {
+    console.log(chalk.yellow(`  Chunks without embedding: ${stats.chunksWithoutEmbedding}`));
+  }
+  console.log(chalk.cyan(`  Indexed content: ${formatBytes(stats.totalSize)}`));
+  console.log(chalk.gray(`  Database: ${formatBytes(stats.databaseSize)}`));
+
+  if (stats.largestFiles.length > 0) {
+    console.log(chalk.bold('\n  Largest files:'));
+    for (const file of stats.largestFiles) {
+      console.log(`    ${formatBytes(file.size).padStart(9)}  ${chalk.gray(pluralize(file.chunkCount, 'chunk').padStart(11))}  ${file.filePath}`);
+    }
+  }
+
+  if (stats.chunkCount > 0) {
+    console.log(chalk.bold('\n  Chunk length (characters):'));
+    console.log(chalk.gray(`    min ${chunkLengths.min}, median ${chunkLengths.median}, mean ${chunkLengths.mean}, p90 ${chunkLengths.p90}, max ${chunkLengths.max}`));
+
+    const most = Math.max(...chunkLengths.histogram.map(bucket => bucket.count));
+    const labelWidth = String(chunkLengths.max).length;
+    for (const bucket of chunkLengths.histogram) {
+      const label = `${String(bucket.from).padStart(labelWidth)}-${String(bucket.to).padEnd(labelWidth)}`;
+      const bar = '█'.repeat(Math.round((bucket.count / most) * 40));
+      console.log(`    ${chalk.gray(label)} ${chalk.cyan(bar)} ${bucket.count}`);
+    }
+  }
+  console.log();
+}
+
+/**
+ * Print the stored chunks of a file with their hashes and positions
+ */
+export function printFileChunks(filePath: string, record: FileRecord | undefined, chunks: ChunkInfo[], options: PrintOptions = {}): void {
+  console.log(chalk.bold(`\n📄 ${filePath}\n`));
+
+  if (record) {
+    console.log(chalk.gray(`  Source: ${record.source || 'file'}, ${formatBytes(record.size)}, content hash ${record.contentHash}`));
+    console.log(chalk.gray(`  Indexed: ${new Date(record.indexedAt).toISOString()}${record.mtime ? `, modified ${new Date(record.mtime).toISOString()}` : ''}`));
+  }
+  console.log(chalk.gray(`  Chunks: ${chunks.length}\n`));
+
+  for (const chunk of chunks) {
+    const position = [
+      chunk.chunkIndex !== undefined ? `#${chunk.chunkIndex}` : undefined,
+      chunk.startLine !== undefined ? `lines ${chunk.startLine}-${chunk.endLine}` : undefined,
+      chunk.startOffset !== undefined ? `chars ${chunk.startOffset}-${chunk.endOffset}` : undefined,
+    ].filter(Boolean).join(', ');
+
+    console.log(chalk.cyan(`  [${chunk.id}] ${position || 'position unknown'}`) + chalk.gray(`  ${chunk.content.length} chars, hash ${chunk.hash}`));
+    if (chunk.metadata?.breadcrumb) {
+      console.log(chalk.gray(`    Section: ${chunk.metadata.breadcrumb}`));
+    }
+    if (!chunk.embedded) {
+      console.log(chalk.yellow('    No embedding'));
+    }
+    console.log(chalk.white(preview(chunk.content, options.full).replace(/^/gm, '    ')));
+    console.log();
+  }
+}
+
+function formatMetric(value: number): string {
+  return value.toFixed(3);
+}
+
+function formatDelta(value: number): string {
+  const text = `${value >= 0 ? '+' : ''}${value.toFixed(3)}`;
+  if (Math.abs(value) < 0.0005) return chalk.gray(text);
+  return value > 0 ? chalk.green(text) : chalk.red(text);
+}
+
+function metricRows(k: number): Array<[keyof EvalMetrics, string]> {
+  return [['recall', `recall@${k}`], ['mrr', 'MRR'], ['ndcg', `nDCG@${k}`], ['hitRate', 'hit rate']];
+}
+
+/**
+ * Print the questions of a run that didn't retrieve everything expected
+ */
+function printMisses(report: EvalReport): void {
+  const missed = report.questions.filter(result => result.misses.length > 0);
+  if (missed.length === 0) {
+    console.log(chalk.green(`\n✓ Every expected file and passage was retrieved${report.label ? ` (${report.label})` : ''}\n`));
+    return;
+  }
+
+  console.log(chalk.bold(`\n❌ Misses${report.label ? ` (${report.label})` : ''}: ${missed.length} of ${pluralize(report.questions.length, 'question')}\n`));
+  for (const result of missed) {
+    const id = result.id ? chalk.gray(`[${result.id}] `) : '';
+    console.log(`  ${id}${result.question}`);
+    console.log(chalk.red(`    missing: ${result.misses.join(', ')}`));
+    const retrieved = result.retrieved.map(hit => (hit.relevant ? chalk.green(hit.filePath) : hit.filePath));
+    console.log(chalk.gray(`    retrieved: ${retrieved.length > 0 ? retrieved.join(chalk.gray(', ')) : 'nothing'}`));
+  }
+  console.log();
+}
+
+/**
+ * Print the metrics of an evaluation run and the questions it missed
+ */
+export function printEvalReport(report: EvalReport): void {
+  console.log(chalk.bold(`\n📏 ${pluralize(report.questions.length, 'question')}, k=${report.k}${report.label ? `, ${report.label}` : ''}\n`));
+  for (const [metric, name] of metricRows(report.k)) {
+    console.log(`  ${name.padEnd(10)} ${chalk.cyan(formatMetric(report.metrics[metric]))}`);
+  }
+  printMisses(report);
+}
+
+/**
+ * Print two evaluation runs side by side, with the questions that changed
+ */
+export function printEvalComparison(comparison: EvalComparison): void {
+  const { baseline, candidate, delta } = comparison;
+  const baselineName = baseline.label || 'baseline';
+  const candidateName = candidate.label || 'candidate';
+  const width = Math.max(baselineName.length, candidateName.length, 9);
+
+  console.log(chalk.bold(`\n📏 ${pluralize(baseline.questions.length, 'question')}, k=${baseline.k}\n`));
+  console.log(chalk.gray(`  ${''.padEnd(10)} ${baselineName.padStart(width)} ${candidateName.padStart(width)}   Δ`));
+  for (const [metric, name] of metricRows(baseline.k)) {
+    console.log(
+      `  ${name.padEnd(10)} ${formatMetric(baseline.metrics[metric]).padStart(width)} ` +
+      `${chalk.cyan(formatMetric(candidate.metrics[metric]).padStart(width))}   ${formatDelta(delta[metric])}`
+    );
+  }
+
+  if (comparison.changed.length > 0) {
+    console.log(chalk.bold(`\n↕ ${pluralize(comparison.changed.length, 'question')} changed\n`));
+    for (const change of comparison.changed) {
+      const better = change.candidate.recall > change.baseline.recall ||
+        (change.candidate.recall === change.baseline.recall && change.candidate.reciprocalRank > change.baseline.reciprocalRank);
+      const id = change.id ? chalk.gray(`[${change.id}] `) : '';
+      console.log(`  ${better ? chalk.green('↑') : chalk.red('↓')} ${id}${change.question}`);
+      console.log(chalk.gray(
+        `    recall ${formatMetric(change.baseline.recall)} → ${formatMetric(change.candidate.recall)}, ` +
+        `RR ${formatMetric(change.baseline.reciprocalRank)} → ${formatMetric(change.candidate.reciprocalRank)}`
+      ));
+    }
+  }
+
+  printMisses(candidate);
+}
+
+/**
+ * Describe a file that couldn't be indexed, with the chunks that failed to embed
+ */
+export function formatIndexFailure(failure: IndexFailure): string {
+  const chunks = failure.chunkIndexes.length > 0 ? ` (chunk ${failure.chunkIndexes.join(', ')})` : '';
+  return `${failure.filePath}${chunks}: ${failure.error.message}`;
+}
+
+/**
+ * List files that couldn't be loaded or embedded, and fail the command so scripts notice
+ */
+export function printIndexFailures(failures: IndexFailure[]): void {
+  if (failures.length === 0) return;
+
+  console.log(chalk.yellow(`  ${failures.length} not indexed; fix them or run the command again to retry:`));
+  for (const failure of failures) {
+    console.log(chalk.yellow(`    ${formatIndexFailure(failure)}`));
+  }
+  process.exitCode = 1;
+}
+
+/** Characters in the indexing progress bar */
+const PROGRESS_BAR_WIDTH = 24;
+
+function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+  return `${Math.floor(seconds / 3600)}h ${Math.floor((seconds % 3600) / 60)}m`;
+}
+
+function formatCost(cost: number): string {
+  return `$${cost < 0.01 ? cost.toFixed(4) : cost.toFixed(2)}`;
+}
+
+/**
+ * Tokens sent to the embedding provider, with their estimated cost if known
+ */
+export function formatTokenUsage(tokens: number, estimatedCost?: number): string {
+  return `${tokens.toLocaleString('en-US')} tokens${estimatedCost !== undefined ? ` (~${formatCost(estimatedCost)})` : ''}`;
+}
+
+/**
+ * Show the progress of an indexing run on a spinner: a bar of the files
+ * done, tokens embedded so far and the time left
+ */
+export function trackIndexProgress(spinner: Ora, label: string): (event: IndexEvent) => void {
+  const started = Date.now();
+  let total = 0;
+  let done = 0;
+  let tokens = 0;
+  let cost: number | undefined;
+
+  return event => {
+    switch (event.type) {
+      case 'discovered':
+        total = event.files;
+        break;
+      case 'file-done':
+      case 'error':
+        done++;
+        break;
+      case 'embedded':
+        tokens += event.tokens;
+        if (event.estimatedCost !== undefined) cost = (cost ?? 0) + event.estimatedCost;
+        break;
+      default:
+        return;
+    }
+
+    const filled = total > 0 ? Math.round((done / total) * PROGRESS_BAR_WIDTH) : 0;
+    const bar = chalk.cyan('█'.repeat(filled)) + chalk.gray('░'.repeat(PROGRESS_BAR_WIDTH - filled));
+    const parts = [`${done}/${total} files`];
+    if (tokens > 0) parts.push(formatTokenUsage(tokens, cost));
+    if (done > 0 && done < total) {
+      parts.push(`ETA ${formatDuration(((Date.now() - started) / done) * (total - done))}`);
+    }
+
+    spinner.text = `${label} ${bar} ${parts.join(chalk.gray(' · '))}`;
+  };
+}
+
+const EXCLUSION_REASONS: Record<ExclusionReason, string> = {
+  'too-large': 'too large',
+  binary: 'binary',
+  minified: 'minified',
+  symlink: 'symbolic link',
+};
+
+/**
+ * Count of excluded files by reason, e.g. "3 (2 binary, 1 too large)"
+ */
+export function formatExclusions(excluded: ExcludedFile[]): string {
+  const counts = new Map<ExclusionReason, number>();
+  for (const file of excluded) {
+    counts.set(file.reason, (counts.get(file.reason) ?? 0) + 1);
+  }
+  const reasons = [...counts].map(([reason, count]) => `${count} ${EXCLUSION_REASONS[reason]}`);
+  return `${excluded.length}${reasons.length > 0 ? ` (${reasons.join(', ')})` : ''}`;
+}
+
+/**
+ * Print what indexing would do: each file with its chunks and tokens, the
+ * files left out and why, and the total tokens and cost
+ */
+export function printIndexPreview(preview: IndexPreview): void {
+  const width = Math.max(0, ...preview.files.map(file => file.filePath.length));
+
+  console.log(chalk.bold(`Files to index (${preview.files.length}):`));
+  for (const file of preview.files) {
+    console.log(
+      `  ${file.filePath.padEnd(width)}  ` +
+      (file.error
+        ? chalk.yellow(`${formatBytes(file.size).padStart(9)}  ${file.error}`)
+        : chalk.gray(`${formatBytes(file.size).padStart(9)}  ${pluralize(file.chunks, 'chunk').padStart(11)}  ${file.tokens.toLocaleString('en-US').padStart(9)} tokens`))
+    );
+  }
+
+  if (preview.excluded.length > 0) {
+    console.log(chalk.bold(`\nExcluded (${preview.excluded.length}):`));
+    for (const file of preview.excluded) {
+      console.log(chalk.gray(`  ${file.filePath}  ${EXCLUSION_REASONS[file.reason]}`));
+    }
+  }
+
+  console.log();
+  console.log(chalk.cyan(`${pluralize(preview.files.length, 'file')}, ${pluralize(preview.chunks, 'chunk')}, ${formatTokenUsage(preview.tokens, preview.estimatedCost)} with ${preview.embeddingModel}`));
+  console.log(chalk.gray('Nothing was indexed. Chunks already in the index are reused, so re-indexing embeds fewer tokens.'));
+}
+
+const ORIGIN_LABELS: Record<ConfigOrigin, string> = {
+  default: 'default',
+  file: 'config file',
+  env: 'env',
+  configure: 'flag',
+};
+
+/**
+ * Print the resolved config with where each setting comes from, and the
+ * config file's sources and collections
+ */
+export function printConfig(description: ConfigDescription): void {
+  const values = description.settings.map(({ value }) => (typeof value === 'string' ? value : JSON.stringify(value)));
+  const keyWidth = Math.max(...description.settings.map(setting => setting.key.length));
+  const valueWidth = Math.min(Math.max(...values.map(value => value.length)), 40);
+
+  console.log(chalk.bold(`\n⚙️  Config${description.collection ? ` for collection ${description.collection}` : ''}\n`));
+  console.log(chalk.gray(`  Config file: ${description.configFile ?? 'none (rag.config.ts, .js or .json)'}\n`));
+
+  description.settings.forEach(({ key, origin }, idx) => {
+    const value = values[idx] ? values[idx].padEnd(valueWidth) : chalk.gray('(not set)'.padEnd(valueWidth));
+    const label = origin === 'default' ? chalk.gray(ORIGIN_LABELS[origin]) : chalk.cyan(ORIGIN_LABELS[origin]);
+    console.log(`  ${key.padEnd(keyWidth)}  ${value}  ${label}`);
+  });
+
+  if (description.sources.length > 0) {
+    console.log(chalk.bold('\n  Sources:'));
+    for (const { directory, collection, ...options } of description.sources) {
+      const settings = Object.entries(options).map(([key, value]) => `${key}=${Array.isArray(value) ? value.join(',') : value}`);
+      console.log(`    ${path.relative(process.cwd(), directory) || '.'}${chalk.gray(` → ${collection ?? 'default'}${settings.length > 0 ? `  ${settings.join(' ')}` : ''}`)}`);
+    }
+  }
+
+  const collections = Object.entries(description.collections);
+  if (collections.length > 0) {
+    console.log(chalk.bold('\n  Collections:'));
+    for (const [name, settings] of collections) {
+      const shown = Object.entries(settings).map(([key, value]) => `${key}=${typeof value === 'object' ? value.name : value}`);
+      console.log(`    ${name}${chalk.gray(`  ${shown.join(' ')}`)}`);
+    }
+  }
+  console.log();
+}
@@ -1,12 +1,21 @@
 #!/usr/bin/env node
 
 import { config as dotenvConfig } from 'dotenv';
-import { Command } from 'commander';
+import { Command, InvalidArgumentError, Option } from 'commander';
 import chalk from 'chalk';
 import ora from 'ora';
-import { indexDocuments, reindexDocuments } from './indexer';
-import { configure } from './config';
-import { queryRag } from './query';
+import { indexDocuments, previewIndex, reindexDocuments, watchDocuments, DocumentWatcher } from './indexer';
+import { indexBuildOutput, indexSitemap } from './build-output';
+import { configure, describeConfig, getConfig, getConfigFile, loadConfig, DEFAULT_COLLECTION } from './config';
+import { loadLoaderModules } from './config-file';
+import { queryRag, QueryOptions } from './query';
+import { startChat } from './repl';
+import { formatExclusions, formatIndexFailure, formatResults, formatTokenUsage, pluralize, printChunk, printConfig, printEvalComparison, printEvalReport, printFileChunks, printIndexFailures, printIndexPreview, printResults, printStats, trackIndexProgress, OutputFormat, OUTPUT_FORMATS } from './cli-output';
+import { compareEvalReports, evaluateRetrieval, loadEvalQuestions, EvalOptions } from './eval';
+import { VectorStore } from './vectorstore';
+import { listCollections, createCollection, dropCollection } from './collections';
+import { VERSION } from './version';
+import { DocumentLoader, DocumentSource, SourceConfig } from './types';
 import * as path from 'path';
 import * as fs from 'fs';
 
@@ -20,56 +29,188 @@ if (fs.existsSync(envLocalPath)) {
   dotenvConfig({ path: envPath, debug: false, quiet: true });
 }
 
+/**
+ * Collect the values of an option that can be repeated
+ */
+function collect(value: string, previous: string[]): string[] {
+  return [...previous, value];
+}
+
+/**
+ * Loaders from --loader modules, or undefined to keep the configured ones
+ */
+function loadLoaders(modules: string[]): DocumentLoader[] | undefined {
+  return modules.length > 0 ? loadLoaderModules(modules) : undefined;
+}
+
+/**
+ * Parse a size such as 500kb or 10mb into bytes
+ */
+function parseSize(value: string): number {
+  const match = value.trim().toLowerCase().match(/^(\d+(?:\.\d+)?)\s*(b|kb|mb|gb)?$/);
+  if (!match) {
+    throw new InvalidArgumentError('Expected a size such as 500kb or 10mb.');
+  }
+  const units: Record<string, number> = { b: 1, kb: 1024, mb: 1024 ** 2, gb: 1024 ** 3 };
+  return Math.round(Number(match[1]) * units[match[2] || 'b']);
+}
+
+/**
+ * Parse a number between 0 and 1, such as the MMR lambda
+ */
+function parseFraction(value: string): number {
+  const fraction = Number(value);
+  if (!value.trim() || !(fraction >= 0 && fraction <= 1)) {
+    throw new InvalidArgumentError('Expected a number between 0 and 1.');
+  }
+  return fraction;
+}
+
+function splitList(value: string | undefined): string[] | undefined {
+  return value ? value.split(',').map(item => item.trim()) : undefined;
+}
+
+/**
+ * File discovery options shared by `init`, `reindex` and `watch`
+ */
+function addDiscoveryOptions(command: Command): Command {
+  return command
+    .option('-e, --extensions <extensions>', 'Comma-separated file extensions (default: .txt,.md,.mdx,.rst,.json,.js,.ts,.tsx,.jsx,.html,.htm,.pdf,.ipynb,.csv)')
+    .option('--include <globs>', 'Comma-separated globs relative to the directory; only matching files are indexed')
+    .option('-i, --ignore <patterns>', 'Comma-separated gitignore-style patterns (default: node_modules,.git,dist,build,.next,coverage)')
+    .option('--no-gitignore', 'Index files listed in .gitignore (.ragignore is still honored)')
+    .option('--max-file-size <size>', 'Skip files larger than this, e.g. 500kb (default: 10mb)', parseSize)
+    .option('--follow-symlinks', 'Follow symbolic links to files and directories');
+}
+
+/**
+ * Discovery options from the CLI flags, in the form IndexOptions takes them
+ */
+function toDiscoveryOptions(options: Record<string, any>) {
+  return {
+    extensions: splitList(options.extensions),
+    include: splitList(options.include),
+    ignorePatterns: splitList(options.ignore),
+    // --no-gitignore sets false; true is commander's default, not a choice
+    gitignore: options.gitignore === false ? false : undefined,
+    maxFileSize: options.maxFileSize,
+    followSymlinks: options.followSymlinks,
+  };
+}
+
+/**
+ * Directories to index: the directory argument, or the config file's
+ * sources (those of --collection, if given). Flags override the source's
+ * settings.
+ */
+function resolveSources(directory: string | undefined, options: Record<string, any>): SourceConfig[] {
+  const overrides = Object.fromEntries(
+    Object.entries({ ...toDiscoveryOptions(options), collection: options.collection }).filter(([, value]) => value !== undefined)
+  );
+  const sources = (getConfigFile()?.config.sources ?? []).filter(source =>
+    !options.collection || (source.collection ?? DEFAULT_COLLECTION) === options.collection
+  );
+  
+  if (directory) {
+    const resolved = path.resolve(directory);
+    return [{ ...sources.find(source => source.directory === resolved), ...overrides, directory: resolved }];
+  }
+  
+  if (sources.length === 0) {
+    throw new Error(options.collection
+      ? `No sources for collection "${options.collection}" in the config file. Pass a directory to index.`
+      : 'Pass a directory to index, or list sources in rag.config.ts.');
+  }
+  return sources.map(source => ({ ...source, ...overrides }));
+}
+
+/**
+ * Where a source is, for summaries of runs over several sources
+ */
+function describeSource(source: SourceConfig): string {
+  const directory = path.relative(process.cwd(), source.directory) || '.';
+  return source.collection ? `${directory} → ${source.collection}` : directory;
+}
+
 const program = new Command();
 
 program
   .name('nextjs-rag')
   .description('Dead simple RAG for Next.js with SQLite vector storage')
-  .version('1.0.0');
+  .version(VERSION)
+  .option('--config <file>', 'Config file (default: rag.config.ts, .js or .json in the project)')
+  .hook('preAction', () => {
+    loadConfig(program.opts().config);
+  });
 
-program
-  .command('init')
-  .description('Initialize and index documents')
-  .argument('<directory>', 'Directory containing documents to index')
-  .option('-e, --extensions <extensions>', 'Comma-separated file extensions (default: .txt,.md,.mdx,.rst,.json,.js,.ts,.tsx,.jsx)')
-  .option('-i, --ignore <patterns>', 'Comma-separated ignore patterns (default: node_modules,.git,dist,build,.next,coverage)')
-  .option('-m, --model <model>', 'OpenAI embedding model (default: text-embedding-3-small)')
-  .option('-c, --chunk-size <size>', 'Chunk size in characters (default: 1000)', parseInt)
-  .option('-o, --overlap <size>', 'Chunk overlap in characters (default: 200)', parseInt)
+addDiscoveryOptions(
+  program
+    .command('init')
+    .description('Initialize and index documents')
+    .argument('[directory]', 'Directory containing documents to index (default: the sources in the config file)')
+)
+  .option('-p, --provider <provider>', 'Embedding provider: openai, openai-compatible or local (default: openai)')
+  .option('-m, --model <model>', 'Embedding model (default: text-embedding-3-small)')
+  .option('--base-url <url>', 'Base URL for the openai-compatible provider')
+  .option('--dimension <number>', 'Embedding dimension for models not known to nextjs-rag', parseInt)
+  .option('-c, --chunk-size <size>', 'Chunk size in --unit (default: 1000 chars or 300 tokens)', parseInt)
+  .option('-o, --overlap <size>', 'Chunk overlap in --unit (default: 200 chars or 50 tokens)', parseInt)
+  .addOption(new Option('-u, --unit <unit>', 'Unit for chunk size and overlap (default: chars)').choices(['chars', 'tokens']))
   .option('-d, --db-path <path>', 'Database path (default: .rag/sqlite.db)')
+  .option('--collection <name>', 'Collection to index into (default: default)')
+  .option('--loader <module>', 'Module exporting custom document loaders (repeatable)', collect, [])
+  .option('--dry-run', 'List the files that would be indexed with their tokens and estimated cost, without indexing')
   .action(async (directory, options) => {
     const spinner = ora('Initializing RAG system...').start();
     
     try {
       // Configure
       configure({
+        loaders: loadLoaders(options.loader),
+        embeddingProvider: options.provider,
         embeddingModel: options.model,
+        embeddingBaseUrl: options.baseUrl,
+        embeddingDimension: options.dimension,
         chunkSize: options.chunkSize,
         chunkOverlap: options.overlap,
+        chunkUnit: options.unit,
         dbPath: options.dbPath,
       });
       
-      spinner.text = 'Indexing documents...';
-      
-      const extensions = options.extensions 
-        ? options.extensions.split(',').map((ext: string) => ext.trim())
-        : undefined;
-      
-      const ignorePatterns = options.ignore
-        ? options.ignore.split(',').map((pattern: string) => pattern.trim())
-        : undefined;
-      
-      const result = await indexDocuments({
-        directory: path.resolve(directory),
-        extensions,
-        ignorePatterns,
-        verbose: false,
-      });
+      const sources = resolveSources(directory, options);
       
-      spinner.succeed(chalk.green('✓ Indexing complete!'));
-      console.log(chalk.cyan(`  Files processed: ${result.filesProcessed}`));
-      console.log(chalk.cyan(`  Chunks created: ${result.chunksCreated}`));
-      console.log(chalk.gray(`  Database: ${options.dbPath || '.rag/sqlite.db'}`));
+      for (const source of sources) {
+        const label = sources.length > 1 ? ` (${describeSource(source)})` : '';
+        
+        if (options.dryRun) {
+          spinner.start(`Scanning documents${label}...`);
+          const preview = await previewIndex(source);
+          spinner.stop();
+          printIndexPreview(preview);
+          continue;
+        }
+        
+        spinner.start(`Indexing documents${label}...`);
+        
+        const result = await indexDocuments({
+          ...source,
+          verbose: false,
+          onProgress: trackIndexProgress(spinner, `Indexing${label}`),
+        });
+        
+        spinner.succeed(chalk.green(`✓ Indexing complete!${label}`));
+        console.log(chalk.cyan(`  Files processed: ${result.filesProcessed}`));
+        if (result.excluded.length > 0) {
+          console.log(chalk.gray(`  Files excluded: ${formatExclusions(result.excluded)}`));
+        }
+        console.log(chalk.cyan(`  Chunks created: ${result.chunksCreated}`));
+        console.log(chalk.gray(`  Embedded: ${formatTokenUsage(result.tokensEmbedded, result.estimatedCost)}`));
+        if (source.collection) {
+          console.log(chalk.gray(`  Collection: ${source.collection}`));
+        }
+        console.log(chalk.gray(`  Database: ${path.relative(process.cwd(), getConfig().dbPath)}`));
+        printIndexFailures(result.failures);
+      }
     } catch (error) {
       spinner.fail(chalk.red('✗ Indexing failed'));
       console.error(chalk.red((error as Error).message));
@@ -77,95 +218,675 @@ program
     }
   });
 
-program
-  .command('reindex')
-  .description('Re-index changed documents')
-  .argument('<directory>', 'Directory containing documents to index')
-  .option('-e, --extensions <extensions>', 'Comma-separated file extensions')
-  .option('-i, --ignore <patterns>', 'Comma-separated ignore patterns')
-  .option('-m, --model <model>', 'OpenAI embedding model')
-  .option('-c, --chunk-size <size>', 'Chunk size in characters', parseInt)
-  .option('-o, --overlap <size>', 'Chunk overlap in characters', parseInt)
+addDiscoveryOptions(
+  program
+    .command('reindex')
+    .description('Re-index changed documents')
+    .argument('[directory]', 'Directory containing documents to index (default: the sources in the config file)')
+)
+  .option('-p, --provider <provider>', 'Embedding provider: openai, openai-compatible or local')
+  .option('-m, --model <model>', 'Embedding model')
+  .option('--base-url <url>', 'Base URL for the openai-compatible provider')
+  .option('--dimension <number>', 'Embedding dimension for models not known to nextjs-rag', parseInt)
+  .option('-c, --chunk-size <size>', 'Chunk size in --unit', parseInt)
+  .option('-o, --overlap <size>', 'Chunk overlap in --unit', parseInt)
+  .addOption(new Option('-u, --unit <unit>', 'Unit for chunk size and overlap').choices(['chars', 'tokens']))
   .option('-d, --db-path <path>', 'Database path (default: .rag/sqlite.db)')
+  .option('--collection <name>', 'Collection to index into (default: default)')
+  .option('--loader <module>', 'Module exporting custom document loaders (repeatable)', collect, [])
   .action(async (directory, options) => {
     const spinner = ora('Re-indexing documents...').start();
     
     try {
       // Configure
       configure({
+        loaders: loadLoaders(options.loader),
+        embeddingProvider: options.provider,
         embeddingModel: options.model,
+        embeddingBaseUrl: options.baseUrl,
+        embeddingDimension: options.dimension,
         chunkSize: options.chunkSize,
         chunkOverlap: options.overlap,
+        chunkUnit: options.unit,
         dbPath: options.dbPath,
       });
       
-      const extensions = options.extensions 
-        ? options.extensions.split(',').map((ext: string) => ext.trim())
-        : undefined;
-      
-      const ignorePatterns = options.ignore
-        ? options.ignore.split(',').map((pattern: string) => pattern.trim())
-        : undefined;
+      const sources = resolveSources(directory, options);
       
-      const result = await reindexDocuments({
-        directory: path.resolve(directory),
-        extensions,
-        ignorePatterns,
-        verbose: false,
+      for (const source of sources) {
+        const label = sources.length > 1 ? ` (${describeSource(source)})` : '';
+        spinner.start(`Re-indexing documents${label}...`);
+        
+        const result = await reindexDocuments({
+          ...source,
+          verbose: false,
+          onProgress: trackIndexProgress(spinner, `Re-indexing${label}`),
+        });
+        
+        spinner.succeed(chalk.green(`✓ Re-indexing complete!${label}`));
+        console.log(chalk.cyan(`  Files processed: ${result.filesProcessed}`));
+        console.log(chalk.cyan(`  Files added: ${result.filesAdded}`));
+        console.log(chalk.cyan(`  Files changed: ${result.filesChanged}`));
+        console.log(chalk.cyan(`  Files removed: ${result.filesRemoved}`));
+        console.log(chalk.gray(`  Files skipped (unchanged): ${result.filesSkipped}`));
+        if (result.excluded.length > 0) {
+          console.log(chalk.gray(`  Files excluded: ${formatExclusions(result.excluded)}`));
+        }
+        console.log(chalk.cyan(`  Chunks created: ${result.chunksCreated}`));
+        console.log(chalk.gray(`  Embeddings reused: ${result.embeddingsReused}`));
+        console.log(chalk.gray(`  Embedded: ${formatTokenUsage(result.tokensEmbedded, result.estimatedCost)}`));
+        printIndexFailures(result.failures);
+      }
+    } catch (error) {
+      spinner.fail(chalk.red('✗ Re-indexing failed'));
+      console.error(chalk.red((error as Error).message));
+      process.exit(1);
+    }
+  });
+
+addDiscoveryOptions(
+  program
+    .command('watch')
+    .description('Watch documents and re-index them as they change')
+    .argument('[directory]', 'Directory containing documents to index (default: the sources in the config file)')
+)
+  .option('-p, --provider <provider>', 'Embedding provider: openai, openai-compatible or local')
+  .option('-m, --model <model>', 'Embedding model')
+  .option('--base-url <url>', 'Base URL for the openai-compatible provider')
+  .option('--dimension <number>', 'Embedding dimension for models not known to nextjs-rag', parseInt)
+  .option('-c, --chunk-size <size>', 'Chunk size in --unit', parseInt)
+  .option('-o, --overlap <size>', 'Chunk overlap in --unit', parseInt)
+  .addOption(new Option('-u, --unit <unit>', 'Unit for chunk size and overlap').choices(['chars', 'tokens']))
+  .option('-d, --db-path <path>', 'Database path (default: .rag/sqlite.db)')
+  .option('--collection <name>', 'Collection to index into (default: default)')
+  .option('--loader <module>', 'Module exporting custom document loaders (repeatable)', collect, [])
+  .option('--debounce <ms>', 'Milliseconds to wait after the last change before re-indexing (default: 300)', parseInt)
+  .action(async (directory, options) => {
+    const spinner = ora('Re-indexing documents...').start();
+    
+    try {
+      configure({
+        loaders: loadLoaders(options.loader),
+        embeddingProvider: options.provider,
+        embeddingModel: options.model,
+        embeddingBaseUrl: options.baseUrl,
+        embeddingDimension: options.dimension,
+        chunkSize: options.chunkSize,
+        chunkOverlap: options.overlap,
+        chunkUnit: options.unit,
+        dbPath: options.dbPath,
       });
       
-      spinner.succeed(chalk.green('✓ Re-indexing complete!'));
-      console.log(chalk.cyan(`  Files processed: ${result.filesProcessed}`));
-      console.log(chalk.cyan(`  Files updated: ${result.filesUpdated}`));
-      console.log(chalk.cyan(`  Chunks created: ${result.chunksCreated}`));
+      const sources = resolveSources(directory, options);
+      const watchers: DocumentWatcher[] = [];
+      
+      for (const source of sources) {
+        const label = sources.length > 1 ? ` (${describeSource(source)})` : '';
+        spinner.start(`Re-indexing documents${label}...`);
+        
+        const watcher = await watchDocuments({
+          ...source,
+          debounceMs: options.debounce,
+          onUpdate: update => {
+            for (const file of update.filesIndexed) {
+              console.log(chalk.cyan(`  ↻ ${file}`));
+            }
+            for (const file of update.filesRemoved) {
+              console.log(chalk.gray(`  ✕ ${file}`));
+            }
+            for (const failure of update.failures) {
+              console.log(chalk.yellow(`  ! ${formatIndexFailure(failure)}`));
+            }
+            console.log(chalk.gray(`    ${pluralize(update.chunksCreated, 'chunk')} created, ${pluralize(update.embeddingsReused, 'embedding')} reused`));
+          },
+          onError: error => {
+            console.error(chalk.red(`  ✗ ${error.message}`));
+          },
+        });
+        watchers.push(watcher);
+        
+        const { initial } = watcher;
+        spinner.succeed(chalk.green(`✓ Index up to date${label} (${pluralize(initial.filesUpdated, 'file')} updated, ${initial.filesSkipped} unchanged)`));
+      }
+      
+      console.log(chalk.gray(`  Watching ${sources.map(describeSource).join(', ')} for changes. Press Ctrl+C to stop.`));
+      
+      const stop = async () => {
+        await Promise.all(watchers.map(watcher => watcher.close()));
+        process.exit(0);
+      };
+      process.once('SIGINT', stop);
+      process.once('SIGTERM', stop);
     } catch (error) {
-      spinner.fail(chalk.red('✗ Re-indexing failed'));
+      spinner.fail(chalk.red('✗ Watching failed'));
       console.error(chalk.red((error as Error).message));
       process.exit(1);
     }
   });
 
 program
-  .command('query')
-  .description('Query the RAG system')
-  .argument('<question>', 'Question to ask')
-  .option('-k, --top-k <number>', 'Number of results to return (default: 5)', parseInt)
+  .command('build-index')
+  .description('Index the rendered pages of a Next.js build, or of a running server, by route')
+  .argument('[directory]', 'Project directory containing the build output (default: current directory)')
+  .option('--output <dir>', 'Build output to read: .next or a static export such as out (default: .next, else out)')
+  .option('--crawl <url>', 'Crawl the pages in the sitemap of a running server instead, e.g. http://localhost:3000 or its sitemap URL')
+  .option('--site-url <url>', 'Origin for page URLs in citations, e.g. https://example.com')
+  .option('--exclude <globs>', 'Comma-separated routes to leave out, e.g. /admin/**')
+  .option('-p, --provider <provider>', 'Embedding provider: openai, openai-compatible or local')
+  .option('-m, --model <model>', 'Embedding model')
+  .option('--base-url <url>', 'Base URL for the openai-compatible provider')
+  .option('--dimension <number>', 'Embedding dimension for models not known to nextjs-rag', parseInt)
   .option('-d, --db-path <path>', 'Database path (default: .rag/sqlite.db)')
-  .action(async (question, options) => {
-    const spinner = ora('Searching...').start();
+  .option('--collection <name>', 'Collection to index into (default: default)')
+  .action(async (directory, options) => {
+    const spinner = ora('Indexing pages...').start();
     
     try {
       configure({
+        embeddingProvider: options.provider,
+        embeddingModel: options.model,
+        embeddingBaseUrl: options.baseUrl,
+        embeddingDimension: options.dimension,
         dbPath: options.dbPath,
-        topK: options.topK,
       });
       
-      const result = await queryRag(question, {
-        topK: options.topK,
-        dbPath: options.dbPath,
+      const exclude = options.exclude
+        ? options.exclude.split(',').map((pattern: string) => pattern.trim())
+        : undefined;
+      
+      const common = {
+        siteUrl: options.siteUrl,
+        exclude,
+        collection: options.collection,
+        verbose: false,
+      };
+      
+      const result = options.crawl
+        ? await indexSitemap({
+          ...common,
+          url: options.crawl,
+          sitemap: /\.xml$/i.test(new URL(options.crawl).pathname) ? options.crawl : undefined,
+        })
+        : await indexBuildOutput({
+          ...common,
+          directory: directory ? path.resolve(directory) : undefined,
+          outputDir: options.output,
+        });
+      
+      spinner.succeed(chalk.green('✓ Pages indexed!'));
+      console.log(chalk.cyan(`  Pages found: ${result.pagesFound}`));
+      console.log(chalk.cyan(`  Pages indexed: ${result.pagesIndexed}`));
+      console.log(chalk.gray(`  Pages unchanged: ${result.pagesUnchanged}`));
+      console.log(chalk.cyan(`  Pages removed: ${result.pagesRemoved}`));
+      console.log(chalk.cyan(`  Chunks created: ${result.chunksCreated}`));
+      console.log(chalk.gray(`  Embeddings reused: ${result.embeddingsReused}`));
+      printIndexFailures(result.failures);
+    } catch (error) {
+      spinner.fail(chalk.red('✗ Indexing pages failed'));
+      console.error(chalk.red((error as Error).message));
+      process.exit(1);
+    }
+  });
+
+/**
+ * Query options shared by `query` and `chat`
+ */
+function addQueryOptions(command: Command): Command {
+  return command
+    .option('-k, --top-k <number>', 'Number of results to return (default: 5)', parseInt)
+    .option('-p, --provider <provider>', 'Embedding provider (default: the one the index was built with)')
+    .option('-m, --model <model>', 'Embedding model (default: the one the index was built with)')
+    .option('--base-url <url>', 'Base URL for the openai-compatible provider')
+    .option('--dimension <number>', 'Embedding dimension for models not known to nextjs-rag', parseInt)
+    .option('-d, --db-path <path>', 'Database path (default: .rag/sqlite.db)')
+    .addOption(new Option('--mode <mode>', 'Search mode (default: vector)').choices(['vector', 'keyword', 'hybrid']))
+    .option('-w, --hybrid-weight <weight>', 'Weight of the vector ranking in hybrid mode, 0-1 (default: 0.5)', parseFloat)
+    .option('--path-prefix <prefix>', 'Only search files whose path starts with this prefix')
+    .option('--glob <patterns>', 'Only search files matching these comma-separated globs (e.g. docs/api/**)')
+    .option('--tags <tags>', 'Only search chunks with at least one of these comma-separated tags')
+    .option('--date-from <date>', 'Only search chunks dated on or after this date')
+    .option('--date-to <date>', 'Only search chunks dated on or before this date')
+    .option('--collection <names>', 'Comma-separated collections to search (default: default)')
+    .option('--rerank', 'Rerank candidates with the built-in heuristic reranker')
+    .option('--mmr [lambda]', 'Diversify results with MMR; lambda trades relevance (1) for diversity (0) (default: 0.5)', parseFraction)
+    .option('--max-per-file <number>', 'Max results from the same file', parseInt)
+    .option('--max-tokens <number>', 'Token budget for the merged context', parseInt)
+    .option('--neighbors <number>', 'Include this many chunks before and after each hit', parseInt)
+    .option('--no-merge', "Don't merge adjacent hits from the same file");
+}
+
+/**
+ * Configure from the shared query options and turn them into QueryOptions
+ */
+function toQueryOptions(options: Record<string, any>): QueryOptions {
+  configure({
+    embeddingProvider: options.provider,
+    embeddingModel: options.model,
+    embeddingBaseUrl: options.baseUrl,
+    embeddingDimension: options.dimension,
+    dbPath: options.dbPath,
+    topK: options.topK,
+    chatModel: options.chatModel,
+  });
+  
+  return {
+    topK: options.topK,
+    dbPath: options.dbPath,
+    mode: options.mode,
+    hybridWeight: options.hybridWeight,
+    collection: options.collection
+      ? options.collection.split(',').map((name: string) => name.trim())
+      : undefined,
+    reranker: options.rerank ? 'heuristic' : undefined,
+    mmr: typeof options.mmr === 'number' ? { lambda: options.mmr } : options.mmr,
+    maxPerFile: options.maxPerFile,
+    maxContextTokens: options.maxTokens,
+    expandNeighbors: options.neighbors,
+    mergeAdjacent: options.merge,
+    filter: {
+      pathPrefix: options.pathPrefix,
+      pathGlob: options.glob
+        ? options.glob.split(',').map((pattern: string) => pattern.trim())
+        : undefined,
+      tags: options.tags
+        ? options.tags.split(',').map((tag: string) => tag.trim())
+        : undefined,
+      dateFrom: options.dateFrom,
+      dateTo: options.dateTo,
+    },
+  };
+}
+
+addQueryOptions(
+  program
+    .command('query')
+    .description('Query the RAG system')
+    .argument('<question>', 'Question to ask')
+)
+  .option('--full', 'Show the whole text of each result instead of the first 200 characters')
+  .addOption(new Option('-f, --format <format>', 'Output format; json and jsonl always include the full text (default: text)').choices(OUTPUT_FORMATS))
+  .action(async (question, options) => {
+    const format: OutputFormat = options.format || 'text';
+    // Keep stdout clean for machine-readable output
+    const spinner = ora({ text: 'Searching...', isSilent: format !== 'text' }).start();
+    
+    try {
+      const result = await queryRag(question, toQueryOptions(options));
+      
+      spinner.stop();
+      
+      const printOptions = {
+        full: options.full,
+        // Vector search ranks by similarity, so the score adds nothing there
+        showScore: (options.mode || getConfig().searchMode) !== 'vector',
+        showCollection: !!options.collection,
+        // Show the assembled context when it differs from the plain results
+        showContext: !!(options.neighbors || options.maxTokens),
+      };
+      
+      if (format === 'text') {
+        printResults(result, printOptions);
+      } else {
+        console.log(formatResults(question, result, format, printOptions));
+      }
+    } catch (error) {
+      spinner.fail(chalk.red('✗ Query failed'));
+      console.error(chalk.red((error as Error).message));
+      process.exit(1);
+    }
+  });
+
+addQueryOptions(
+  program
+    .command('chat')
+    .description('Search the index interactively, changing the query options as you go')
+)
+  .option('--full', 'Show the whole text of each result instead of the first 200 characters')
+  .option('--answer', 'Generate answers with the chat model (needs OPENAI_API_KEY)')
+  .option('--chat-model <model>', 'Chat model for --answer (default: gpt-4o-mini)')
+  .action(async options => {
+    try {
+      await startChat({
+        query: toQueryOptions(options),
+        answer: options.answer,
+        full: options.full,
+      });
+    } catch (error) {
+      console.error(chalk.red((error as Error).message));
+      process.exit(1);
+    }
+  });
+
+/**
+ * Parse query option overrides given as JSON or as the path of a JSON file
+ */
+function readOverrides(value: string): QueryOptions {
+  const json = fs.existsSync(value) ? fs.readFileSync(value, 'utf-8') : value;
+  try {
+    return JSON.parse(json);
+  } catch (error) {
+    throw new Error(`--compare must be JSON or a JSON file: ${(error as Error).message}`);
+  }
+}
+
+addQueryOptions(
+  program
+    .command('eval')
+    .description('Measure retrieval quality against golden questions: recall@k, MRR and nDCG')
+    .argument('<questions>', 'JSONL file with one {"question", "files" and/or "passages"} per line')
+)
+  .option('--label <name>', 'Name of the run in reports (default: baseline)')
+  .option('--compare-db <path>', 'Also run against this database and compare, e.g. one built with other chunk settings')
+  .option('--compare <json>', 'Also run with these query option overrides and compare, as JSON or a JSON file, e.g. {"mode":"hybrid"}')
+  .option('--compare-label <name>', 'Name of the compared run (default: candidate)')
+  .option('--output <file>', 'Write the JSON report to this file')
+  .addOption(new Option('-f, --format <format>', 'Output format (default: text)').choices(['text', 'json']))
+  .action(async (questionsFile, options) => {
+    const spinner = ora({ text: 'Evaluating...', isSilent: options.format === 'json' }).start();
+    
+    try {
+      const questions = loadEvalQuestions(questionsFile);
+      const baseline: EvalOptions = { ...toQueryOptions(options), label: options.label };
+      const comparing = !!(options.compareDb || options.compare);
+      
+      for (const dbPath of [baseline.dbPath || getConfig().dbPath, options.compareDb].filter(Boolean)) {
+        if (!fs.existsSync(dbPath)) {
+          throw new Error(`No index at ${dbPath}. Run init to index documents.`);
+        }
+      }
+      
+      const run = (runOptions: EvalOptions, name: string) => evaluateRetrieval(questions, {
+        ...runOptions,
+        onQuestion: (result, idx) => {
+          spinner.text = `Evaluating ${name}... ${idx + 1}/${questions.length}`;
+        },
       });
       
+      const baselineReport = await run(comparing ? { ...baseline, label: baseline.label || 'baseline' } : baseline, 'baseline');
+      const report = comparing
+        ? compareEvalReports(baselineReport, await run({
+          ...baseline,
+          dbPath: options.compareDb || baseline.dbPath,
+          ...(options.compare ? readOverrides(options.compare) : {}),
+          label: options.compareLabel || 'candidate',
+        }, 'candidate'))
+        : baselineReport;
+      
       spinner.stop();
       
-      console.log(chalk.bold('\n🔍 Results:\n'));
+      if (options.output) {
+        fs.writeFileSync(options.output, `${JSON.stringify(report, null, 2)}\n`);
+      }
+      
+      if (options.format === 'json') {
+        console.log(JSON.stringify(report, null, 2));
+      } else {
+        if ('delta' in report) {
+          printEvalComparison(report);
+        } else {
+          printEvalReport(report);
+        }
+        if (options.output) {
+          console.log(chalk.gray(`Report written to ${options.output}`));
+        }
+      }
+    } catch (error) {
+      spinner.fail(chalk.red('✗ Evaluation failed'));
+      console.error(chalk.red((error as Error).message));
+      process.exit(1);
+    }
+  });
+
+/**
+ * Open an existing index for reading, without creating a database or
+ * collection that isn't there
+ */
+function openIndex(options: { dbPath?: string; collection?: string }): VectorStore {
+  configure({ dbPath: options.dbPath });
+  
+  const dbPath = getConfig().dbPath;
+  if (!fs.existsSync(dbPath)) {
+    throw new Error(`No index at ${dbPath}. Run init to index documents.`);
+  }
+  
+  const vectorStore = new VectorStore(dbPath, undefined, options.collection || DEFAULT_COLLECTION);
+  if (options.collection && !vectorStore.getCollection()) {
+    vectorStore.close();
+    throw new Error(`Collection "${options.collection}" does not exist in ${dbPath}`);
+  }
+  
+  return vectorStore;
+}
+
+/**
+ * Find an indexed file by its path as stored, a path relative to the
+ * working directory, or the end of its path
+ */
+function resolveIndexedFile(vectorStore: VectorStore, input: string): string {
+  const files: string[] = [];
+  for (const source of ['file', 'api', 'build'] as DocumentSource[]) {
+    files.push(...vectorStore.getAllFiles(source));
+  }
+  
+  const relative = path.relative(process.cwd(), path.resolve(input)).replace(/\\/g, '/');
+  const exact = files.find(file => file === input || file === relative);
+  if (exact) {
+    return exact;
+  }
+  
+  const matches = files.filter(file => file.endsWith(`/${input.replace(/^\.?\//, '')}`));
+  if (matches.length === 1) {
+    return matches[0];
+  }
+  
+  throw new Error(matches.length > 1
+    ? `${input} matches several indexed files: ${matches.join(', ')}`
+    : `${input} is not in the index`);
+}
+
+program
+  .command('stats')
+  .description('Show what the index holds: files, chunks, sizes, the embedding model and chunk lengths')
+  .option('-d, --db-path <path>', 'Database path (default: .rag/sqlite.db)')
+  .option('--collection <name>', 'Collection to describe (default: default)')
+  .option('-n, --largest <number>', 'Number of largest files to list (default: 10)', parseInt)
+  .addOption(new Option('-f, --format <format>', 'Output format (default: text)').choices(['text', 'json']))
+  .action(options => {
+    try {
+      const vectorStore = openIndex(options);
+      const stats = vectorStore.getStats(options.largest);
+      vectorStore.close();
+      
+      if (options.format === 'json') {
+        console.log(JSON.stringify(stats, null, 2));
+      } else {
+        printStats(stats);
+      }
+    } catch (error) {
+      console.error(chalk.red((error as Error).message));
+      process.exit(1);
+    }
+  });
+
+program
+  .command('inspect')
+  .description("List an indexed file's chunks with their hashes and positions")
+  .argument('<file>', 'Indexed file path or document ID')
+  .option('-d, --db-path <path>', 'Database path (default: .rag/sqlite.db)')
+  .option('--collection <name>', 'Collection the file is in (default: default)')
+  .option('--full', 'Show the whole text of each chunk instead of the first 200 characters')
+  .addOption(new Option('-f, --format <format>', 'Output format (default: text)').choices(['text', 'json']))
+  .action((file, options) => {
+    try {
+      const vectorStore = openIndex(options);
+      const filePath = resolveIndexedFile(vectorStore, file);
+      const record = vectorStore.getFileRecord(filePath);
+      const chunks = vectorStore.getFileChunks(filePath);
+      vectorStore.close();
+      
+      if (options.format === 'json') {
+        console.log(JSON.stringify({ filePath, record, chunks }, null, 2));
+      } else {
+        printFileChunks(filePath, record, chunks, { full: options.full });
+      }
+    } catch (error) {
+      console.error(chalk.red((error as Error).message));
+      process.exit(1);
+    }
+  });
+
+program
+  .command('similar')
+  .description('Show the nearest neighbors of a chunk, or of a whole file')
+  .argument('<target>', 'Chunk ID (see inspect) or indexed file path')
+  .option('-k, --top-k <number>', 'Number of neighbors to show (default: 5)', parseInt)
+  .option('-d, --db-path <path>', 'Database path (default: .rag/sqlite.db)')
+  .option('--collection <name>', 'Collection to search (default: default)')
+  .option('--full', 'Show the whole text of each result instead of the first 200 characters')
+  .addOption(new Option('-f, --format <format>', 'Output format (default: text)').choices(['text', 'json']))
+  .action((target, options) => {
+    try {
+      const vectorStore = openIndex(options);
+      // A file named like a number wins over the chunk with that ID
+      const byId = /^\d+$/.test(target) && !vectorStore.getFileRecord(target);
+      const results = vectorStore.findSimilar(byId ? Number(target) : resolveIndexedFile(vectorStore, target), options.topK);
+      vectorStore.close();
+      
+      if (options.format === 'json') {
+        console.log(JSON.stringify(results, null, 2));
+        return;
+      }
       
-      result.context.forEach((chunk, idx) => {
-        console.log(chalk.cyan(`[${idx + 1}] ${chunk.filePath}`));
-        console.log(chalk.gray(`    Similarity: ${(chunk.similarity * 100).toFixed(2)}%`));
-        console.log(chalk.white(`    ${chunk.content.slice(0, 200)}...`));
-        console.log();
+      console.log(chalk.bold(`\n🧭 Nearest to ${byId ? `chunk ${target}` : target}:\n`));
+      results.forEach((chunk, idx) => printChunk(chunk, idx + 1, { full: options.full }));
+    } catch (error) {
+      console.error(chalk.red((error as Error).message));
+      process.exit(1);
+    }
+  });
+
+const collections = program
+  .command('collections')
+  .description('Manage collections of documents in the index');
+
+collections
+  .command('list')
+  .description('List collections')
+  .option('-d, --db-path <path>', 'Database path (default: .rag/sqlite.db)')
+  .action(options => {
+    try {
+      configure({ dbPath: options.dbPath });
+      
+      const result = listCollections(options.dbPath);
+      
+      if (result.length === 0) {
+        console.log(chalk.gray('No collections yet. Run init to index documents.'));
+        return;
+      }
+      
+      for (const collection of result) {
+        const model = collection.index
+          ? `${collection.index.embeddingProvider}/${collection.index.embeddingModel}`
+          : 'unknown model';
+        console.log(chalk.cyan(collection.name));
+        console.log(chalk.gray(`  Model: ${model} (${collection.dimension} dimensions)`));
+        if (collection.index) {
+          console.log(chalk.gray(`  Chunks: ${collection.index.chunkSize} ${collection.index.chunkUnit}, ${collection.index.chunkOverlap} overlap, ${collection.index.chunkStrategy} strategy`));
+        }
+        console.log(chalk.gray(`  Files: ${collection.fileCount}, chunks: ${collection.chunkCount}`));
+      }
+    } catch (error) {
+      console.error(chalk.red((error as Error).message));
+      process.exit(1);
+    }
+  });
+
+collections
+  .command('create')
+  .description('Create an empty collection with its own embedding and chunk settings')
+  .argument('<name>', 'Collection name')
+  .option('-p, --provider <provider>', 'Embedding provider: openai, openai-compatible or local (default: openai)')
+  .option('-m, --model <model>', 'Embedding model (default: text-embedding-3-small)')
+  .option('--base-url <url>', 'Base URL for the openai-compatible provider')
+  .option('--dimension <number>', 'Embedding dimension for models not known to nextjs-rag', parseInt)
+  .option('-c, --chunk-size <size>', 'Chunk size in --unit (default: 1000 chars or 300 tokens)', parseInt)
+  .option('-o, --overlap <size>', 'Chunk overlap in --unit (default: 200 chars or 50 tokens)', parseInt)
+  .addOption(new Option('-u, --unit <unit>', 'Unit for chunk size and overlap (default: chars)').choices(['chars', 'tokens']))
+  .option('-d, --db-path <path>', 'Database path (default: .rag/sqlite.db)')
+  .action((name, options) => {
+    try {
+      configure({
+        embeddingProvider: options.provider,
+        embeddingModel: options.model,
+        embeddingBaseUrl: options.baseUrl,
+        embeddingDimension: options.dimension,
+        chunkSize: options.chunkSize,
+        chunkOverlap: options.overlap,
+        chunkUnit: options.unit,
+        dbPath: options.dbPath,
       });
       
-      console.log(chalk.bold('📚 Citations:'));
-      result.citations.forEach(citation => {
-        console.log(chalk.gray(`  • ${citation}`));
+      const collection = createCollection(name);
+      
+      console.log(chalk.green(`✓ Created collection ${collection.name}`));
+      console.log(chalk.gray(`  Model: ${collection.index!.embeddingProvider}/${collection.index!.embeddingModel}`));
+      console.log(chalk.gray(`  Index documents into it with: nextjs-rag init <directory> --collection ${collection.name}`));
+    } catch (error) {
+      console.error(chalk.red((error as Error).message));
+      process.exit(1);
+    }
+  });
+
+collections
+  .command('drop')
+  .description('Delete a collection and everything indexed into it')
+  .argument('<name>', 'Collection name')
+  .option('-d, --db-path <path>', 'Database path (default: .rag/sqlite.db)')
+  .action((name, options) => {
+    try {
+      configure({ dbPath: options.dbPath });
+      
+      dropCollection(name, options.dbPath);
+      
+      console.log(chalk.green(`✓ Dropped collection ${name}`));
+    } catch (error) {
+      console.error(chalk.red((error as Error).message));
+      process.exit(1);
+    }
+  });
+
+program
+  .command('config')
+  .description('Show the resolved config: every setting, its value and where it comes from (flag, env, file or default)')
+  .option('-p, --provider <provider>', 'Embedding provider: openai, openai-compatible or local')
+  .option('-m, --model <model>', 'Embedding model')
+  .option('-d, --db-path <path>', 'Database path')
+  .option('--collection <name>', "Show the settings of a collection, with its own settings from the config file")
+  .addOption(new Option('-f, --format <format>', 'Output format (default: text)').choices(['text', 'json']))
+  .action(options => {
+    try {
+      configure({
+        embeddingProvider: options.provider,
+        embeddingModel: options.model,
+        dbPath: options.dbPath,
       });
+      
+      const description = describeConfig(options.collection);
+      
+      if (options.format === 'json') {
+        console.log(JSON.stringify(description, null, 2));
+      } else {
+        printConfig(description);
+      }
     } catch (error) {
-      spinner.fail(chalk.red('✗ Query failed'));
       console.error(chalk.red((error as Error).message));
       process.exit(1);
     }
   });
 
-program.parse();
+program.parseAsync().catch(error => {
+  // Errors outside the actions, e.g. an invalid config file
+  console.error(chalk.red((error as Error).message));
+  process.exit(1);
+});
 
@@ -0,0 +1,179 @@
+import { describe, expect, it } from 'vitest';
+import { chunkCode, CodeChunkMetadata } from './code-chunker';
+
+const OPTIONS = { chunkSize: 1000, chunkOverlap: 100 };
+
+function symbols(source: string, jsx = true): Array<[string | undefined, string, number, number]> {
+  return chunkCode(source, { ...OPTIONS, jsx }).map(chunk => {
+    const metadata = chunk.metadata as CodeChunkMetadata;
+    return [metadata.symbol, metadata.kind, metadata.startLine, metadata.endLine];
+  });
+}
+
+describe('chunkCode', () => {
+  it('splits top-level declarations and keeps JSDoc attached', () => {
+    const source = [
+      "import { db } from './db';",
+      "import { cache } from './cache';",
+      '',
+      '/** Load a user */',
+      'export async function getUser(id: string) {',
+      '  return db.user(id);',
+      '}',
+      '',
+      'export class UserStore {',
+      '  get(id: string) {',
+      '    return cache.get(id);',
+      '  }',
+      '}',
+    ].join('\n');
+
+    expect(symbols(source, false)).toEqual([
+      [undefined, 'imports', 1, 2],
+      ['getUser', 'function', 4, 7],
+      ['UserStore', 'class', 9, 13],
+    ]);
+  });
+
+  it('handles closing tags on the same line as their opening tag', () => {
+    const source = [
+      'export function List({ items }) {',
+      '  return (',
+      '    <ul>',
+      '      {items.map(item => <li key={item}>{item}</li>)}',
+      '    </ul>',
+      '  );',
+      '}',
+      '',
+      'export function Footer() {',
+      '  return <footer>© 2024</footer>;',
+      '}',
+      '',
+      'export async function getData() {',
+      "  return fetch('/api/data');",
+      '}',
+    ].join('\n');
+
+    expect(symbols(source)).toEqual([
+      ['List', 'component', 1, 7],
+      ['Footer', 'component', 9, 11],
+      ['getData', 'function', 13, 15],
+    ]);
+  });
+
+  it('treats apostrophes and slashes in JSX text as text', () => {
+    const source = [
+      'export function Notice() {',
+      '  return (',
+      '    <p>',
+      "      Don't refresh // it's fine, really / promise",
+      '    </p>',
+      '  );',
+      '}',
+      '',
+      'export function Empty() {',
+      '  return <></>;',
+      '}',
+    ].join('\n');
+
+    expect(symbols(source)).toEqual([
+      ['Notice', 'component', 1, 7],
+      ['Empty', 'component', 9, 11],
+    ]);
+  });
+
+  it('handles self-closing tags, attributes and expressions spanning lines', () => {
+    const source = [
+      'export const Form = () => (',
+      '  <form',
+      "    className='a > b'",
+      '    onSubmit={event => {',
+      '      event.preventDefault();',
+      '    }}',
+      '  >',
+      '    <input name="q" />',
+      '  </form>',
+      ');',
+      '',
+      'export const limit = 10;',
+    ].join('\n');
+
+    expect(symbols(source)).toEqual([
+      ['Form', 'component', 1, 10],
+      ['limit', 'variable', 12, 12],
+    ]);
+  });
+
+  it('tracks nested template expressions', () => {
+    const source = [
+      'export function label(count: number) {',
+      "  return `${count} ${count === 1 ? 'item' : `items ${'}'}`}`;",
+      '}',
+      '',
+      'export function style() {',
+      '  return `',
+      '    color: ${"red"};',
+      '  `;',
+      '}',
+    ].join('\n');
+
+    expect(symbols(source, false)).toEqual([
+      ['label', 'function', 1, 3],
+      ['style', 'function', 5, 9],
+    ]);
+  });
+
+  it('is not confused by regex literals or generic arrow functions', () => {
+    const source = [
+      'export function slug(text: string) {',
+      "  return text.replace(/[^a-z0-9{(]+/g, '-');",
+      '}',
+      '',
+      'export const identity = <T,>(value: T) => value;',
+      '',
+      'export function last() {}',
+    ].join('\n');
+
+    expect(symbols(source)).toEqual([
+      ['slug', 'function', 1, 3],
+      ['identity', 'function', 5, 5],
+      ['last', 'function', 7, 7],
+    ]);
+  });
+
+  it('labels capitalized functions as components only when they render JSX', () => {
+    const source = [
+      'export function Page() {',
+      '  return <main />;',
+      '}',
+      '',
+      'export function CreateUser(input: Input) {',
+      '  return db.insert(input);',
+      '}',
+      '',
+      'export const Layout = ({ children }) => {',
+      '  return children;',
+      '};',
+    ].join('\n');
+
+    expect(symbols(source)).toEqual([
+      ['Page', 'component', 1, 3],
+      ['CreateUser', 'function', 5, 7],
+      ['Layout', 'function', 9, 11],
+    ]);
+  });
+
+  it('packs small declarations together and windows very large ones', () => {
+    const small = ['type A = string;', 'type B = number;', 'export const c = 1;'].join('\n');
+    const [packed] = chunkCode(small, OPTIONS);
+
+    expect((packed.metadata as CodeChunkMetadata).symbols).toEqual(['A', 'B', 'c']);
+
+    const body = Array.from({ length: 200 }, (_, idx) => `  const value${idx} = ${idx};`);
+    const large = ['export function big() {', ...body, '}'].join('\n');
+    const windows = chunkCode(large, { chunkSize: 300, chunkOverlap: 50 });
+
+    expect(windows.length).toBeGreaterThan(1);
+    expect(windows.map(chunk => (chunk.metadata as CodeChunkMetadata).part)).toEqual(windows.map((_, idx) => idx + 1));
+  });
+});
@@ -0,0 +1,528 @@
+import { ChunkOptions, TextChunk } from './chunker';
+import { TextSizer, getTextSizer } from './tokenizer';
+
+/** Declarations up to this many times chunkSize are kept whole */
+const MAX_DECLARATION_FACTOR = 3;
+
+export type CodeSymbolKind =
+  | 'imports'
+  | 'function'
+  | 'component'
+  | 'class'
+  | 'variable'
+  | 'interface'
+  | 'type'
+  | 'enum'
+  | 'namespace'
+  | 'default-export'
+  | 'statement';
+
+export interface CodeChunkMetadata {
+  /** Name of the declared symbol, if any */
+  symbol?: string;
+  /** All symbols when several small declarations share a chunk */
+  symbols?: string[];
+  kind: CodeSymbolKind | 'mixed';
+  /** 1-based, inclusive */
+  startLine: number;
+  /** 1-based, inclusive */
+  endLine: number;
+  /** Set when a very large declaration is split into line windows */
+  part?: number;
+}
+
+interface Unit {
+  kind: CodeSymbolKind;
+  symbol?: string;
+  startLine: number;
+  endLine: number;
+  lines: string[];
+}
+
+/**
+ * Splits TypeScript/JavaScript source on top-level declarations (functions,
+ * classes, exported consts, React components), keeping each declaration's
+ * JSDoc attached. Small neighbouring declarations share a chunk and very
+ * large ones fall back to line windows.
+ */
+export function chunkCode(
+  text: string,
+  options: ChunkOptions & { jsx?: boolean }
+): TextChunk[] {
+  text = text.replace(/\r\n/g, '\n').replace(/\r/g, '\n');
+  const lines = text.split('\n');
+  const units = splitTopLevel(lines, !!options.jsx);
+  const sizer = options.sizer || getTextSizer();
+  const chunks: TextChunk[] = [];
+
+  let group: Unit[] = [];
+  let groupSize = 0;
+
+  const flushGroup = () => {
+    if (group.length > 0) {
+      chunks.push(groupToChunk(group, lines));
+    }
+    group = [];
+    groupSize = 0;
+  };
+
+  for (const unit of units) {
+    const size = sizer.measure(unit.lines.join('\n'));
+    const standalone = isStandaloneKind(unit.kind);
+
+    if (size > options.chunkSize * MAX_DECLARATION_FACTOR) {
+      flushGroup();
+      chunks.push(...windowUnit(unit, options, sizer));
+      continue;
+    }
+
+    // Functions, classes and components get a chunk of their own; smaller
+    // declarations are packed together up to chunkSize
+    if (standalone || groupSize + size + 1 > options.chunkSize) {
+      flushGroup();
+    }
+
+    group.push(unit);
+    groupSize += size + 1;
+
+    if (standalone) {
+      flushGroup();
+    }
+  }
+
+  flushGroup();
+
+  return chunks.filter(chunk => chunk.content.trim().length > 0);
+}
+
+function isStandaloneKind(kind: CodeSymbolKind): boolean {
+  return kind === 'function' || kind === 'component' || kind === 'class' || kind === 'default-export';
+}
+
+function groupToChunk(group: Unit[], lines: string[]): TextChunk {
+  const symbols = group.map(unit => unit.symbol).filter((symbol): symbol is string => !!symbol);
+  const kinds = new Set(group.map(unit => unit.kind));
+
+  const metadata: CodeChunkMetadata = {
+    symbol: symbols[0],
+    kind: kinds.size === 1 ? group[0].kind : 'mixed',
+    startLine: group[0].startLine,
+    endLine: group[group.length - 1].endLine,
+  };
+  if (symbols.length > 1) {
+    metadata.symbols = symbols;
+  }
+
+  return {
+    content: lines.slice(metadata.startLine - 1, metadata.endLine).join('\n').trim(),
+    metadata,
+  };
+}
+
+/**
+ * Split a very large declaration into overlapping line windows
+ */
+function windowUnit(unit: Unit, options: ChunkOptions, sizer: TextSizer): TextChunk[] {
+  const lineSizes = unit.lines.map(line => sizer.measure(line) + 1);
+  const chunks: TextChunk[] = [];
+  let start = 0;
+  let part = 1;
+
+  while (start < unit.lines.length) {
+    let end = start;
+    let size = 0;
+
+    while (end < unit.lines.length && (end === start || size + lineSizes[end] <= options.chunkSize)) {
+      size += lineSizes[end];
+      end++;
+    }
+
+    chunks.push({
+      content: unit.lines.slice(start, end).join('\n'),
+      metadata: {
+        symbol: unit.symbol,
+        kind: unit.kind,
+        startLine: unit.startLine + start,
+        endLine: unit.startLine + end - 1,
+        part,
+      } satisfies CodeChunkMetadata,
+    });
+
+    if (end >= unit.lines.length) {
+      break;
+    }
+
+    // Step back far enough to repeat roughly chunkOverlap
+    let overlapStart = end;
+    let overlapSize = 0;
+    while (overlapStart - 1 > start && overlapSize + lineSizes[overlapStart - 1] <= options.chunkOverlap) {
+      overlapStart--;
+      overlapSize += lineSizes[overlapStart];
+    }
+
+    start = overlapStart;
+    part++;
+  }
+
+  return chunks;
+}
+
+/**
+ * Group source lines into top-level units. A unit starts on an unindented
+ * line outside any bracket, string or comment; comments directly above a
+ * declaration (JSDoc included) belong to it.
+ */
+function splitTopLevel(lines: string[], jsx: boolean): Unit[] {
+  const lineStates = scanLineStates(lines, jsx);
+  const units: Unit[] = [];
+
+  let current: Unit | null = null;
+  let leadingComments: string[] = [];
+  let leadingStart = 0;
+
+  const finish = () => {
+    if (current) {
+      // Trailing blank lines don't belong to the declaration
+      while (current.lines.length > 1 && !current.lines[current.lines.length - 1].trim()) {
+        current.lines.pop();
+        current.endLine--;
+      }
+      // A capitalized name alone doesn't make a component; it has to render something
+      const rendersJsx = lineStates.slice(current.startLine - 1, current.endLine).some(state => state.opensJsx);
+      if (current.kind === 'component' && !rendersJsx && !/\bcreateElement\(/.test(current.lines.join('\n'))) {
+        current.kind = 'function';
+      }
+      units.push(current);
+    }
+    current = null;
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const state = lineStates[i];
+    const atTopLevel = state.depth === 0 && !state.inComment && !state.inString;
+    const trimmed = line.trim();
+
+    const isComment = /^(\/\/|\/\*)/.test(trimmed);
+    // Lines starting with a closer or an operator continue the previous statement
+    const isContinuation = /^[})\].?:,|&+\-*/=<>]/.test(trimmed);
+
+    if (atTopLevel && trimmed && /^\S/.test(line) && (isComment || !isContinuation)) {
+      if (isComment) {
+        // A comment after a blank line (or at the top) may lead the next declaration
+        if (leadingComments.length === 0) {
+          finish();
+          leadingStart = i;
+        }
+        leadingComments.push(line);
+        continue;
+      }
+
+      const { kind, symbol } = classifyDeclaration(trimmed, jsx, lines.slice(i, i + 20).join('\n'));
+
+      // Consecutive imports form a single unit
+      if (kind === 'imports' && current?.kind === 'imports' && leadingComments.length === 0) {
+        current.lines.push(line);
+        current.endLine = i + 1;
+        continue;
+      }
+
+      finish();
+      current = {
+        kind,
+        symbol,
+        startLine: (leadingComments.length > 0 ? leadingStart : i) + 1,
+        endLine: i + 1,
+        lines: [...leadingComments, line],
+      };
+      leadingComments = [];
+      continue;
+    }
+
+    if (leadingComments.length > 0) {
+      if (!trimmed) {
+        // A blank line detaches the comment from whatever follows
+        if (!state.inComment) {
+          units.push({
+            kind: 'statement',
+            startLine: leadingStart + 1,
+            endLine: i,
+            lines: leadingComments,
+          });
+          leadingComments = [];
+        }
+        continue;
+      }
+      leadingComments.push(line);
+      continue;
+    }
+
+    if (current) {
+      current.lines.push(line);
+      current.endLine = i + 1;
+    }
+  }
+
+  if (leadingComments.length > 0) {
+    finish();
+    units.push({
+      kind: 'statement',
+      startLine: leadingStart + 1,
+      endLine: lines.length,
+      lines: leadingComments,
+    });
+  }
+  finish();
+
+  return units.sort((a, b) => a.startLine - b.startLine);
+}
+
+const DECLARATION_PATTERN = /^(?:export\s+)?(?:default\s+)?(?:declare\s+)?(?:abstract\s+)?(?:async\s+)?(function\*?|class|const|let|var|interface|type|enum|namespace|module)\s+([A-Za-z_$][\w$]*)/;
+
+function classifyDeclaration(
+  line: string,
+  jsx: boolean,
+  lookahead: string
+): { kind: CodeSymbolKind; symbol?: string } {
+  if (/^import[\s{*'"]/.test(line) || /^(const|let|var)\s+.*=\s*require\(/.test(line)) {
+    return { kind: 'imports' };
+  }
+
+  const match = line.match(DECLARATION_PATTERN);
+
+  if (!match) {
+    if (/^export\s+default\b/.test(line)) {
+      return { kind: 'default-export', symbol: 'default' };
+    }
+    const assignment = line.match(/^(?:module\.exports|exports\.([\w$]+))\s*=/);
+    if (assignment) {
+      return { kind: 'variable', symbol: assignment[1] || 'module.exports' };
+    }
+    return { kind: 'statement' };
+  }
+
+  const [, keyword, symbol] = match;
+  const isComponentName = /^[A-Z]/.test(symbol);
+
+  switch (keyword) {
+    case 'function':
+    case 'function*':
+      return { kind: jsx && isComponentName ? 'component' : 'function', symbol };
+    case 'class':
+      return { kind: 'class', symbol };
+    case 'interface':
+      return { kind: 'interface', symbol };
+    case 'type':
+      return { kind: 'type', symbol };
+    case 'enum':
+      return { kind: 'enum', symbol };
+    case 'namespace':
+    case 'module':
+      return { kind: 'namespace', symbol };
+    default: {
+      // const handler = async (req) => ..., const Page = function () ...
+      const isFunction = /=\s*(?:async\s+)?(?:function\b|(?:<[^>]*>\s*)?\([^)]*\)\s*(?::[^=]+)?=>|[\w$]+\s*=>|\(\s*$|\([^)]*$)/.test(lookahead.split('\n')[0])
+        || /=\s*(?:React\.)?(?:memo|forwardRef)\(/.test(lookahead.split('\n')[0]);
+      if (isFunction) {
+        return { kind: jsx && isComponentName ? 'component' : 'function', symbol };
+      }
+      return { kind: 'variable', symbol };
+    }
+  }
+}
+
+interface LineState {
+  /** Bracket depth at the start of the line */
+  depth: number;
+  /** The line starts inside a block comment */
+  inComment: boolean;
+  /** The line starts inside a template literal */
+  inString: boolean;
+  /** A JSX element starts on the line */
+  opensJsx: boolean;
+}
+
+/** Tokens after which `/` starts a regex literal rather than a division */
+const EXPRESSION_START_TOKENS = '(,=:[!&|?{};+-*%<>~^';
+const EXPRESSION_START_KEYWORDS = ['return', 'typeof', 'case', 'do', 'else', 'in', 'of', 'new', 'delete', 'void', 'throw', 'yield', 'await', 'default'];
+
+/** `<` followed by a tag name or `>` opens an element; `<T,>` and `<T extends U>` are type parameters */
+const JSX_TAG_START = /^<(?:>|[A-Za-z_$][\w$.:-]*(?=[\s/>]|$))/;
+const TYPE_PARAMETERS = /^<[\w$]+\s*(?:,|extends\b)/;
+
+function isExpressionStart(token: string): boolean {
+  return token === '' || (token.length === 1 && EXPRESSION_START_TOKENS.includes(token)) || EXPRESSION_START_KEYWORDS.includes(token);
+}
+
+/**
+ * Lexically scan the source and record, for each line, the bracket depth
+ * and whether it starts inside a comment or template literal. This is a
+ * heuristic, not a parser: quoted strings and regex literals end at the
+ * line break. With `jsx`, elements are tracked so that text such as
+ * apostrophes and closing tags like `</li>` don't derail the scan.
+ */
+function scanLineStates(lines: string[], jsx: boolean): LineState[] {
+  const states: LineState[] = [];
+  // Open contexts: brackets, '`' a template literal, '$' a ${ } expression
+  // in it, '<' a JSX tag being opened and '>' the children of an element
+  const stack: string[] = [];
+  let inBlockComment = false;
+  // Last identifier, keyword or punctuation character outside strings
+  let lastToken = '';
+
+  for (const line of lines) {
+    const top = stack[stack.length - 1];
+    const state: LineState = {
+      depth: stack.filter(entry => entry !== '`').length,
+      inComment: inBlockComment,
+      inString: top === '`',
+      opensJsx: false,
+    };
+    states.push(state);
+
+    let quote: string | null = null;
+    let inRegex = false;
+    let inCharClass = false;
+
+    for (let i = 0; i < line.length; i++) {
+      const char = line[i];
+      const next = line[i + 1];
+      const context = stack[stack.length - 1];
+
+      if (inBlockComment) {
+        if (char === '*' && next === '/') {
+          inBlockComment = false;
+          i++;
+        }
+        continue;
+      }
+
+      if (quote) {
+        if (char === '\\' && context !== '<') {
+          i++;
+        } else if (char === quote) {
+          quote = null;
+          lastToken = char;
+        }
+        continue;
+      }
+
+      if (context === '`') {
+        if (char === '\\') {
+          i++;
+        } else if (char === '`') {
+          stack.pop();
+          lastToken = '`';
+        } else if (char === '$' && next === '{') {
+          stack.push('$');
+          i++;
+          lastToken = '{';
+        }
+        continue;
+      }
+
+      if (context === '>') {
+        // Element children: text, nested elements and { } expressions
+        if (char === '{') {
+          stack.push('{');
+          lastToken = '{';
+        } else if (char === '<' && next === '/') {
+          const end = line.indexOf('>', i);
+          stack.pop();
+          lastToken = 'jsx';
+          if (end === -1) break;
+          i = end;
+        } else if (char === '<' && JSX_TAG_START.test(line.slice(i))) {
+          stack.push('<');
+          state.opensJsx = true;
+        }
+        continue;
+      }
+
+      if (context === '<') {
+        // Inside an opening tag: attributes until > or />
+        if (char === '"' || char === "'") {
+          quote = char;
+        } else if (char === '{') {
+          stack.push('{');
+          lastToken = '{';
+        } else if (char === '/' && next === '>') {
+          stack.pop();
+          lastToken = 'jsx';
+          i++;
+        } else if (char === '>') {
+          stack[stack.length - 1] = '>';
+        }
+        continue;
+      }
+
+      if (inRegex) {
+        if (char === '\\') {
+          i++;
+        } else if (char === '[') {
+          inCharClass = true;
+        } else if (char === ']') {
+          inCharClass = false;
+        } else if (char === '/' && !inCharClass) {
+          inRegex = false;
+          lastToken = '/';
+        }
+        continue;
+      }
+
+      if (char === '/' && next === '/') {
+        break;
+      }
+      if (char === '/' && next === '*') {
+        inBlockComment = true;
+        i++;
+        continue;
+      }
+      if (char === '/' && isExpressionStart(lastToken)) {
+        inRegex = true;
+        continue;
+      }
+      if (char === '"' || char === "'") {
+        quote = char;
+        continue;
+      }
+      if (char === '`') {
+        stack.push('`');
+        continue;
+      }
+      if (jsx && char === '<' && isExpressionStart(lastToken)) {
+        const rest = line.slice(i);
+        if (JSX_TAG_START.test(rest) && !TYPE_PARAMETERS.test(rest)) {
+          stack.push('<');
+          state.opensJsx = true;
+          continue;
+        }
+      }
+
+      if (/[\w$]/.test(char)) {
+        // Read the whole word, so keywords such as `return` are recognized
+        let end = i;
+        while (end + 1 < line.length && /[\w$]/.test(line[end + 1])) end++;
+        lastToken = line.slice(i, end + 1);
+        i = end;
+        continue;
+      }
+
+      if (char === '{' || char === '(' || char === '[') {
+        stack.push(char);
+      } else if (char === '}' || char === ')' || char === ']') {
+        // Unbalanced closers in broken code shouldn't push depth negative;
+        // closing a ${ } expression returns to its template literal
+        if (stack.length > 0 && stack[stack.length - 1] !== '`') {
+          stack.pop();
+        }
+      }
+
+      if (!/\s/.test(char)) {
+        lastToken = char;
+      }
+    }
+  }
+
+  return states;
+}
@@ -0,0 +1,47 @@
+import { VectorStore } from './vectorstore';
+import { openIndex } from './indexer';
+import { CollectionInfo } from './types';
+
+/**
+ * List the collections in an index database
+ */
+export function listCollections(dbPath?: string): CollectionInfo[] {
+  const vectorStore = new VectorStore(dbPath);
+
+  try {
+    return vectorStore.listCollections();
+  } finally {
+    vectorStore.close();
+  }
+}
+
+/**
+ * Create an empty collection that records the current embedding and
+ * chunking config, so later indexing into it uses the same settings
+ */
+export function createCollection(name: string): CollectionInfo {
+  if (listCollections().some(collection => collection.name === name)) {
+    throw new Error(`Collection "${name}" already exists`);
+  }
+
+  const { vectorStore } = openIndex(name);
+
+  try {
+    return vectorStore.getCollection()!;
+  } finally {
+    vectorStore.close();
+  }
+}
+
+/**
+ * Delete a collection and everything indexed into it
+ */
+export function dropCollection(name: string, dbPath?: string): void {
+  const vectorStore = new VectorStore(dbPath);
+
+  try {
+    vectorStore.dropCollection(name);
+  } finally {
+    vectorStore.close();
+  }
+}
@@ -0,0 +1,132 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { findConfigFile, loadConfigFile } from './config-file';
+import { configure, getConfig, getConfigFile, getConfigOrigin, loadConfig } from './config';
+import { RagConfig } from './types';
+
+const LOADER = `module.exports = { name: 'notes', extensions: ['.notes'], load: async () => [] };\n`;
+
+describe('config files', () => {
+  let dir: string;
+
+  const write = (relativePath: string, content: string) => {
+    const fullPath = path.join(dir, relativePath);
+    fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+    fs.writeFileSync(fullPath, content);
+    return fullPath;
+  };
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'nextjs-rag-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('findConfigFile', () => {
+    it('picks the first config file name of the nearest directory', () => {
+      write('rag.config.json', '{}');
+      write('rag.config.ts', 'export default {};');
+      write('docs/guide.md', 'text');
+
+      expect(findConfigFile(path.join(dir, 'docs'))).toBe(path.join(dir, 'rag.config.ts'));
+    });
+
+    it('stops looking at the nearest package.json', () => {
+      write('rag.config.json', '{}');
+      write('site/package.json', '{}');
+      write('site/docs/guide.md', 'text');
+
+      expect(findConfigFile(path.join(dir, 'site', 'docs'))).toBeUndefined();
+    });
+  });
+
+  describe('loadConfigFile', () => {
+    it('compiles TypeScript config files', () => {
+      const filePath = write(
+        'rag.config.ts',
+        `import { RagConfigFile } from './types';\n` +
+          `const chunkSize: number = 600;\n` +
+          `export default { chunkSize, searchMode: 'hybrid' } satisfies RagConfigFile;\n`
+      );
+      write('types.ts', 'export type RagConfigFile = Record<string, unknown>;\n');
+
+      expect(loadConfigFile(filePath).config).toEqual({ chunkSize: 600, searchMode: 'hybrid' });
+    });
+
+    it('loads ES modules, CommonJS and JSON', () => {
+      const mjs = write('a/rag.config.mjs', 'export default { topK: 3 };\n');
+      const cjs = write('b/rag.config.cjs', 'module.exports = { topK: 4 };\n');
+      const json = write('c/rag.config.json', '{ "topK": 5 }');
+
+      expect([mjs, cjs, json].map(file => loadConfigFile(file).config.topK)).toEqual([3, 4, 5]);
+    });
+
+    it('reads edited files again', () => {
+      const filePath = write('rag.config.cjs', 'module.exports = { topK: 3 };\n');
+      loadConfigFile(filePath);
+      write('rag.config.cjs', 'module.exports = { topK: 8 };\n');
+
+      expect(loadConfigFile(filePath).config.topK).toBe(8);
+    });
+
+    it('resolves paths relative to the file and loads loader modules', () => {
+      write('project/loaders/notes.cjs', LOADER);
+      const filePath = write(
+        'project/rag.config.mjs',
+        `export default { dbPath: '.rag/index.db', sources: [{ directory: 'docs' }], loaders: ['./loaders/notes.cjs'] };\n`
+      );
+
+      const { config } = loadConfigFile(filePath);
+
+      expect(config.dbPath).toBe(path.join(dir, 'project', '.rag', 'index.db'));
+      expect(config.sources).toEqual([{ directory: path.join(dir, 'project', 'docs') }]);
+      expect(config.loaders?.map(loader => (typeof loader === 'string' ? loader : loader.name))).toEqual(['notes']);
+    });
+
+    it('rejects unknown settings and invalid JSON', () => {
+      const typo = write('a/rag.config.json', '{ "chunksize": 600 }');
+      const invalid = write('b/rag.config.json', '{ chunkSize: 600 }');
+
+      expect(() => loadConfigFile(typo)).toThrow(/unknown setting "chunksize"/);
+      expect(() => loadConfigFile(invalid)).toThrow(/invalid JSON/);
+    });
+  });
+
+  describe('settings precedence', () => {
+    let cwd: string;
+
+    beforeEach(() => {
+      cwd = process.cwd();
+      write('package.json', '{}');
+      write('rag.config.ts', `export default { chunkSize: 600, topK: 7, embeddingModel: 'from-file' };\n`);
+      process.chdir(dir);
+    });
+
+    afterEach(() => {
+      process.chdir(cwd);
+      vi.unstubAllEnvs();
+    });
+
+    it('loads the project config file in getConfig() like the CLI does', () => {
+      expect(getConfigFile()?.path).toBe(fs.realpathSync(path.join(dir, 'rag.config.ts')));
+      expect(getConfig().chunkSize).toBe(600);
+    });
+
+    it('applies configure() over environment variables over the file over defaults', () => {
+      loadConfig(path.join(dir, 'rag.config.ts'));
+      vi.stubEnv('RAG_EMBEDDING_MODEL', 'from-env');
+      vi.stubEnv('RAG_CHAT_MODEL', 'from-env');
+      configure({ chatModel: 'from-configure' });
+
+      const config = getConfig();
+      const keys: Array<keyof RagConfig> = ['chunkOverlap', 'topK', 'embeddingModel', 'chatModel'];
+
+      expect([config.topK, config.embeddingModel, config.chatModel]).toEqual([7, 'from-env', 'from-configure']);
+      expect(keys.map(key => getConfigOrigin(key))).toEqual(['default', 'file', 'env', 'configure']);
+    });
+  });
+});
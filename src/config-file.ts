@@ -0,0 +1,163 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { createRequire } from 'module';
+import { createJiti } from 'jiti';
+import { CollectionConfig, DocumentLoader, RagConfigFile, SourceConfig } from './types';
+
+/** Config file names looked for in each directory, in order */
+export const CONFIG_FILES = [
+  'rag.config.ts',
+  'rag.config.mts',
+  'rag.config.js',
+  'rag.config.mjs',
+  'rag.config.cjs',
+  'rag.config.json',
+];
+
+/** A config file and its settings, with relative paths resolved */
+export interface LoadedConfigFile {
+  path: string;
+  config: RagConfigFile;
+}
+
+const SETTINGS: Array<keyof RagConfigFile> = [
+  'apiKey', 'embeddingProvider', 'embeddingModel', 'embeddingBaseUrl', 'embeddingDimension',
+  'embeddingConcurrency', 'embeddingBatchSize', 'embeddingBatchTokens', 'embeddingMaxRetries',
+  'dbPath', 'chunkSize', 'chunkOverlap', 'chunkUnit', 'chunkStrategy', 'topK', 'searchMode',
+  'hybridWeight', 'chatModel', 'chatBaseUrl', 'urlMapper', 'loaders', 'sources', 'collections',
+];
+
+const SOURCE_SETTINGS: Array<keyof SourceConfig> = [
+  'directory', 'collection', 'extensions', 'include', 'ignorePatterns', 'gitignore', 'maxFileSize', 'followSymlinks',
+];
+
+const COLLECTION_SETTINGS: Array<keyof CollectionConfig> = [
+  'embeddingProvider', 'embeddingModel', 'embeddingBaseUrl', 'embeddingDimension', 'chunkSize', 'chunkOverlap', 'chunkUnit', 'chunkStrategy',
+];
+
+/**
+ * Type a config file's settings, e.g. `export default defineConfig({ ... })`
+ */
+export function defineConfig(config: RagConfigFile): RagConfigFile {
+  return config;
+}
+
+/**
+ * Find the config file of the project containing a directory, looking up
+ * to the nearest directory with a package.json
+ */
+export function findConfigFile(cwd: string = process.cwd()): string | undefined {
+  for (let dir = path.resolve(cwd); ; dir = path.dirname(dir)) {
+    const found = CONFIG_FILES.map(name => path.join(dir, name)).find(file => fs.existsSync(file));
+    if (found) {
+      return found;
+    }
+    if (fs.existsSync(path.join(dir, 'package.json')) || path.dirname(dir) === dir) {
+      return undefined;
+    }
+  }
+}
+
+function checkKeys(value: unknown, allowed: string[], where: string): Record<string, any> {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error(`${where} must be an object`);
+  }
+  for (const key of Object.keys(value)) {
+    if (!allowed.includes(key)) {
+      throw new Error(`${where}: unknown setting "${key}". Known settings: ${allowed.join(', ')}`);
+    }
+  }
+  return value as Record<string, any>;
+}
+
+/**
+ * Check a config file's settings for typos, resolve the paths in it
+ * relative to the file, and load the loader modules it lists
+ */
+export function resolveConfigFile(value: unknown, filePath: string): RagConfigFile {
+  const config = { ...checkKeys(value, SETTINGS, filePath) } as RagConfigFile;
+  const dir = path.dirname(filePath);
+
+  if (config.sources !== undefined) {
+    if (!Array.isArray(config.sources)) {
+      throw new Error(`${filePath}: "sources" must be an array`);
+    }
+    config.sources = config.sources.map((source, idx) => {
+      checkKeys(source, SOURCE_SETTINGS, `${filePath}: sources[${idx}]`);
+      if (typeof source.directory !== 'string' || !source.directory) {
+        throw new Error(`${filePath}: sources[${idx}] needs a "directory"`);
+      }
+      return { ...source, directory: path.resolve(dir, source.directory) };
+    });
+  }
+
+  for (const [name, collection] of Object.entries(config.collections ?? {})) {
+    checkKeys(collection, COLLECTION_SETTINGS, `${filePath}: collections.${name}`);
+  }
+
+  if (config.dbPath) {
+    config.dbPath = path.resolve(dir, config.dbPath);
+  }
+  if (config.loaders) {
+    config.loaders = config.loaders.flatMap(loader => (typeof loader === 'string' ? loadLoaderModules([path.resolve(dir, loader)]) : [loader]));
+  }
+
+  return config;
+}
+
+/**
+ * Load a module of any format Node.js or TypeScript allows (ESM, CommonJS,
+ * .ts, .mts) synchronously, on every supported Node.js version. Modules are
+ * read fresh each time, so edited config files are picked up.
+ */
+function requireModule(filePath: string): any {
+  // Plain CommonJS files go through Node's require(), which caches them
+  delete createRequire(filePath).cache[filePath];
+  const jiti = createJiti(filePath, { moduleCache: false, fsCache: false });
+  return jiti(filePath);
+}
+
+/**
+ * Load custom document loaders from modules that export a loader or an
+ * array of loaders, as the default export or as `loaders`
+ */
+export function loadLoaderModules(modules: string[]): DocumentLoader[] {
+  const loaders: DocumentLoader[] = [];
+
+  for (const modulePath of modules) {
+    const imported = requireModule(path.resolve(modulePath));
+    const exported = imported.loaders ?? imported.default?.loaders ?? imported.default ?? imported;
+
+    for (const loader of [exported].flat()) {
+      if (!loader || typeof loader.name !== 'string' || typeof loader.load !== 'function') {
+        throw new Error(`${modulePath} does not export a document loader (an object with name and load())`);
+      }
+      loaders.push(loader);
+    }
+  }
+
+  return loaders;
+}
+
+/**
+ * Load a config file of any supported format, with the loader modules it
+ * lists. TypeScript files are compiled on the fly, so they work on every
+ * supported Node.js version.
+ */
+export function loadConfigFile(filePath: string): LoadedConfigFile {
+  let value: unknown;
+
+  if (filePath.endsWith('.json')) {
+    try {
+      value = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    } catch (error) {
+      throw new Error(`${filePath}: invalid JSON: ${(error as Error).message}`);
+    }
+  } else {
+    const imported = requireModule(filePath);
+    // CommonJS modules and `export default` both end up as the default export
+    value = imported.default?.default ?? imported.default ?? imported;
+  }
+
+  return { path: filePath, config: resolveConfigFile(value, filePath) };
+}
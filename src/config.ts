@@ -1,18 +1,111 @@
-import { RagConfig } from './types';
+import { RagConfig, RagConfigFile, ResolvedRagConfig, EmbeddingProviderName, EmbeddingProvider, IndexInfo, DocumentLoader, SourceConfig, CollectionConfig } from './types';
+import { findConfigFile, loadConfigFile, resolveConfigFile, LoadedConfigFile } from './config-file';
 import * as path from 'path';
 import * as fs from 'fs';
 
 let userConfig: RagConfig = {};
 
-export function configure(config: RagConfig): void {
-  // Filter out undefined values to avoid overriding defaults
-  const filteredConfig: RagConfig = {};
-  for (const [key, value] of Object.entries(config)) {
-    if (value !== undefined) {
-      (filteredConfig as any)[key] = value;
+/** The project config file; undefined until looked for, null if there is none */
+let configFile: LoadedConfigFile | null | undefined;
+
+/** Collection used when none is specified */
+export const DEFAULT_COLLECTION = 'default';
+
+/** Where a setting comes from, from lowest to highest precedence */
+export type ConfigOrigin = 'default' | 'file' | 'env' | 'configure';
+
+/** Environment variables that set config; configure() overrides them, and they override the config file */
+const ENV_SETTINGS: Record<string, keyof RagConfig> = {
+  OPENAI_API_KEY: 'apiKey',
+  RAG_DB_PATH: 'dbPath',
+  RAG_EMBEDDING_PROVIDER: 'embeddingProvider',
+  RAG_EMBEDDING_MODEL: 'embeddingModel',
+  RAG_EMBEDDING_BASE_URL: 'embeddingBaseUrl',
+  RAG_CHAT_MODEL: 'chatModel',
+  RAG_CHAT_BASE_URL: 'chatBaseUrl',
+};
+
+/**
+ * Settings without the undefined values, so they don't override the
+ * settings below them
+ */
+function definedSettings(config: RagConfig): Partial<RagConfig> {
+  return Object.fromEntries(Object.entries(config).filter(([, value]) => value !== undefined));
+}
+
+function getEnvConfig(): RagConfig {
+  const config: Record<string, string> = {};
+  for (const [name, key] of Object.entries(ENV_SETTINGS)) {
+    if (process.env[name]) {
+      config[key] = process.env[name]!;
     }
   }
-  userConfig = { ...userConfig, ...filteredConfig };
+  return config as RagConfig;
+}
+
+export function configure(config: RagConfig): void {
+  userConfig = { ...userConfig, ...definedSettings(config) };
+}
+
+/**
+ * Use a project config file: the rag.config.ts, .js or .json of the
+ * project by default, a path, or settings imported some other way, whose
+ * paths are relative to the working directory. getConfig() loads the
+ * project's file by itself; call this to use another one or to reload it.
+ */
+export function loadConfig(source?: string | RagConfigFile): LoadedConfigFile | undefined {
+  if (source && typeof source === 'object') {
+    const filePath = path.join(process.cwd(), 'rag.config');
+    configFile = { path: filePath, config: resolveConfigFile(source, filePath) };
+    return configFile;
+  }
+  
+  const filePath = source ? path.resolve(source) : findConfigFile();
+  if (filePath && !fs.existsSync(filePath)) {
+    throw new Error(`Config file ${source} not found`);
+  }
+  
+  configFile = filePath ? loadConfigFile(filePath) : null;
+  return configFile ?? undefined;
+}
+
+/**
+ * The config file in use. Unless loadConfig() was called, the project's
+ * config file is loaded on first use, the same way the CLI loads it.
+ */
+export function getConfigFile(): LoadedConfigFile | undefined {
+  if (configFile === undefined) {
+    const found = findConfigFile();
+    configFile = found ? loadConfigFile(found) : null;
+  }
+  return configFile ?? undefined;
+}
+
+/**
+ * Where a setting's value comes from: configure() (or a CLI flag), an
+ * environment variable, the config file, or the default
+ */
+export function getConfigOrigin(key: keyof RagConfig, collection?: string): ConfigOrigin {
+  if (userConfig[key] !== undefined) {
+    return 'configure';
+  }
+  if (getEnvConfig()[key] !== undefined) {
+    return 'env';
+  }
+  
+  const file = getConfigFile()?.config;
+  const collectionConfig: RagConfig | undefined = collection ? file?.collections?.[collection] : undefined;
+  if (collectionConfig?.[key] !== undefined || file?.[key] !== undefined) {
+    return 'file';
+  }
+  return 'default';
+}
+
+/**
+ * Whether a setting was set explicitly rather than left at its default
+ */
+export function isConfigured(key: keyof RagConfig, collection?: string): boolean {
+  return getConfigOrigin(key, collection) !== 'default';
 }
 
 /**
@@ -40,24 +133,181 @@ function getDefaultDbPath(): string {
   return path.join(process.cwd(), '.rag', 'sqlite.db');
 }
 
-export function getConfig(): Required<RagConfig> {
-  // Get default config with lazy evaluation of environment variables
-  const DEFAULT_CONFIG: Required<RagConfig> = {
-    apiKey: process.env.OPENAI_API_KEY || '',
-    embeddingModel: 'text-embedding-3-small',
+const DEFAULT_EMBEDDING_MODELS: Record<EmbeddingProviderName, string> = {
+  'openai': 'text-embedding-3-small',
+  'openai-compatible': '',
+  'local': 'local-hash-v1',
+};
+
+function getDefaultEmbeddingModel(provider: EmbeddingProviderName | EmbeddingProvider): string {
+  if (typeof provider === 'object') {
+    return provider.model;
+  }
+  return DEFAULT_EMBEDDING_MODELS[provider] ?? '';
+}
+
+/**
+ * The config in effect: configure() settings, then environment variables,
+ * then the config file (with the collection's own settings, if given), then
+ * defaults
+ */
+export function getConfig(collection?: string): ResolvedRagConfig {
+  const { sources, collections, loaders, ...fileSettings } = getConfigFile()?.config ?? {};
+  const settings: RagConfig = {
+    ...definedSettings(fileSettings),
+    // Loader module paths are loaded along with the file
+    loaders: loaders as DocumentLoader[] | undefined,
+    ...definedSettings((collection && collections?.[collection]) || {}),
+    ...getEnvConfig(),
+    ...userConfig,
+  };
+  
+  const embeddingProvider = settings.embeddingProvider || 'openai';
+  const chunkUnit = settings.chunkUnit || 'chars';
+  
+  const DEFAULT_CONFIG: ResolvedRagConfig = {
+    apiKey: '',
+    embeddingProvider,
+    embeddingModel: getDefaultEmbeddingModel(embeddingProvider),
     dbPath: getDefaultDbPath(),
-    chunkSize: 1000,
-    chunkOverlap: 200,
+    embeddingConcurrency: 4,
+    embeddingBatchSize: 100,
+    // OpenAI allows 300k tokens per request; leave room for tokenizer differences
+    embeddingBatchTokens: 250000,
+    embeddingMaxRetries: 5,
+    // Token defaults roughly match 1000/200 characters of English prose
+    chunkSize: chunkUnit === 'tokens' ? 300 : 1000,
+    chunkOverlap: chunkUnit === 'tokens' ? 50 : 200,
+    chunkUnit,
+    chunkStrategy: 'auto',
     topK: 5,
+    searchMode: 'vector',
+    hybridWeight: 0.5,
+    chatModel: 'gpt-4o-mini',
+    urlMapper: {},
+    loaders: [],
   };
   
-  const config = { ...DEFAULT_CONFIG, ...userConfig };
+  // The API key is only checked by the openai provider when it embeds,
+  // so local and self-hosted providers work without one
+  return { ...DEFAULT_CONFIG, ...definedSettings(settings) };
+}
+
+/** The resolved config in printable form, with where each setting comes from */
+export interface ConfigDescription {
+  /** Config file in use, if any */
+  configFile?: string;
+  collection?: string;
+  settings: Array<{ key: keyof RagConfig; value: unknown; origin: ConfigOrigin }>;
+  sources: SourceConfig[];
+  collections: Record<string, CollectionConfig>;
+}
+
+/**
+ * A setting's value as JSON: the API key masked, and providers, models,
+ * loaders and functions by name
+ */
+function describeValue(key: keyof RagConfig, value: unknown): unknown {
+  if (key === 'apiKey') {
+    return typeof value === 'string' && value ? `${value.slice(0, 3)}…${value.slice(-4)}` : '';
+  }
+  if (key === 'loaders') {
+    return (value as DocumentLoader[]).map(loader => loader.name);
+  }
+  if (typeof value === 'function') {
+    return `[function ${value.name || 'anonymous'}]`;
+  }
+  if (value && typeof value === 'object' && 'name' in value && 'model' in value) {
+    return `${(value as { name: string }).name}/${(value as { model: string }).model}`;
+  }
+  return value;
+}
+
+/**
+ * Describe the config in effect for a collection: every setting with its
+ * value and where it comes from, and the config file's sources and collections
+ */
+export function describeConfig(collection?: string): ConfigDescription {
+  const config = getConfig(collection);
+  const file = getConfigFile();
+
+  return {
+    configFile: file?.path,
+    collection,
+    settings: (Object.keys(config) as Array<keyof RagConfig>).map(key => ({
+      key,
+      value: describeValue(key, config[key]),
+      origin: getConfigOrigin(key, collection),
+    })),
+    sources: file?.config.sources ?? [],
+    collections: file?.config.collections ?? {},
+  };
+}
+
+const BUILT_IN_PROVIDERS: EmbeddingProviderName[] = ['openai', 'openai-compatible', 'local'];
+
+/**
+ * Reconcile config with the settings an existing index was built with.
+ * Settings left at their defaults are taken from the index; explicit
+ * settings that conflict with it are an error, since mixing embedding
+ * models or chunking schemes in one index gives garbage results.
+ */
+export function resolveIndexConfig(
+  config: ResolvedRagConfig,
+  info: IndexInfo | undefined,
+  options: { chunking?: boolean; dbPath?: string; collection?: string } = {}
+): ResolvedRagConfig {
+  if (!info) {
+    return config;
+  }
+  
+  const resolved: ResolvedRagConfig = { ...config };
+  const mismatches: string[] = [];
+  
+  const providerName = typeof config.embeddingProvider === 'object'
+    ? config.embeddingProvider.name
+    : config.embeddingProvider;
+  
+  if (isConfigured('embeddingProvider', options.collection) || isConfigured('embeddingModel', options.collection)) {
+    if (providerName !== info.embeddingProvider || config.embeddingModel !== info.embeddingModel) {
+      mismatches.push(`embedding model ${info.embeddingProvider}/${info.embeddingModel} (config: ${providerName}/${config.embeddingModel})`);
+    }
+  } else if (BUILT_IN_PROVIDERS.includes(info.embeddingProvider as EmbeddingProviderName)) {
+    resolved.embeddingProvider = info.embeddingProvider as EmbeddingProviderName;
+    resolved.embeddingModel = info.embeddingModel;
+  } else if (providerName !== info.embeddingProvider) {
+    mismatches.push(`custom embedding provider "${info.embeddingProvider}" (pass it as embeddingProvider in configure())`);
+  }
+  
+  if (config.embeddingDimension !== undefined && config.embeddingDimension !== info.dimension) {
+    mismatches.push(`embedding dimension ${info.dimension} (config: ${config.embeddingDimension})`);
+  }
+  resolved.embeddingDimension = info.dimension;
+  
+  if (options.chunking) {
+    const chunkSettings = ['chunkStrategy', 'chunkUnit', 'chunkSize', 'chunkOverlap'] as const;
+    for (const key of chunkSettings) {
+      if (!isConfigured(key, options.collection)) {
+        Object.assign(resolved, { [key]: info[key] });
+      } else if (config[key] !== info[key]) {
+        mismatches.push(`${key} ${info[key]} (config: ${config[key]})`);
+      }
+    }
+  }
   
-  if (!config.apiKey) {
-    throw new Error('OpenAI API key not found. Set OPENAI_API_KEY environment variable or pass apiKey in config.');
+  if (mismatches.length > 0) {
+    const dbPath = options.dbPath || config.dbPath;
+    const collection = options.collection && options.collection !== DEFAULT_COLLECTION ? options.collection : undefined;
+    throw new Error(
+      `${collection ? `Collection "${collection}" in ${dbPath}` : `The index at ${dbPath}`} was built with a different configuration:\n` +
+      mismatches.map(mismatch => `  - ${mismatch}`).join('\n') +
+      (collection
+        ? `\nUse the same settings, or drop the collection and index it again to rebuild it.`
+        : `\nUse the same settings, or delete ${dbPath} and run init again to rebuild it.`)
+    );
   }
   
-  return config;
+  return resolved;
 }
 
 export function ensureRagDir(dbPath: string): void {
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { assembleContext } from './context';
+import { countTokens } from './tokenizer';
+import { ContextChunk } from './types';
+
+function chunk(id: number, filePath: string, chunkIndex: number, content: string): ContextChunk {
+  return { id, filePath, chunkIndex, content, collection: 'default', similarity: 1, score: 1 };
+}
+
+const SENTENCE = 'Route handlers let you create custom request handlers for a given route using the Web Request and Response APIs.';
+
+describe('assembleContext', () => {
+  it('merges adjacent hits from one file, trimming their overlap', () => {
+    const first = chunk(1, 'docs/routing.md', 0, 'Dynamic segments are wrapped in square brackets, like [slug].');
+    const second = chunk(2, 'docs/routing.md', 1, 'square brackets, like [slug]. Catch-all segments use [...slug].');
+    const other = chunk(3, 'docs/cache.md', 4, 'Caching is opt-in.');
+
+    const { passages, text } = assembleContext([second, other, first]);
+
+    expect(passages).toHaveLength(2);
+    expect(passages[0].content).toBe('Dynamic segments are wrapped in square brackets, like [slug]. Catch-all segments use [...slug].');
+    expect(passages[0].chunks.map(hit => hit.id)).toEqual([2, 1]);
+    expect(text).toBe(`[1] ${passages[0].content}\n\n[2] Caching is opt-in.`);
+  });
+
+  it('keeps hits apart when merging is off', () => {
+    const hits = [chunk(1, 'a.md', 0, 'first part'), chunk(2, 'a.md', 1, 'second part')];
+
+    expect(assembleContext(hits, new Map(), { mergeAdjacent: false }).passages).toHaveLength(2);
+  });
+
+  it('adds neighbors next to a hit but not stray ones', () => {
+    const hit = chunk(1, 'a.md', 5, 'the hit');
+    const neighbors = new Map([[1, [chunk(2, 'a.md', 4, 'before it'), chunk(3, 'a.md', 9, 'far away')]]]);
+
+    expect(assembleContext([hit], neighbors).passages.map(passage => passage.content)).toEqual(['before it\n\nthe hit']);
+  });
+
+  it('packs passages best first into the token budget', () => {
+    const hits = [1, 2, 3].map(id => chunk(id, `docs/${id}.md`, 0, `${SENTENCE} ${SENTENCE}`));
+    const perPassage = countTokens(`[1] ${hits[0].content}`);
+
+    const { passages, text, truncation } = assembleContext(hits, new Map(), { maxTokens: perPassage * 2 + 10 });
+
+    expect(passages.map(passage => passage.filePath)).toEqual(['docs/1.md', 'docs/2.md']);
+    expect(countTokens(text)).toBeLessThanOrEqual(perPassage * 2 + 10);
+    expect(truncation).toMatchObject({ truncated: true, droppedPassages: 1, droppedChunkIds: [3] });
+  });
+
+  it('cuts the last passage short when enough of the budget is left', () => {
+    const long = chunk(1, 'a.md', 0, Array.from({ length: 20 }, () => SENTENCE).join(' '));
+
+    const { passages, truncation } = assembleContext([long], new Map(), { maxTokens: 100 });
+
+    expect(passages[0].truncated).toBe(true);
+    expect(long.content.startsWith(passages[0].content)).toBe(true);
+    expect(truncation).toMatchObject({ truncated: true, droppedPassages: 0 });
+    expect(truncation!.tokens).toBeLessThanOrEqual(100);
+  });
+
+  it('reports no truncation when everything fits', () => {
+    const { truncation } = assembleContext([chunk(1, 'a.md', 0, 'short')], new Map(), { maxTokens: 100 });
+
+    expect(truncation).toMatchObject({ truncated: false, droppedPassages: 0, droppedChunkIds: [] });
+  });
+});
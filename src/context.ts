@@ -0,0 +1,246 @@
+import { countTokens, truncateToTokens } from './tokenizer';
+import { ContextChunk, ContextPassage, ContextTruncation } from './types';
+
+/** Shortest overlap between consecutive chunks that is trimmed when joining them */
+const MIN_OVERLAP = 16;
+
+/** Smallest remainder of the budget worth filling with a cut-short passage */
+const MIN_PARTIAL_TOKENS = 32;
+
+export interface AssembleOptions {
+  /** Token budget for the context text; unlimited if unset */
+  maxTokens?: number;
+  /** Merge hits that are adjacent or overlapping in the same file into one passage (default: true) */
+  mergeAdjacent?: boolean;
+}
+
+export interface AssembledContext {
+  text: string;
+  passages: ContextPassage[];
+  truncation?: ContextTruncation;
+}
+
+/**
+ * Format passages the way they are numbered in the context text
+ */
+export function formatPassages(passages: Array<Pick<ContextPassage, 'content'>>): string {
+  return passages.map((passage, idx) => `[${idx + 1}] ${passage.content}`).join('\n\n');
+}
+
+/**
+ * Order chunks of one file by their position in it. Chunks indexed before
+ * positions were stored keep their order.
+ */
+function compareByPosition(a: ContextChunk, b: ContextChunk): number {
+  if (a.chunkIndex !== undefined && b.chunkIndex !== undefined) {
+    return a.chunkIndex - b.chunkIndex;
+  }
+  if (a.startOffset !== undefined && b.startOffset !== undefined) {
+    return a.startOffset - b.startOffset;
+  }
+  return 0;
+}
+
+function isAdjacent(previous: ContextChunk, next: ContextChunk): boolean {
+  if (previous.chunkIndex !== undefined && next.chunkIndex !== undefined) {
+    return next.chunkIndex === previous.chunkIndex + 1;
+  }
+  if (previous.endOffset !== undefined && next.startOffset !== undefined) {
+    return next.startOffset <= previous.endOffset + 1;
+  }
+  return false;
+}
+
+/**
+ * Length of the longest suffix of `text` that starts `next`
+ */
+function overlapLength(text: string, next: string): number {
+  for (let length = Math.min(text.length, next.length); length >= MIN_OVERLAP; length--) {
+    if (text.endsWith(next.slice(0, length))) {
+      return length;
+    }
+  }
+  return 0;
+}
+
+/**
+ * Join consecutive chunks of a file into one text, dropping text repeated
+ * by chunk overlap. Returns where each chunk ends in the joined text.
+ */
+function joinChunks(chunks: ContextChunk[]): { content: string; ends: Map<number, number> } {
+  let content = '';
+  const ends = new Map<number, number>();
+
+  for (const chunk of chunks) {
+    const contained = content.indexOf(chunk.content);
+
+    if (contained !== -1) {
+      // Already covered by the previous chunks
+      ends.set(chunk.id, contained + chunk.content.length);
+      continue;
+    }
+
+    const overlap = overlapLength(content, chunk.content);
+    content += overlap > 0 || !content ? chunk.content.slice(overlap) : `\n\n${chunk.content}`;
+    ends.set(chunk.id, content.length);
+  }
+
+  return { content, ends };
+}
+
+interface Span {
+  chunks: ContextChunk[];
+  hits: ContextChunk[];
+  /** Best rank among the hits */
+  rank: number;
+}
+
+/**
+ * Group hits and their neighbors into spans of consecutive chunks
+ */
+function buildSpans(
+  hits: ContextChunk[],
+  neighbors: Map<number, ContextChunk[]>,
+  mergeAdjacent: boolean
+): Span[] {
+  const rank = new Map(hits.map((hit, idx) => [hit.id, idx]));
+
+  const groups = new Map<string, ContextChunk[]>();
+  hits.forEach((hit, idx) => {
+    const key = mergeAdjacent ? `${hit.collection}\0${hit.filePath}` : String(idx);
+    const group = groups.get(key) || [];
+    groups.set(key, group.concat(hit, neighbors.get(hit.id) || []));
+  });
+
+  const spans: Span[] = [];
+
+  for (const group of groups.values()) {
+    // A chunk can be a hit and a neighbor, or the neighbor of two hits
+    const unique = new Map<number, ContextChunk>();
+    for (const chunk of group) {
+      if (!unique.has(chunk.id) || rank.has(chunk.id)) {
+        unique.set(chunk.id, rank.has(chunk.id) ? hits[rank.get(chunk.id)!] : chunk);
+      }
+    }
+
+    const ordered = [...unique.values()].sort(compareByPosition);
+    let current: ContextChunk[] = [];
+
+    const close = () => {
+      const spanHits = current.filter(chunk => rank.has(chunk.id));
+      // Neighbors that aren't next to any hit are left out
+      if (spanHits.length > 0) {
+        spanHits.sort((a, b) => rank.get(a.id)! - rank.get(b.id)!);
+        spans.push({ chunks: current, hits: spanHits, rank: rank.get(spanHits[0].id)! });
+      }
+      current = [];
+    };
+
+    for (const chunk of ordered) {
+      if (current.length > 0 && !isAdjacent(current[current.length - 1], chunk)) {
+        close();
+      }
+      current.push(chunk);
+    }
+    close();
+  }
+
+  return spans.sort((a, b) => a.rank - b.rank);
+}
+
+function toPassage(span: Span): ContextPassage & { ends: Map<number, number> } {
+  const { content, ends } = joinChunks(span.chunks);
+  const first = span.chunks[0];
+  const hasOffsets = span.chunks.every(chunk => chunk.startOffset !== undefined && chunk.endOffset !== undefined);
+  const hasLines = span.chunks.every(chunk => chunk.startLine !== undefined && chunk.endLine !== undefined);
+
+  return {
+    content,
+    filePath: first.filePath,
+    collection: first.collection,
+    breadcrumb: span.hits[0].breadcrumb,
+    chunks: span.hits,
+    startOffset: hasOffsets ? first.startOffset : undefined,
+    endOffset: hasOffsets ? Math.max(...span.chunks.map(chunk => chunk.endOffset!)) : undefined,
+    startLine: hasLines ? first.startLine : undefined,
+    endLine: hasLines ? Math.max(...span.chunks.map(chunk => chunk.endLine!)) : undefined,
+    anchor: first.anchor,
+    truncated: false,
+    ends,
+  };
+}
+
+/**
+ * Turn ranked hits into numbered passages: hits are merged with adjacent
+ * hits and their neighbors from the same file, then packed best first into
+ * the token budget. The last passage that doesn't fit is cut short if enough
+ * of the budget remains; passages after it are dropped.
+ * @param neighbors - Chunks surrounding each hit, by hit id
+ */
+export function assembleContext(
+  hits: ContextChunk[],
+  neighbors: Map<number, ContextChunk[]> = new Map(),
+  options: AssembleOptions = {}
+): AssembledContext {
+  const { maxTokens, mergeAdjacent = true } = options;
+  const spans = buildSpans(hits, neighbors, mergeAdjacent);
+  const candidates = spans.map(toPassage);
+
+  const passages: ContextPassage[] = [];
+  const droppedChunkIds: number[] = [];
+  let full = false;
+
+  for (const { ends, ...passage } of candidates) {
+    if (maxTokens === undefined) {
+      passages.push(passage);
+      continue;
+    }
+
+    if (!full && countTokens(formatPassages([...passages, passage])) <= maxTokens) {
+      passages.push(passage);
+      continue;
+    }
+
+    if (!full) {
+      full = true;
+      const used = passages.length > 0 ? countTokens(`${formatPassages(passages)}\n\n`) : 0;
+      let remaining = maxTokens - used - countTokens(`[${passages.length + 1}] `);
+
+      if (remaining >= MIN_PARTIAL_TOKENS) {
+        let content = truncateToTokens(passage.content, remaining);
+        // Tokens can merge across the joins, so check the result as a whole
+        let excess = countTokens(formatPassages([...passages, { content }])) - maxTokens;
+        while (excess > 0) {
+          remaining -= excess;
+          content = truncateToTokens(passage.content, remaining);
+          excess = countTokens(formatPassages([...passages, { content }])) - maxTokens;
+        }
+        passages.push({ ...passage, content, truncated: true });
+        droppedChunkIds.push(...passage.chunks.filter(chunk => ends.get(chunk.id)! > content.length).map(chunk => chunk.id));
+        continue;
+      }
+    }
+
+    droppedChunkIds.push(...passage.chunks.map(chunk => chunk.id));
+  }
+
+  const text = formatPassages(passages);
+
+  if (maxTokens === undefined) {
+    return { text, passages };
+  }
+
+  const droppedPassages = candidates.length - passages.length;
+
+  return {
+    text,
+    passages,
+    truncation: {
+      truncated: droppedPassages > 0 || passages.some(passage => passage.truncated),
+      maxTokens,
+      tokens: countTokens(text),
+      droppedPassages,
+      droppedChunkIds,
+    },
+  };
+}
@@ -0,0 +1,116 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { discoverFiles, DiscoveryOptions } from './discovery';
+
+const OPTIONS: DiscoveryOptions = { extensions: ['.md', '.js'], ignorePatterns: [] };
+
+describe('discoverFiles', () => {
+  let dir: string;
+
+  const write = (relativePath: string, content: string | Buffer = 'text') => {
+    const fullPath = path.join(dir, relativePath);
+    fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+    fs.writeFileSync(fullPath, content);
+  };
+
+  const found = (directory: string, options: Partial<DiscoveryOptions> = {}) =>
+    discoverFiles(path.join(dir, directory), { ...OPTIONS, ...options }).files.map(file => path.relative(dir, file)).sort();
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'nextjs-rag-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('applies ignore patterns with gitignore semantics', () => {
+    write('docs/guide.md');
+    write('docs/building-apps.md');
+    write('docs/build/out.md');
+    write('docs/drafts/wip.md');
+    write('docs/notes/drafts/keep.md');
+    write('docs/private.md');
+    write('docs/.gitignore', 'private.md\n');
+    write('docs/.ragignore', '/drafts/\n');
+
+    expect(found('docs', { ignorePatterns: ['build'] })).toEqual([
+      'docs/building-apps.md',
+      'docs/guide.md',
+      'docs/notes/drafts/keep.md',
+    ]);
+  });
+
+  it('keeps reading .ragignore when gitignore is off', () => {
+    write('docs/a.md');
+    write('docs/b.md');
+    write('docs/.gitignore', 'a.md\n');
+    write('docs/.ragignore', 'b.md\n');
+
+    expect(found('docs', { gitignore: false })).toEqual(['docs/a.md']);
+  });
+
+  it('applies ignore files of parent directories up to the nearest package.json outside git', () => {
+    write('package.json', '{}');
+    write('.gitignore', 'generated/\n');
+    write('docs/guide.md');
+    write('docs/generated/api.md');
+
+    expect(found('docs')).toEqual(['docs/guide.md']);
+  });
+
+  it('ignores parent ignore files outside a project', () => {
+    write('.gitignore', 'generated/\n');
+    write('docs/generated/api.md');
+
+    expect(found('docs')).toEqual(['docs/generated/api.md']);
+  });
+
+  it('applies ignore files up to the repository root, past nested packages', () => {
+    fs.mkdirSync(path.join(dir, '.git'));
+    write('.gitignore', 'generated/\n');
+    write('packages/site/package.json', '{}');
+    write('packages/site/docs/guide.md');
+    write('packages/site/docs/generated/api.md');
+
+    expect(found('packages/site/docs')).toEqual(['packages/site/docs/guide.md']);
+  });
+
+  it('only keeps files matching the include globs and extensions', () => {
+    write('docs/guide.md');
+    write('docs/api/fetch.md');
+    write('docs/api/fetch.txt');
+
+    expect(found('docs', { include: ['api/**'] })).toEqual(['docs/api/fetch.md']);
+  });
+
+  it('excludes large, binary and minified files with a reason', () => {
+    write('docs/guide.md');
+    write('docs/big.md', 'x'.repeat(6000));
+    write('docs/image.md', Buffer.from([0x89, 0x50, 0x00, 0x47]));
+    write('docs/bundle.min.js', 'var a=1;');
+    write('docs/bundle.js', `var a=${'1+'.repeat(2000)}1;`);
+
+    const { files, excluded } = discoverFiles(path.join(dir, 'docs'), { ...OPTIONS, maxFileSize: 5000 });
+    const reasons = Object.fromEntries(excluded.map(file => [path.basename(file.filePath), file.reason]));
+
+    expect(files.map(file => path.basename(file))).toEqual(['guide.md']);
+    expect(reasons).toEqual({ 'big.md': 'too-large', 'image.md': 'binary', 'bundle.min.js': 'minified', 'bundle.js': 'minified' });
+  });
+
+  it('follows symbolic links only when asked', () => {
+    write('shared/intro.md');
+    write('docs/guide.md');
+    fs.symlinkSync(path.join(dir, 'shared'), path.join(dir, 'docs', 'shared'));
+    fs.symlinkSync(path.join(dir, 'shared', 'intro.md'), path.join(dir, 'docs', 'intro.md'));
+
+    const { files, excluded } = discoverFiles(path.join(dir, 'docs'), OPTIONS);
+
+    // Linked files are reported; linked directories are just skipped
+    expect(files.map(file => path.basename(file))).toEqual(['guide.md']);
+    expect(excluded.map(file => [path.basename(file.filePath), file.reason])).toEqual([['intro.md', 'symlink']]);
+    expect(found('docs', { followSymlinks: true })).toEqual(['docs/guide.md', 'docs/intro.md', 'docs/shared/intro.md']);
+  });
+});
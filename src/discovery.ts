@@ -0,0 +1,298 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { globToRegExp, matchesGlob } from './glob';
+import { getLoader } from './loaders';
+
+/** Ignore files read in every directory, in this order */
+const IGNORE_FILES = ['.gitignore', '.ragignore'];
+
+/** Bytes read from the start of a file to tell whether it is text */
+const SNIFF_BYTES = 8192;
+
+/** Average line length above which a code file counts as minified */
+const MINIFIED_LINE_LENGTH = 300;
+
+/** Files shorter than this are never treated as minified */
+const MINIFIED_MIN_SIZE = 2048;
+
+const MINIFIABLE_EXTENSIONS = ['.js', '.mjs', '.cjs', '.jsx', '.ts', '.tsx', '.css', '.json'];
+
+/** Largest file indexed by default, in bytes */
+export const DEFAULT_MAX_FILE_SIZE = 10 * 1024 * 1024;
+
+export type ExclusionReason = 'too-large' | 'binary' | 'minified' | 'symlink';
+
+/** A file that matched the extensions and patterns but isn't worth indexing */
+export interface ExcludedFile {
+  filePath: string;
+  reason: ExclusionReason;
+}
+
+export interface DiscoveryOptions {
+  extensions: string[];
+  /** Globs relative to the directory; when given, only files matching one are indexed */
+  include?: string[];
+  /** Gitignore-style patterns relative to the directory, e.g. 'build' or 'docs/drafts/**' */
+  ignorePatterns: string[];
+  /** Honor .gitignore files (default: true). .ragignore files are always honored. */
+  gitignore?: boolean;
+  /** Largest file to index, in bytes (default: 10 MB) */
+  maxFileSize?: number;
+  /** Follow symbolic links to files and directories (default: false) */
+  followSymlinks?: boolean;
+}
+
+export interface DiscoveryResult {
+  /** Absolute paths of the files to index */
+  files: string[];
+  excluded: ExcludedFile[];
+}
+
+interface IgnoreRule {
+  /** Absolute directory the pattern is relative to */
+  base: string;
+  regex: RegExp;
+  negate: boolean;
+  directoryOnly: boolean;
+}
+
+/**
+ * Parse gitignore-style patterns: `#` comments, `!` negation, a trailing `/`
+ * for directories only, and patterns without a slash matching at any depth
+ */
+function parseIgnorePatterns(lines: string[], base: string): IgnoreRule[] {
+  const rules: IgnoreRule[] = [];
+
+  for (const line of lines) {
+    let pattern = line.replace(/(?<!\\)\s+$/, '');
+    if (!pattern || pattern.startsWith('#')) continue;
+
+    const negate = pattern.startsWith('!');
+    if (negate) pattern = pattern.slice(1);
+    // `\#` and `\!` escape a literal first character
+    if (pattern.startsWith('\\')) pattern = pattern.slice(1);
+
+    const directoryOnly = pattern.endsWith('/');
+    pattern = pattern.replace(/\/+$/, '');
+    if (!pattern) continue;
+
+    const anchored = pattern.includes('/');
+    pattern = pattern.replace(/^\/+/, '');
+
+    rules.push({
+      base,
+      regex: globToRegExp(anchored ? pattern : `**/${pattern}`),
+      negate,
+      directoryOnly,
+    });
+  }
+
+  return rules;
+}
+
+function readIgnoreFile(dir: string, name: string): IgnoreRule[] {
+  try {
+    return parseIgnorePatterns(fs.readFileSync(path.join(dir, name), 'utf-8').split(/\r?\n/), dir);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Directories from the top of the git repository containing `dir` down to
+ * `dir`, whose ignore files apply to it. Outside a repository the nearest
+ * directory with a package.json is the top, or `dir` itself without one.
+ */
+function ancestorsInRepository(dir: string): string[] {
+  const ancestors: string[] = [];
+  let projectDepth: number | undefined;
+
+  for (let current = dir; ; current = path.dirname(current)) {
+    ancestors.unshift(current);
+    if (fs.existsSync(path.join(current, '.git'))) {
+      return ancestors;
+    }
+    if (projectDepth === undefined && fs.existsSync(path.join(current, 'package.json'))) {
+      projectDepth = ancestors.length;
+    }
+    if (path.dirname(current) === current) {
+      break;
+    }
+  }
+
+  return projectDepth !== undefined ? ancestors.slice(-projectDepth) : [dir];
+}
+
+/**
+ * Decides which paths under a directory are ignored, by the given patterns
+ * and by the .gitignore and .ragignore files of each directory on the way.
+ * The last matching rule wins, and rules in deeper directories come later.
+ */
+export function createIgnoreMatcher(
+  directory: string,
+  options: Pick<DiscoveryOptions, 'ignorePatterns' | 'gitignore'>
+): (fullPath: string, isDirectory: boolean) => boolean {
+  const root = path.resolve(directory);
+  const ignoreFiles = options.gitignore === false ? IGNORE_FILES.filter(name => name !== '.gitignore') : IGNORE_FILES;
+  const rulesByDir = new Map<string, IgnoreRule[]>();
+
+  const ownRules = (dir: string): IgnoreRule[] => {
+    let rules = rulesByDir.get(dir);
+    if (!rules) {
+      rules = ignoreFiles.flatMap(name => readIgnoreFile(dir, name));
+      rulesByDir.set(dir, rules);
+    }
+    return rules;
+  };
+
+  // Ignore files above the directory apply too, as far up as the repository goes
+  const rootRules = [
+    ...parseIgnorePatterns(options.ignorePatterns, root),
+    ...ancestorsInRepository(root).flatMap(ownRules),
+  ];
+
+  return (fullPath, isDirectory) => {
+    const absolute = path.resolve(fullPath);
+    const relativeToRoot = path.relative(root, absolute);
+    if (!relativeToRoot || relativeToRoot.startsWith('..')) {
+      return false;
+    }
+
+    // Ignore files of the directories between the root and the path
+    const rules = [...rootRules];
+    const segments = relativeToRoot.split(path.sep);
+    for (let depth = 1; depth < segments.length; depth++) {
+      rules.push(...ownRules(path.join(root, ...segments.slice(0, depth))));
+    }
+
+    let ignored = false;
+    for (const rule of rules) {
+      if (rule.directoryOnly && !isDirectory) continue;
+      const relativePath = path.relative(rule.base, absolute).replace(/\\/g, '/');
+      if (rule.regex.test(relativePath)) {
+        ignored = !rule.negate;
+      }
+    }
+    return ignored;
+  };
+}
+
+export function hasExtension(filePath: string, extensions: string[]): boolean {
+  return extensions.includes(path.extname(filePath));
+}
+
+/**
+ * Whether a file under the directory has one of the extensions and matches
+ * the include globs
+ */
+export function matchesFileFilters(directory: string, fullPath: string, options: Pick<DiscoveryOptions, 'extensions' | 'include'>): boolean {
+  if (!hasExtension(fullPath, options.extensions)) {
+    return false;
+  }
+  const relativePath = path.relative(path.resolve(directory), path.resolve(fullPath));
+  return !options.include?.length || options.include.some(pattern => matchesGlob(relativePath, pattern));
+}
+
+/**
+ * Why a file shouldn't be indexed despite matching: it is too large, binary
+ * or minified. Formats read by a loader, such as PDF, may be binary.
+ */
+export function checkContent(filePath: string, size: number, maxFileSize: number = DEFAULT_MAX_FILE_SIZE): ExclusionReason | undefined {
+  if (size > maxFileSize) {
+    return 'too-large';
+  }
+
+  const name = path.basename(filePath).toLowerCase();
+  if (/\.min\.(js|css|mjs|cjs)$/.test(name)) {
+    return 'minified';
+  }
+  if (getLoader(filePath) || size === 0) {
+    return undefined;
+  }
+
+  const buffer = Buffer.alloc(Math.min(size, SNIFF_BYTES));
+  const fd = fs.openSync(filePath, 'r');
+  try {
+    fs.readSync(fd, buffer, 0, buffer.length, 0);
+  } finally {
+    fs.closeSync(fd);
+  }
+
+  if (buffer.includes(0)) {
+    return 'binary';
+  }
+
+  const extension = path.extname(name);
+  if (size >= MINIFIED_MIN_SIZE && MINIFIABLE_EXTENSIONS.includes(extension)) {
+    const lines = buffer.toString('utf-8').split('\n').length;
+    if (buffer.length / lines > MINIFIED_LINE_LENGTH) {
+      return 'minified';
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Find the files to index under a directory: those with one of the
+ * extensions that match the include globs, aren't ignored, and look like
+ * text worth indexing
+ */
+export function discoverFiles(directory: string, options: DiscoveryOptions): DiscoveryResult {
+  const root = path.resolve(directory);
+  const isIgnored = createIgnoreMatcher(root, options);
+  const maxFileSize = options.maxFileSize ?? DEFAULT_MAX_FILE_SIZE;
+  const result: DiscoveryResult = { files: [], excluded: [] };
+  // Real paths of directories entered, so symlinks can't loop
+  const visited = new Set<string>();
+
+  const traverse = (currentPath: string) => {
+    const realPath = fs.realpathSync(currentPath);
+    if (visited.has(realPath)) return;
+    visited.add(realPath);
+
+    for (const entry of fs.readdirSync(currentPath, { withFileTypes: true })) {
+      const fullPath = path.join(currentPath, entry.name);
+      const relativePath = path.relative(process.cwd(), fullPath);
+      let stats = fs.lstatSync(fullPath);
+
+      if (stats.isSymbolicLink()) {
+        if (!options.followSymlinks) {
+          if (!isIgnored(fullPath, false) && matchesFileFilters(root, fullPath, options)) {
+            result.excluded.push({ filePath: relativePath, reason: 'symlink' });
+          }
+          continue;
+        }
+        try {
+          stats = fs.statSync(fullPath);
+        } catch {
+          // Dangling link
+          continue;
+        }
+      }
+
+      if (isIgnored(fullPath, stats.isDirectory())) {
+        continue;
+      }
+
+      if (stats.isDirectory()) {
+        traverse(fullPath);
+        continue;
+      }
+
+      if (!stats.isFile() || !matchesFileFilters(root, fullPath, options)) {
+        continue;
+      }
+
+      const reason = checkContent(fullPath, stats.size, maxFileSize);
+      if (reason) {
+        result.excluded.push({ filePath: relativePath, reason });
+      } else {
+        result.files.push(fullPath);
+      }
+    }
+  };
+
+  traverse(root);
+  return result;
+}
@@ -0,0 +1,192 @@
+import { VectorStore } from './vectorstore';
+import { openIndex, buildFileChunks, catchEmbeddingFailure, createIndexPipeline, forEachConcurrent, IndexFailure } from './indexer';
+import { hashContent } from './chunker';
+import { RagError } from './errors';
+import { DocumentInput, DocumentSource } from './types';
+
+/** Documents chunked and embedded at a time; their embedding requests share one pipeline */
+const DOCUMENT_CONCURRENCY = 8;
+
+const SOURCE_NAMES: Record<DocumentSource, string> = {
+  file: 'disk',
+  api: 'the API',
+  build: 'a Next.js build',
+};
+
+export interface DocumentOptions {
+  /** Collection the documents belong to (default: 'default') */
+  collection?: string;
+}
+
+export interface UpsertResult {
+  documentsUpserted: number;
+  /** Documents whose text and metadata were already indexed as-is */
+  documentsUnchanged: number;
+  chunksCreated: number;
+  embeddingsReused: number;
+  /**
+   * Documents left as they were because some chunks couldn't be embedded,
+   * even after retries; `filePath` is the document ID. Upsert them again to retry.
+   */
+  failures: IndexFailure[];
+}
+
+export interface DeleteResult {
+  documentsDeleted: number;
+  /** IDs with no document added through the API */
+  notFound: string[];
+}
+
+/**
+ * Check documents from an untrusted source, e.g. a CMS webhook
+ */
+function validateDocuments(documents: DocumentInput[]): void {
+  if (!Array.isArray(documents)) {
+    throw new RagError('invalid_request', 'documents must be an array');
+  }
+
+  const ids = new Set<string>();
+
+  for (const document of documents) {
+    if (typeof document?.id !== 'string' || !document.id.trim()) {
+      throw new RagError('invalid_request', 'Every document needs a non-empty string id');
+    }
+    if (typeof document.text !== 'string') {
+      throw new RagError('invalid_request', `Document "${document.id}" needs a string text`);
+    }
+    if (document.metadata !== undefined && (typeof document.metadata !== 'object' || document.metadata === null)) {
+      throw new RagError('invalid_request', `Metadata of document "${document.id}" must be an object`);
+    }
+    if (ids.has(document.id)) {
+      throw new RagError('invalid_request', `Document "${document.id}" appears more than once`);
+    }
+    ids.add(document.id);
+  }
+}
+
+/**
+ * Write documents from one source into the index by ID, skipping those that
+ * haven't changed. With `prune`, documents of the source that aren't in the
+ * list are removed, e.g. pages that are gone from a new build.
+ * @param raw - Whether the text is the document itself, so chunk lines point into it
+ */
+export async function writeDocuments(
+  documents: DocumentInput[],
+  source: Exclude<DocumentSource, 'file'>,
+  options: DocumentOptions & { raw?: boolean; prune?: boolean } = {}
+): Promise<UpsertResult & { documentsRemoved: number }> {
+  validateDocuments(documents);
+
+  const { vectorStore, config } = openIndex(options.collection);
+
+  const result = {
+    documentsUpserted: 0,
+    documentsUnchanged: 0,
+    documentsRemoved: 0,
+    chunksCreated: 0,
+    embeddingsReused: 0,
+    failures: [] as IndexFailure[],
+  };
+
+  try {
+    // Check every ID before changing anything
+    for (const document of documents) {
+      const owner = vectorStore.getFileRecord(document.id)?.source;
+      if (owner && owner !== source) {
+        throw new RagError('invalid_request', `"${document.id}" is already indexed from ${SOURCE_NAMES[owner]}; use another document ID`);
+      }
+    }
+
+    const pipeline = createIndexPipeline(config, vectorStore);
+
+    await forEachConcurrent(documents, DOCUMENT_CONCURRENCY, async document => {
+      const contentHash = hashContent(JSON.stringify([document.text, document.metadata ?? null, document.format ?? null]));
+
+      if (vectorStore.getFileRecord(document.id)?.contentHash === contentHash) {
+        result.documentsUnchanged++;
+        return;
+      }
+
+      const built = await catchEmbeddingFailure(document.id, result.failures, () => buildFileChunks(
+        document.id,
+        { content: document.text, metadata: document.metadata, format: document.format, raw: options.raw ?? true },
+        config,
+        vectorStore,
+        pipeline
+      ));
+      if (!built) return;
+
+      const { chunks, embeddingsReused } = built;
+
+      vectorStore.replaceFileChunks({
+        filePath: document.id,
+        contentHash,
+        size: Buffer.byteLength(document.text),
+        mtime: Date.now(),
+        chunkCount: chunks.length,
+        source,
+      }, chunks);
+
+      result.documentsUpserted++;
+      result.chunksCreated += chunks.length;
+      result.embeddingsReused += embeddingsReused;
+    });
+
+    if (result.failures.length === 0) {
+      vectorStore.clearEmbeddingCheckpoints();
+    }
+
+    if (options.prune) {
+      const ids = new Set(documents.map(document => document.id));
+      for (const id of vectorStore.getAllFiles(source)) {
+        if (!ids.has(id)) {
+          vectorStore.deleteChunksByFile(id);
+          result.documentsRemoved++;
+        }
+      }
+    }
+  } finally {
+    vectorStore.close();
+  }
+
+  return result;
+}
+
+/**
+ * Add or replace documents that don't live on disk, by ID. They go through
+ * the same chunking, embedding and storage as files, and directory indexing
+ * never removes them. Documents that haven't changed are skipped.
+ */
+export async function upsertDocuments(documents: DocumentInput[], options: DocumentOptions = {}): Promise<UpsertResult> {
+  const { documentsRemoved, ...result } = await writeDocuments(documents, 'api', options);
+  return result;
+}
+
+/**
+ * Remove documents added with upsertDocuments, by ID. Files indexed from
+ * disk are left alone; they are removed by re-indexing once deleted.
+ */
+export function deleteDocuments(ids: string[], options: DocumentOptions = {}): DeleteResult {
+  if (!Array.isArray(ids) || !ids.every(id => typeof id === 'string')) {
+    throw new RagError('invalid_request', 'ids must be an array of strings');
+  }
+
+  const vectorStore = new VectorStore(undefined, undefined, options.collection);
+  const result: DeleteResult = { documentsDeleted: 0, notFound: [] };
+
+  try {
+    for (const id of new Set(ids)) {
+      if (vectorStore.getFileRecord(id)?.source !== 'api') {
+        result.notFound.push(id);
+        continue;
+      }
+
+      vectorStore.deleteChunksByFile(id);
+      result.documentsDeleted++;
+    }
+  } finally {
+    vectorStore.close();
+  }
+
+  return result;
+}
@@ -0,0 +1,257 @@
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import { AddressInfo } from 'net';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { createEmbeddingProvider, EmbeddingPipeline, EmbeddingPipelineOptions, LocalEmbeddingProvider, OpenAIEmbeddingProvider } from './embedder';
+import { configure, getConfig } from './config';
+import { indexDocuments } from './indexer';
+import { countTokens } from './tokenizer';
+
+function cosine(a: Float32Array, b: Float32Array): number {
+  return a.reduce((total, value, idx) => total + value * b[idx], 0);
+}
+
+describe('LocalEmbeddingProvider', () => {
+  it('returns normalized vectors of the configured dimension', async () => {
+    const provider = new LocalEmbeddingProvider({ dimension: 64 });
+    const [vector] = await provider.embed(['Deploying a Next.js app']);
+
+    expect(vector).toHaveLength(64);
+    expect(cosine(vector, vector)).toBeCloseTo(1, 5);
+  });
+
+  it('is deterministic', async () => {
+    const provider = new LocalEmbeddingProvider();
+    const [first] = await provider.embed(['route handlers']);
+    const [second] = await new LocalEmbeddingProvider().embed(['route handlers']);
+
+    expect(Array.from(first)).toEqual(Array.from(second));
+  });
+
+  it('puts texts sharing words closer together', async () => {
+    const provider = new LocalEmbeddingProvider();
+    const [query, related, unrelated] = await provider.embed([
+      'cache revalidation',
+      'How revalidation of the cache works',
+      'Styling buttons with CSS modules',
+    ]);
+
+    expect(cosine(query, related)).toBeGreaterThan(cosine(query, unrelated));
+  });
+});
+
+describe('createEmbeddingProvider', () => {
+  it('creates the local provider with its default model', () => {
+    const provider = createEmbeddingProvider({ ...getConfig(), embeddingProvider: 'local', embeddingModel: 'local-hash-v1' });
+
+    expect(provider.name).toBe('local');
+    expect(provider.model).toBe('local-hash-v1');
+  });
+
+  it('requires a base URL for the openai-compatible provider', () => {
+    expect(() => createEmbeddingProvider({ ...getConfig(), embeddingProvider: 'openai-compatible', embeddingModel: 'nomic-embed-text' }))
+      .toThrow(/embeddingBaseUrl is required/);
+  });
+
+  it('returns custom providers as they are', () => {
+    const custom = { name: 'custom', model: 'm', dimension: 3, embed: async (texts: string[]) => texts.map(() => new Float32Array(3)) };
+
+    expect(createEmbeddingProvider({ ...getConfig(), embeddingProvider: custom })).toBe(custom);
+  });
+});
+
+/** How the fake server answers a request: 200 with embeddings unless a status is given */
+interface FakeResponse {
+  status?: number;
+  headers?: Record<string, string>;
+  delay?: number;
+}
+
+describe('EmbeddingPipeline', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let requests: Array<{ input: string[]; at: number }>;
+  let inFlight: number;
+  let maxInFlight: number;
+  let respond: (input: string[], attempt: number) => FakeResponse;
+
+  // Each text embeds to [its length, 0, 1]
+  const vector = (text: string) => [text.length, 0, 1];
+
+  // A minimal OpenAI-compatible embeddings endpoint
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', data => (body += data));
+      req.on('end', () => {
+        const { input, encoding_format } = JSON.parse(body) as { input: string[]; encoding_format?: string };
+        requests.push({ input, at: Date.now() });
+        maxInFlight = Math.max(maxInFlight, ++inFlight);
+        const { status = 200, headers = {}, delay = 0 } = respond(input, requests.length);
+
+        setTimeout(() => {
+          inFlight--;
+          res.writeHead(status, { 'content-type': 'application/json', ...headers });
+          if (status !== 200) {
+            res.end(JSON.stringify({ error: { message: `Fake error ${status}`, type: 'invalid_request_error' } }));
+            return;
+          }
+          res.end(JSON.stringify({
+            object: 'list',
+            model: 'fake-embed',
+            data: input.map((text, index) => ({
+              object: 'embedding',
+              index,
+              embedding: encoding_format === 'base64'
+                ? Buffer.from(new Float32Array(vector(text)).buffer).toString('base64')
+                : vector(text),
+            })),
+            usage: { prompt_tokens: 0, total_tokens: 0 },
+          }));
+        }, delay);
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests = [];
+    inFlight = 0;
+    maxInFlight = 0;
+    respond = () => ({});
+  });
+
+  const pipeline = (options: EmbeddingPipelineOptions = {}) =>
+    new EmbeddingPipeline(new OpenAIEmbeddingProvider({ model: 'fake-embed', baseURL: baseUrl, dimension: 3 }), {
+      concurrency: 4,
+      batchSize: 100,
+      batchTokens: 100000,
+      maxRetries: 0,
+      ...options,
+    });
+
+  it('packs inputs into batches by count and by tokens', async () => {
+    const texts = ['app router', 'pages router', 'server actions', 'route handlers', 'middleware'];
+    const results = await pipeline({ batchSize: 2, concurrency: 1 }).embed(texts);
+
+    expect(results.map(result => Array.from(result as Float32Array))).toEqual(texts.map(vector));
+    expect(requests.map(request => request.input)).toEqual([texts.slice(0, 2), texts.slice(2, 4), texts.slice(4)]);
+
+    requests = [];
+    const words = ['one', 'two', 'three', 'four'];
+    await pipeline({ batchTokens: countTokens('one') * 2, concurrency: 1 }).embed(words);
+
+    expect(requests.map(request => request.input)).toEqual([['one', 'two'], ['three', 'four']]);
+  });
+
+  it('shares batches between callers queuing inputs at once', async () => {
+    const embedder = pipeline();
+    const [first, second] = await Promise.all([embedder.embed(['a', 'b']), embedder.embed(['cc'])]);
+
+    expect(requests).toHaveLength(1);
+    expect(Array.from(second[0] as Float32Array)).toEqual(vector('cc'));
+    expect(first).toHaveLength(2);
+  });
+
+  it('keeps at most `concurrency` requests in flight', async () => {
+    respond = () => ({ delay: 30 });
+    const results = await pipeline({ batchSize: 1, concurrency: 2 }).embed(['a', 'b', 'c', 'd', 'e', 'f']);
+
+    expect(requests).toHaveLength(6);
+    expect(maxInFlight).toBe(2);
+    expect(results.every(result => result instanceof Float32Array)).toBe(true);
+  });
+
+  it('retries a rate limited request after the time Retry-After asks for', async () => {
+    respond = (_input, attempt) => (attempt === 1 ? { status: 429, headers: { 'retry-after': '0.3' } } : {});
+    const [result] = await pipeline({ maxRetries: 2 }).embed(['cache tags']);
+
+    expect(Array.from(result as Float32Array)).toEqual(vector('cache tags'));
+    expect(requests).toHaveLength(2);
+    expect(requests[1].at - requests[0].at).toBeGreaterThanOrEqual(290);
+  });
+
+  it('retries server errors with backoff', async () => {
+    respond = (_input, attempt) => (attempt === 1 ? { status: 503 } : {});
+    const [result] = await pipeline({ maxRetries: 2 }).embed(['streaming']);
+
+    expect(result).toBeInstanceOf(Float32Array);
+    expect(requests).toHaveLength(2);
+  });
+
+  it('fails only the inputs of a request that runs out of retries', async () => {
+    respond = input => (input.includes('down') ? { status: 500 } : {});
+    const [up, down] = await pipeline({ batchSize: 1, maxRetries: 1 }).embed(['up', 'down']);
+
+    expect(up).toBeInstanceOf(Float32Array);
+    expect(down).toBeInstanceOf(Error);
+    expect((down as Error & { status: number }).status).toBe(500);
+    expect(requests.filter(request => request.input.includes('down'))).toHaveLength(2);
+  });
+
+  it.each([400, 413, 422])('splits a batch rejected with %i until the bad input fails alone', async status => {
+    respond = input => (input.includes('bad') ? { status } : {});
+    const results = await pipeline().embed(['a', 'bad', 'c', 'd']);
+
+    expect(results.map(result => result instanceof Error)).toEqual([false, true, false, false]);
+    expect(requests.map(request => request.input)).toEqual([['a', 'bad', 'c', 'd'], ['a', 'bad'], ['a'], ['bad'], ['c', 'd']]);
+  });
+
+  it('rejects every pending call after an error retrying cannot fix', async () => {
+    respond = () => ({ status: 401 });
+    const embedder = pipeline({ maxRetries: 3 });
+
+    await expect(embedder.embed(['a'])).rejects.toMatchObject({ status: 401 });
+    await expect(embedder.embed(['b'])).rejects.toMatchObject({ status: 401 });
+    expect(requests).toHaveLength(1);
+  });
+
+  describe('when indexing', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'nextjs-rag-'));
+      fs.mkdirSync(path.join(dir, 'docs'));
+      fs.writeFileSync(path.join(dir, 'docs', 'guide.txt'), `${'Layouts wrap pages. '.repeat(5)}\n\n${'Rejected text here. '.repeat(4)}`);
+      configure({
+        embeddingProvider: 'openai-compatible',
+        embeddingBaseUrl: baseUrl,
+        embeddingModel: 'fake-embed',
+        embeddingDimension: 3,
+        embeddingMaxRetries: 0,
+        chunkUnit: 'chars',
+        chunkSize: 100,
+        chunkOverlap: 0,
+        dbPath: path.join(dir, 'index.db'),
+      });
+    });
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('resumes from the embeddings checkpointed by a failed run', async () => {
+      respond = input => (input.some(text => text.includes('Rejected')) ? { status: 400 } : {});
+      const failed = await indexDocuments({ directory: path.join(dir, 'docs') });
+
+      expect(failed.failures.map(failure => failure.chunkIndexes)).toEqual([[1]]);
+      expect(failed.chunksCreated).toBe(0);
+
+      requests = [];
+      respond = () => ({});
+      const resumed = await indexDocuments({ directory: path.join(dir, 'docs') });
+
+      expect(resumed.failures).toEqual([]);
+      expect(resumed.chunksCreated).toBe(2);
+      expect(resumed.embeddingsReused).toBe(1);
+      expect(requests.flatMap(request => request.input)).toEqual([expect.stringContaining('Rejected')]);
+    });
+  });
+});
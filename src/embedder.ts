@@ -1,63 +1,590 @@
 import OpenAI from 'openai';
 import { getConfig } from './config';
+import { EmbeddingProvider, ResolvedRagConfig } from './types';
+import { countTokens, getMaxInputTokens, truncateToTokens } from './tokenizer';
+import { EmbeddingError } from './errors';
 
-let openaiClient: OpenAI | null = null;
+/**
+ * Known dimensions for OpenAI and popular self-hosted embedding models
+ */
+const MODEL_DIMENSIONS: Record<string, number> = {
+  'text-embedding-3-small': 1536,
+  'text-embedding-3-large': 3072,
+  'text-embedding-ada-002': 1536,
+  'nomic-embed-text': 768,
+  'mxbai-embed-large': 1024,
+  'all-minilm': 384,
+  'bge-m3': 1024,
+  'snowflake-arctic-embed': 1024,
+};
 
-function getOpenAIClient(): OpenAI {
-  if (!openaiClient) {
-    const config = getConfig();
-    openaiClient = new OpenAI({ apiKey: config.apiKey });
-  }
-  return openaiClient;
-}
+const LOCAL_DEFAULT_DIMENSION = 384;
 
 /**
  * Get embedding dimension for a model
  */
 export function getEmbeddingDimension(model: string): number {
-  switch (model) {
-    case 'text-embedding-3-small':
-      return 1536;
-    case 'text-embedding-3-large':
-      return 3072;
-    case 'text-embedding-ada-002':
-      return 1536;
+  return lookupDimension(model) ?? 1536;
+}
+
+function lookupDimension(model: string): number | undefined {
+  // Ollama-style tags (nomic-embed-text:latest) share the base model's dimension
+  return MODEL_DIMENSIONS[model] ?? MODEL_DIMENSIONS[model.split(':')[0]];
+}
+
+export interface OpenAIEmbeddingProviderOptions {
+  model: string;
+  apiKey?: string;
+  /** Base URL of an OpenAI-compatible server (Ollama, LM Studio, vLLM) */
+  baseURL?: string;
+  /** Vector dimension; required for models missing from the known list */
+  dimension?: number;
+}
+
+/**
+ * Embeds texts through the OpenAI embeddings API or any server that speaks it
+ */
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly name: string;
+  readonly model: string;
+  readonly dimension: number;
+  readonly maxInputTokens?: number;
+  private client: OpenAI | null = null;
+  private apiKey: string;
+  private baseURL?: string;
+  private requestDimensions?: number;
+
+  constructor(options: OpenAIEmbeddingProviderOptions) {
+    this.name = options.baseURL ? 'openai-compatible' : 'openai';
+    this.apiKey = options.apiKey || '';
+    this.baseURL = options.baseURL;
+
+    if (!options.model) {
+      throw new Error(`An embedding model is required for the ${this.name} provider. Set embeddingModel in config.`);
+    }
+    this.model = options.model;
+    this.maxInputTokens = getMaxInputTokens(options.model);
+
+    const knownDimension = lookupDimension(options.model);
+    const dimension = options.dimension || knownDimension;
+    if (!dimension) {
+      throw new Error(`Unknown dimension for embedding model "${options.model}". Set embeddingDimension in config.`);
+    }
+    this.dimension = dimension;
+
+    // text-embedding-3 models can shorten their output natively
+    if (options.dimension && options.dimension !== knownDimension && options.model.startsWith('text-embedding-3')) {
+      this.requestDimensions = options.dimension;
+    }
+  }
+
+  private getClient(): OpenAI {
+    if (!this.client) {
+      if (!this.apiKey && !this.baseURL) {
+        throw new Error('OpenAI API key not found. Set OPENAI_API_KEY environment variable or pass apiKey in config.');
+      }
+      // Self-hosted servers usually ignore the key, but the client requires one
+      this.client = new OpenAI({
+        apiKey: this.apiKey || 'not-needed',
+        baseURL: this.baseURL,
+        // EmbeddingPipeline retries, honoring Retry-After
+        maxRetries: 0,
+      });
+    }
+    return this.client;
+  }
+
+  async embed(texts: string[]): Promise<Float32Array[]> {
+    const response = await this.getClient().embeddings.create({
+      model: this.model,
+      input: texts,
+      ...(this.requestDimensions ? { dimensions: this.requestDimensions } : {}),
+    });
+
+    // Responses are not guaranteed to be ordered by input index
+    return response.data
+      .sort((a, b) => a.index - b.index)
+      .map(item => new Float32Array(item.embedding));
+  }
+}
+
+/**
+ * Deterministic, offline embeddings built from hashed word and character
+ * trigram features. Retrieval quality is well below a trained model, but
+ * it needs no network, so CI and air-gapped machines can build and query indexes.
+ */
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'local';
+  readonly model: string;
+  readonly dimension: number;
+
+  constructor(options: { model?: string; dimension?: number } = {}) {
+    this.model = options.model || 'local-hash-v1';
+    this.dimension = options.dimension || LOCAL_DEFAULT_DIMENSION;
+  }
+
+  async embed(texts: string[]): Promise<Float32Array[]> {
+    return texts.map(text => this.embedOne(text));
+  }
+
+  private embedOne(text: string): Float32Array {
+    const vector = new Float32Array(this.dimension);
+
+    for (const word of tokenizeWords(text)) {
+      this.addFeature(vector, `w:${word}`, 1);
+
+      const padded = `^${word}$`;
+      for (let i = 0; i + 3 <= padded.length; i++) {
+        this.addFeature(vector, `t:${padded.slice(i, i + 3)}`, 0.5);
+      }
+    }
+
+    let norm = 0;
+    for (let i = 0; i < vector.length; i++) {
+      norm += vector[i] * vector[i];
+    }
+    norm = Math.sqrt(norm);
+
+    if (norm > 0) {
+      for (let i = 0; i < vector.length; i++) {
+        vector[i] /= norm;
+      }
+    }
+
+    return vector;
+  }
+
+  private addFeature(vector: Float32Array, feature: string, weight: number): void {
+    const hash = fnv1a(feature);
+    // Signed hashing keeps collisions from always adding up
+    const sign = hash & 0x80000000 ? -1 : 1;
+    vector[hash % this.dimension] += sign * weight;
+  }
+}
+
+/**
+ * Lowercased word tokens, with camelCase and snake_case identifiers
+ * also contributing their parts
+ */
+function tokenizeWords(text: string): string[] {
+  const words: string[] = [];
+
+  for (const match of text.matchAll(/[\p{L}\p{N}_]+/gu)) {
+    const token = match[0];
+    words.push(token.toLowerCase());
+
+    const parts = token
+      .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+      .split(/[\s_]+/)
+      .filter(Boolean);
+
+    if (parts.length > 1) {
+      words.push(...parts.map(part => part.toLowerCase()));
+    }
+  }
+
+  return words;
+}
+
+function fnv1a(input: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Create an embedding provider from config
+ */
+export function createEmbeddingProvider(config: ResolvedRagConfig = getConfig()): EmbeddingProvider {
+  const provider = config.embeddingProvider;
+
+  if (typeof provider === 'object') {
+    return provider;
+  }
+
+  switch (provider) {
+    case 'openai':
+      return new OpenAIEmbeddingProvider({
+        apiKey: config.apiKey,
+        model: config.embeddingModel,
+        dimension: config.embeddingDimension,
+      });
+    case 'openai-compatible':
+      if (!config.embeddingBaseUrl) {
+        throw new Error('embeddingBaseUrl is required for the openai-compatible provider (e.g. http://localhost:11434/v1).');
+      }
+      return new OpenAIEmbeddingProvider({
+        apiKey: config.apiKey,
+        model: config.embeddingModel,
+        baseURL: config.embeddingBaseUrl,
+        dimension: config.embeddingDimension,
+      });
+    case 'local':
+      return new LocalEmbeddingProvider({
+        model: config.embeddingModel,
+        dimension: config.embeddingDimension,
+      });
     default:
-      return 1536;
+      throw new Error(`Unknown embedding provider: ${provider}`);
+  }
+}
+
+let cachedProvider: { key: string; provider: EmbeddingProvider } | null = null;
+
+/**
+ * Get the embedding provider for the current config, reusing the previous
+ * instance (and its HTTP client) while the config is unchanged
+ */
+export function getEmbeddingProvider(config: ResolvedRagConfig = getConfig()): EmbeddingProvider {
+  if (typeof config.embeddingProvider === 'object') {
+    return config.embeddingProvider;
+  }
+
+  const key = JSON.stringify([
+    config.embeddingProvider,
+    config.embeddingModel,
+    config.embeddingBaseUrl,
+    config.embeddingDimension,
+    config.apiKey,
+  ]);
+
+  if (!cachedProvider || cachedProvider.key !== key) {
+    cachedProvider = { key, provider: createEmbeddingProvider(config) };
   }
+  return cachedProvider.provider;
+}
+
+/**
+ * USD per million input tokens of hosted embedding models, for cost estimates
+ */
+const EMBEDDING_PRICES: Record<string, number> = {
+  'text-embedding-3-small': 0.02,
+  'text-embedding-3-large': 0.13,
+  'text-embedding-ada-002': 0.1,
+};
+
+/**
+ * Estimate what embedding a number of tokens costs in USD. Undefined for
+ * models without a known price, such as self-hosted ones.
+ */
+export function estimateEmbeddingCost(model: string, tokens: number): number | undefined {
+  const price = EMBEDDING_PRICES[model];
+  return price !== undefined ? (tokens / 1000000) * price : undefined;
+}
+
+/** Statuses worth retrying: timeouts, conflicts, rate limits and server errors */
+const RETRYABLE_STATUSES = [408, 409, 429];
+
+/** Statuses caused by the inputs themselves, e.g. one that is too long */
+const INPUT_ERROR_STATUSES = [400, 413, 422];
+
+const NETWORK_ERROR_CODES = ['ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'EPIPE', 'EAI_AGAIN', 'UND_ERR_SOCKET'];
+
+/** First retry delay; doubled on each further retry */
+const RETRY_BASE_DELAY_MS = 500;
+const RETRY_MAX_DELAY_MS = 60000;
+
+export interface EmbeddingPipelineOptions {
+  /** Requests in flight at once (default: embeddingConcurrency from config) */
+  concurrency?: number;
+  /** Max inputs per request (default: embeddingBatchSize from config) */
+  batchSize?: number;
+  /** Max tokens per request (default: embeddingBatchTokens from config) */
+  batchTokens?: number;
+  /** Retries of a request that failed with a rate limit, server or network error (default: embeddingMaxRetries from config) */
+  maxRetries?: number;
+  /**
+   * Called with each batch as soon as it is embedded, e.g. to checkpoint it.
+   * Texts are as passed to embed(); tokens is the number sent, counted with cl100k_base.
+   */
+  onEmbedded?: (texts: string[], embeddings: Float32Array[], tokens: number) => void;
+}
+
+interface QueuedInput {
+  /** Text as passed to embed() */
+  input: string;
+  /** Text sent to the provider, truncated to its limit */
+  text: string;
+  tokens: number;
+  resolve: (result: Float32Array | Error) => void;
+  reject: (error: Error) => void;
+}
+
+function errorStatus(error: unknown): number | undefined {
+  const status = (error as { status?: unknown })?.status;
+  return typeof status === 'number' ? status : undefined;
+}
+
+function isRetryable(error: unknown): boolean {
+  const status = errorStatus(error);
+  if (status !== undefined) {
+    return RETRYABLE_STATUSES.includes(status) || status >= 500;
+  }
+
+  // Connection failures of the OpenAI client and of fetch
+  const { name, code, cause } = error as { name?: string; code?: string; cause?: { code?: string } };
+  return name === 'APIConnectionError' || name === 'APIConnectionTimeoutError' ||
+    NETWORK_ERROR_CODES.includes(code || '') || NETWORK_ERROR_CODES.includes(cause?.code || '');
+}
+
+/**
+ * Milliseconds the server asked to wait, from Retry-After or OpenAI's
+ * retry-after-ms header
+ */
+function retryAfterMs(error: unknown): number | undefined {
+  const headers = (error as { headers?: unknown })?.headers;
+  if (!headers || typeof headers !== 'object') {
+    return undefined;
+  }
+
+  const header = (name: string): string | undefined => {
+    const value = typeof (headers as Headers).get === 'function'
+      ? (headers as Headers).get(name)
+      : (headers as Record<string, string | undefined>)[name];
+    return value ?? undefined;
+  };
+
+  const ms = Number(header('retry-after-ms'));
+  if (header('retry-after-ms') && Number.isFinite(ms)) {
+    return ms;
+  }
+
+  const retryAfter = header('retry-after');
+  if (!retryAfter) {
+    return undefined;
+  }
+  // Seconds, or an HTTP date
+  const seconds = Number(retryAfter);
+  return Number.isFinite(seconds) ? seconds * 1000 : Math.max(Date.parse(retryAfter) - Date.now(), 0) || undefined;
+}
+
+function retryDelay(error: unknown, attempt: number): number {
+  const requested = retryAfterMs(error);
+  if (requested !== undefined) {
+    return Math.min(requested, RETRY_MAX_DELAY_MS);
+  }
+  // Exponential backoff with jitter, so parallel requests don't retry in lockstep
+  const backoff = Math.min(RETRY_BASE_DELAY_MS * 2 ** attempt, RETRY_MAX_DELAY_MS);
+  return backoff / 2 + Math.random() * (backoff / 2);
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Embeds texts for any number of callers through one queue: inputs are
+ * packed into batches by count and tokens, up to `concurrency` requests run
+ * at once, and failed requests are retried with exponential backoff that
+ * honors Retry-After. A batch rejected because of its inputs is split until
+ * the offending inputs are isolated, so one bad input fails alone.
+ *
+ * Authentication and other errors that retrying can't fix reject every
+ * pending call.
+ */
+export class EmbeddingPipeline {
+  private readonly provider: EmbeddingProvider;
+  private readonly concurrency: number;
+  private readonly batchSize: number;
+  private readonly batchTokens: number;
+  private readonly maxRetries: number;
+  private readonly onEmbedded?: EmbeddingPipelineOptions['onEmbedded'];
+  private queue: QueuedInput[] = [];
+  private inFlight = new Set<QueuedInput[]>();
+  private scheduled = false;
+  private fatal?: Error;
+
+  constructor(provider: EmbeddingProvider, options: EmbeddingPipelineOptions = {}, config: ResolvedRagConfig = getConfig()) {
+    this.provider = provider;
+    this.concurrency = Math.max(options.concurrency ?? config.embeddingConcurrency, 1);
+    this.batchSize = Math.max(options.batchSize ?? config.embeddingBatchSize, 1);
+    this.batchTokens = Math.max(options.batchTokens ?? config.embeddingBatchTokens, 1);
+    this.maxRetries = Math.max(options.maxRetries ?? config.embeddingMaxRetries, 0);
+    this.onEmbedded = options.onEmbedded;
+  }
+
+  /**
+   * Embed texts, settling each one separately: its vector, or the error it
+   * failed with after retries. Inputs over the model's token limit are
+   * truncated so they never reach the API.
+   */
+  embed(texts: string[]): Promise<Array<Float32Array | Error>> {
+    if (this.fatal) {
+      return Promise.reject(this.fatal);
+    }
+    if (texts.length === 0) {
+      return Promise.resolve([]);
+    }
+
+    const { maxInputTokens } = this.provider;
+
+    return new Promise((resolve, reject) => {
+      const results: Array<Float32Array | Error> = new Array(texts.length);
+      let remaining = texts.length;
+
+      texts.forEach((input, idx) => {
+        let text = input;
+        let tokens = countTokens(text);
+        if (maxInputTokens && tokens > maxInputTokens) {
+          text = truncateToTokens(text, maxInputTokens);
+          tokens = maxInputTokens;
+        }
+
+        this.queue.push({
+          input,
+          text,
+          tokens,
+          resolve: result => {
+            results[idx] = result;
+            if (--remaining === 0) resolve(results);
+          },
+          reject,
+        });
+      });
+
+      this.schedule();
+    });
+  }
+
+  /**
+   * Dispatch on the next turn of the event loop, so inputs queued by
+   * several callers at once share batches
+   */
+  private schedule(): void {
+    if (this.scheduled) return;
+    this.scheduled = true;
+    setImmediate(() => {
+      this.scheduled = false;
+      this.dispatch();
+    });
+  }
+
+  private dispatch(): void {
+    while (!this.fatal && this.inFlight.size < this.concurrency && this.queue.length > 0) {
+      const batch = this.takeBatch();
+      this.inFlight.add(batch);
+      this.send(batch)
+        .catch(error => this.fail(error))
+        .finally(() => {
+          this.inFlight.delete(batch);
+          this.dispatch();
+        });
+    }
+  }
+
+  private takeBatch(): QueuedInput[] {
+    const batch: QueuedInput[] = [];
+    let tokens = 0;
+
+    while (this.queue.length > 0 && batch.length < this.batchSize) {
+      const next = this.queue[0];
+      if (batch.length > 0 && tokens + next.tokens > this.batchTokens) break;
+      batch.push(this.queue.shift()!);
+      tokens += next.tokens;
+    }
+
+    return batch;
+  }
+
+  private async send(batch: QueuedInput[]): Promise<void> {
+    const texts = batch.map(input => input.text);
+    let embeddings: Float32Array[];
+
+    try {
+      embeddings = await this.request(texts);
+    } catch (error) {
+      const status = errorStatus(error);
+
+      if (status !== undefined && INPUT_ERROR_STATUSES.includes(status)) {
+        if (batch.length === 1) {
+          batch[0].resolve(error as Error);
+          return;
+        }
+        // Split to find the inputs the server rejects
+        const middle = Math.ceil(batch.length / 2);
+        await this.send(batch.slice(0, middle));
+        await this.send(batch.slice(middle));
+        return;
+      }
+
+      if (isRetryable(error)) {
+        // Out of retries: fail these inputs, but keep going with the rest
+        batch.forEach(input => input.resolve(error as Error));
+        return;
+      }
+
+      throw error;
+    }
+
+    const tokens = batch.reduce((total, input) => total + input.tokens, 0);
+    this.onEmbedded?.(batch.map(input => input.input), embeddings, tokens);
+    batch.forEach((input, idx) => input.resolve(embeddings[idx]));
+  }
+
+  private async request(texts: string[]): Promise<Float32Array[]> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const embeddings = await this.provider.embed(texts);
+        if (embeddings.length !== texts.length) {
+          throw new Error(`Embedding provider ${this.provider.name} returned ${embeddings.length} embeddings for ${texts.length} inputs`);
+        }
+        return embeddings;
+      } catch (error) {
+        if (attempt >= this.maxRetries || !isRetryable(error) || this.fatal) {
+          throw error;
+        }
+        await sleep(retryDelay(error, attempt));
+      }
+    }
+  }
+
+  /**
+   * Reject every pending call after an error retrying can't fix
+   */
+  private fail(error: Error): void {
+    this.fatal = error;
+    for (const input of [...this.queue, ...[...this.inFlight].flat()]) {
+      input.reject(error);
+    }
+    this.queue = [];
+  }
+}
+
+/**
+ * Embed texts with a provider in batches, with retries. Inputs over the
+ * model's token limit are truncated so they never reach the API.
+ * @throws EmbeddingError if some inputs couldn't be embedded
+ */
+export async function embedTexts(
+  texts: string[],
+  provider: EmbeddingProvider,
+  options: EmbeddingPipelineOptions = {}
+): Promise<Float32Array[]> {
+  const results = await new EmbeddingPipeline(provider, options).embed(texts);
+  const failures = results.flatMap((result, index) => (result instanceof Error ? [{ index, error: result }] : []));
+
+  if (failures.length > 0) {
+    throw new EmbeddingError(
+      `Failed to embed ${failures.length} of ${texts.length} inputs: ${failures[0].error.message}`,
+      failures
+    );
+  }
+
+  return results as Float32Array[];
 }
 
 /**
  * Generate embeddings for an array of texts
- * Batches requests to stay within OpenAI's token limits
+ * Batches requests to stay within the provider's limits
  */
 export async function generateEmbeddings(
   texts: string[],
   model?: string
 ): Promise<Float32Array[]> {
   const config = getConfig();
-  const embeddingModel = model || config.embeddingModel;
-  const client = getOpenAIClient();
-  
-  // Batch size to stay under OpenAI's 300k token limit
-  // Assuming ~1000 chars per chunk and ~750 tokens per 1000 chars
-  const BATCH_SIZE = 100;
-  
-  const allEmbeddings: Float32Array[] = [];
-  
-  for (let i = 0; i < texts.length; i += BATCH_SIZE) {
-    const batch = texts.slice(i, i + BATCH_SIZE);
-    
-    const response = await client.embeddings.create({
-      model: embeddingModel,
-      input: batch,
-    });
-    
-    const batchEmbeddings = response.data.map(item => new Float32Array(item.embedding));
-    allEmbeddings.push(...batchEmbeddings);
-  }
-  
-  return allEmbeddings;
+  const provider = getEmbeddingProvider(model ? { ...config, embeddingModel: model } : config);
+  return embedTexts(texts, provider);
 }
 
 /**
@@ -70,4 +597,3 @@ export async function generateEmbedding(
   const embeddings = await generateEmbeddings([text], model);
   return embeddings[0];
 }
-
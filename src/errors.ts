@@ -0,0 +1,65 @@
+export type RagErrorCode =
+  | 'invalid_request'
+  | 'unauthorized'
+  | 'forbidden'
+  | 'not_found'
+  | 'method_not_allowed'
+  | 'internal_error';
+
+const DEFAULT_STATUS: Record<RagErrorCode, number> = {
+  invalid_request: 400,
+  unauthorized: 401,
+  forbidden: 403,
+  not_found: 404,
+  method_not_allowed: 405,
+  internal_error: 500,
+};
+
+/**
+ * Error with a machine-readable code and an HTTP status, so route handlers
+ * can report it to clients as-is
+ */
+export class RagError extends Error {
+  readonly code: RagErrorCode;
+  readonly status: number;
+
+  constructor(code: RagErrorCode, message: string, status: number = DEFAULT_STATUS[code]) {
+    super(message);
+    this.name = 'RagError';
+    this.code = code;
+    this.status = status;
+  }
+
+  toJSON(): { error: { code: RagErrorCode; message: string } } {
+    return { error: { code: this.code, message: this.message } };
+  }
+}
+
+/**
+ * Some inputs couldn't be embedded, even after retries. The others were
+ * embedded; `failures` holds the index of each failed input and why.
+ */
+export class EmbeddingError extends Error {
+  readonly failures: Array<{ index: number; error: Error }>;
+
+  constructor(message: string, failures: Array<{ index: number; error: Error }>) {
+    super(message);
+    this.name = 'EmbeddingError';
+    this.failures = failures;
+  }
+}
+
+/**
+ * A document loader couldn't extract the text of a file, e.g. a corrupt PDF
+ */
+export class LoaderError extends Error {
+  readonly loader: string;
+  readonly filePath: string;
+
+  constructor(loader: string, filePath: string, cause: Error) {
+    super(`Loader "${loader}" failed to load ${filePath}: ${cause.message}`);
+    this.name = 'LoaderError';
+    this.loader = loader;
+    this.filePath = filePath;
+  }
+}
@@ -0,0 +1,277 @@
+import * as fs from 'fs';
+import { queryRag, QueryOptions } from './query';
+import { VectorStore } from './vectorstore';
+import { getConfig, DEFAULT_COLLECTION } from './config';
+import { matchesGlob } from './glob';
+import { VERSION } from './version';
+import { ContextChunk, IndexInfo } from './types';
+
+/**
+ * A question with the files or passages that should be retrieved for it
+ */
+export interface EvalQuestion {
+  question: string;
+  /** Optional ID to recognize the question in reports */
+  id?: string;
+  /** Files that answer the question; paths as indexed, or globs */
+  files?: string[];
+  /** Text that should appear in a retrieved chunk, matched ignoring case and whitespace */
+  passages?: string[];
+}
+
+export interface EvalOptions extends QueryOptions {
+  /** Name of the run in reports, e.g. 'baseline' */
+  label?: string;
+  /** Called after each question, e.g. to show progress */
+  onQuestion?: (result: EvalQuestionResult, index: number) => void;
+}
+
+export interface EvalMetrics {
+  /** Share of expected files and passages found in the top K, averaged over questions */
+  recall: number;
+  /** Mean reciprocal rank of the first relevant result */
+  mrr: number;
+  /** Normalized discounted cumulative gain of the top K */
+  ndcg: number;
+  /** Share of questions with at least one relevant result */
+  hitRate: number;
+}
+
+export interface EvalQuestionResult {
+  question: string;
+  id?: string;
+  recall: number;
+  /** 1 / rank of the first relevant result; 0 if none was retrieved */
+  reciprocalRank: number;
+  ndcg: number;
+  /** Expected files and passages that weren't retrieved */
+  misses: string[];
+  retrieved: Array<{ rank: number; filePath: string; chunkId: number; relevant: boolean }>;
+}
+
+export interface EvalReport {
+  label?: string;
+  /** Number of results retrieved per question */
+  k: number;
+  createdAt: string;
+  libraryVersion: string;
+  /** Where and how the run searched */
+  settings: {
+    dbPath: string;
+    collection: string | string[];
+    mode: string;
+    /** Settings the first collection was built with */
+    index?: IndexInfo;
+    options: Record<string, unknown>;
+  };
+  metrics: EvalMetrics;
+  questions: EvalQuestionResult[];
+}
+
+export interface EvalComparison {
+  baseline: EvalReport;
+  candidate: EvalReport;
+  /** Candidate minus baseline, per metric */
+  delta: EvalMetrics;
+  /** Questions whose recall or reciprocal rank changed */
+  changed: Array<{ question: string; id?: string; baseline: EvalQuestionResult; candidate: EvalQuestionResult }>;
+}
+
+function normalizeText(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+function toList(value: unknown): string[] | undefined {
+  if (value === undefined) return undefined;
+  return (Array.isArray(value) ? value : [value]).map(String);
+}
+
+/**
+ * Read a golden question set: one JSON object per line with a `question`
+ * and the expected `files` and/or `passages`. Blank lines and lines starting
+ * with // are skipped.
+ */
+export function loadEvalQuestions(filePath: string): EvalQuestion[] {
+  const lines = fs.readFileSync(filePath, 'utf-8').split('\n');
+  const questions: EvalQuestion[] = [];
+
+  lines.forEach((line, idx) => {
+    if (!line.trim() || line.trim().startsWith('//')) return;
+
+    let entry: Record<string, unknown>;
+    try {
+      entry = JSON.parse(line);
+    } catch (error) {
+      throw new Error(`${filePath}:${idx + 1}: invalid JSON: ${(error as Error).message}`);
+    }
+
+    const question: EvalQuestion = {
+      question: String(entry.question ?? ''),
+      id: entry.id !== undefined ? String(entry.id) : undefined,
+      files: toList(entry.files ?? entry.file),
+      passages: toList(entry.passages ?? entry.passage),
+    };
+
+    if (!question.question.trim()) {
+      throw new Error(`${filePath}:${idx + 1}: "question" is required`);
+    }
+    if (!question.files?.length && !question.passages?.length) {
+      throw new Error(`${filePath}:${idx + 1}: expected "files" or "passages" to check the results against`);
+    }
+
+    questions.push(question);
+  });
+
+  return questions;
+}
+
+/**
+ * Targets a retrieved chunk satisfies, as indexes into the question's
+ * files followed by its passages
+ */
+function matchTargets(chunk: ContextChunk, question: EvalQuestion): number[] {
+  const files = question.files || [];
+  const content = normalizeText(chunk.content);
+  const matched: number[] = [];
+
+  files.forEach((file, idx) => {
+    if (chunk.filePath === file || matchesGlob(chunk.filePath, file)) matched.push(idx);
+  });
+  (question.passages || []).forEach((passage, idx) => {
+    if (content.includes(normalizeText(passage))) matched.push(files.length + idx);
+  });
+
+  return matched;
+}
+
+/**
+ * Score one question's results. A result is relevant if it satisfies an
+ * expected file or passage not satisfied by a higher-ranked result, so
+ * several chunks of one expected file count once.
+ */
+function scoreQuestion(question: EvalQuestion, chunks: ContextChunk[], k: number): EvalQuestionResult {
+  const targets = [...(question.files || []), ...(question.passages || [])];
+  const found = new Set<number>();
+  let dcg = 0;
+  let reciprocalRank = 0;
+
+  const retrieved = chunks.map((chunk, idx) => {
+    const matched = matchTargets(chunk, question);
+    const fresh = matched.filter(target => !found.has(target));
+    fresh.forEach(target => found.add(target));
+
+    if (matched.length > 0 && reciprocalRank === 0) {
+      reciprocalRank = 1 / (idx + 1);
+    }
+    if (fresh.length > 0) {
+      dcg += 1 / Math.log2(idx + 2);
+    }
+
+    return { rank: idx + 1, filePath: chunk.filePath, chunkId: chunk.id, relevant: matched.length > 0 };
+  });
+
+  let idealDcg = 0;
+  for (let rank = 1; rank <= Math.min(targets.length, k); rank++) {
+    idealDcg += 1 / Math.log2(rank + 1);
+  }
+
+  return {
+    question: question.question,
+    id: question.id,
+    recall: found.size / targets.length,
+    reciprocalRank,
+    ndcg: idealDcg > 0 ? dcg / idealDcg : 0,
+    misses: targets.filter((target, idx) => !found.has(idx)),
+    retrieved,
+  };
+}
+
+function average(results: EvalQuestionResult[], metric: (result: EvalQuestionResult) => number): number {
+  return results.length > 0 ? results.reduce((total, result) => total + metric(result), 0) / results.length : 0;
+}
+
+/**
+ * Query options worth recording in a report; functions such as custom
+ * rerankers are recorded by name
+ */
+function describeOptions(options: EvalOptions): Record<string, unknown> {
+  const described: Record<string, unknown> = {};
+
+  for (const [key, value] of Object.entries(options)) {
+    if (value === undefined || key === 'onQuestion' || key === 'label') continue;
+    described[key] = typeof value === 'object' && value !== null && 'name' in value && 'rerank' in value
+      ? (value as { name: string }).name
+      : value;
+  }
+
+  return described;
+}
+
+/**
+ * Run each question through queryRag and measure how well the expected
+ * files and passages are retrieved: recall@k, MRR and nDCG@k
+ */
+export async function evaluateRetrieval(questions: EvalQuestion[], options: EvalOptions = {}): Promise<EvalReport> {
+  const config = getConfig();
+  const k = options.topK || config.topK;
+  const dbPath = options.dbPath || config.dbPath;
+  const collection = options.collection ?? DEFAULT_COLLECTION;
+  const { label, onQuestion, ...queryOptions } = options;
+
+  const vectorStore = new VectorStore(dbPath, undefined, [collection].flat()[0]);
+  const index = vectorStore.getIndexInfo();
+  vectorStore.close();
+
+  const results: EvalQuestionResult[] = [];
+
+  for (const question of questions) {
+    const { context } = await queryRag(question.question, { ...queryOptions, topK: k });
+    const result = scoreQuestion(question, context, k);
+    results.push(result);
+    onQuestion?.(result, results.length - 1);
+  }
+
+  return {
+    label,
+    k,
+    createdAt: new Date().toISOString(),
+    libraryVersion: VERSION,
+    settings: {
+      dbPath,
+      collection,
+      mode: options.mode || config.searchMode,
+      index,
+      options: describeOptions(options),
+    },
+    metrics: {
+      recall: average(results, result => result.recall),
+      mrr: average(results, result => result.reciprocalRank),
+      ndcg: average(results, result => result.ndcg),
+      hitRate: average(results, result => (result.reciprocalRank > 0 ? 1 : 0)),
+    },
+    questions: results,
+  };
+}
+
+/**
+ * Compare two runs over the same questions, e.g. two index databases or
+ * two sets of query options
+ */
+export function compareEvalReports(baseline: EvalReport, candidate: EvalReport): EvalComparison {
+  const delta: EvalMetrics = {
+    recall: candidate.metrics.recall - baseline.metrics.recall,
+    mrr: candidate.metrics.mrr - baseline.metrics.mrr,
+    ndcg: candidate.metrics.ndcg - baseline.metrics.ndcg,
+    hitRate: candidate.metrics.hitRate - baseline.metrics.hitRate,
+  };
+
+  const changed = baseline.questions.flatMap((before, idx) => {
+    const after = candidate.questions[idx];
+    if (!after || (after.recall === before.recall && after.reciprocalRank === before.reciprocalRank)) {
+      return [];
+    }
+    return [{ question: before.question, id: before.id, baseline: before, candidate: after }];
+  });
+
+  return { baseline, candidate, delta, changed };
+}
@@ -0,0 +1,66 @@
+const globCache = new Map<string, RegExp>();
+
+/**
+ * Convert a glob pattern to a regular expression.
+ * Supports `**` (any number of path segments), `*`, `?`, `[abc]` and `{a,b}`.
+ */
+export function globToRegExp(pattern: string): RegExp {
+  const cached = globCache.get(pattern);
+  if (cached) {
+    return cached;
+  }
+
+  let source = '';
+  let braceDepth = 0;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+
+    if (char === '*') {
+      if (pattern[i + 1] === '*') {
+        // `**/` matches zero or more directories, a trailing `**` matches everything
+        if (pattern[i + 2] === '/') {
+          source += '(?:.*/)?';
+          i += 2;
+        } else {
+          source += '.*';
+          i += 1;
+        }
+      } else {
+        source += '[^/]*';
+      }
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '[') {
+      const end = pattern.indexOf(']', i + 1);
+      if (end === -1) {
+        source += '\\[';
+      } else {
+        const body = pattern.slice(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\');
+        source += `[${body}]`;
+        i = end;
+      }
+    } else if (char === '{') {
+      braceDepth++;
+      source += '(?:';
+    } else if (char === '}' && braceDepth > 0) {
+      braceDepth--;
+      source += ')';
+    } else if (char === ',' && braceDepth > 0) {
+      source += '|';
+    } else {
+      source += char.replace(/[.+^$()|\\\]{}]/g, '\\$&');
+    }
+  }
+
+  const regex = new RegExp(`^${source}$`);
+  globCache.set(pattern, regex);
+  return regex;
+}
+
+/**
+ * Test a path against a glob pattern, normalizing Windows separators
+ */
+export function matchesGlob(filePath: string, pattern: string): boolean {
+  return globToRegExp(pattern).test(filePath.replace(/\\/g, '/'));
+}
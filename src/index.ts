@@ -1,18 +1,94 @@
 // Main exports for the package
-export { configure, getConfig } from './config';
+export { configure, getConfig, loadConfig, getConfigFile, getConfigOrigin, describeConfig, DEFAULT_COLLECTION } from './config';
+export { defineConfig, findConfigFile } from './config-file';
 export { queryRag } from './query';
-export { indexDocuments, reindexDocuments } from './indexer';
+export { askRag, askRagStream, buildPrompt, extractCitations, DEFAULT_SYSTEM_PROMPT, DEFAULT_PROMPT_TEMPLATE } from './answer';
+export { OpenAIChatModel, getChatModel } from './chat';
+export { createRagRouteHandler } from './route';
+export { RagError, EmbeddingError, LoaderError } from './errors';
+export { HeuristicReranker, rerankResults } from './rerank';
+export { assembleContext } from './context';
+export { createUrlMapper, getUrlMapper, toCitation } from './citations';
+export { htmlLoader, notebookLoader, csvLoader, pdfLoader, getLoader, loadDocument } from './loaders';
+export { indexDocuments, reindexDocuments, watchDocuments, previewIndex } from './indexer';
+export { upsertDocuments, deleteDocuments } from './documents';
+export { indexBuildOutput, indexSitemap } from './build-output';
+export { evaluateRetrieval, compareEvalReports, loadEvalQuestions } from './eval';
+export { listCollections, createCollection, dropCollection } from './collections';
 export { VectorStore } from './vectorstore';
+export { SCHEMA_VERSION } from './migrations';
+export { VERSION } from './version';
 export { chunkText, hashContent } from './chunker';
-export { generateEmbedding, generateEmbeddings } from './embedder';
+export { chunkMarkdown } from './markdown-chunker';
+export { chunkCode } from './code-chunker';
+export { countTokens, truncateToTokens, getTextSizer } from './tokenizer';
+export { extractMetadata } from './metadata';
+export {
+  generateEmbedding,
+  generateEmbeddings,
+  embedTexts,
+  estimateEmbeddingCost,
+  EmbeddingPipeline,
+  createEmbeddingProvider,
+  getEmbeddingProvider,
+  OpenAIEmbeddingProvider,
+  LocalEmbeddingProvider,
+} from './embedder';
 
 // Type exports
 export type {
   RagConfig,
+  RagConfigFile,
+  SourceConfig,
+  CollectionConfig,
+  ResolvedRagConfig,
+  EmbeddingProvider,
+  EmbeddingProviderName,
+  SearchMode,
+  ChunkUnit,
+  QueryFilter,
+  FileRecord,
+  ChunkInfo,
+  IndexStats,
+  IndexInfo,
+  CollectionInfo,
+  ChunkStrategy,
   DocumentChunk,
   QueryResult,
   ContextChunk,
+  ContextPassage,
+  Citation,
+  UrlMapper,
+  UrlMapperOptions,
+  DocumentLoader,
+  LoadedDocument,
+  DocumentInput,
+  DocumentSource,
+  ContextTruncation,
+  ChatMessage,
+  ChatModel,
+  AskResult,
+  AskStreamEvent,
+  AnswerCitation,
+  Reranker,
 } from './types';
 
-export type { IndexOptions } from './indexer';
-
+export type { IndexOptions, IndexHooks, IndexEvent, ChunkDraft, IndexResult, IndexFailure, IndexPreview, IndexPreviewFile, ReindexResult, WatchOptions, WatchUpdate, DocumentWatcher } from './indexer';
+export type { ConfigOrigin, ConfigDescription } from './config';
+export type { LoadedConfigFile } from './config-file';
+export type { ExcludedFile, ExclusionReason } from './discovery';
+export type { ChunkOptions, TextChunk } from './chunker';
+export type { CodeChunkMetadata, CodeSymbolKind } from './code-chunker';
+export type { TextSizer } from './tokenizer';
+export type { QueryOptions } from './query';
+export type { AskOptions } from './answer';
+export type { OpenAIChatModelOptions } from './chat';
+export type { RagRouteHandlerOptions, RagRouteRequest, RagRouteLog, RagRouteHandlers } from './route';
+export type { RagErrorCode } from './errors';
+export type { RerankOptions } from './rerank';
+export type { FileMetadata } from './metadata';
+export type { OpenAIEmbeddingProviderOptions, EmbeddingPipelineOptions } from './embedder';
+export type { AssembleOptions, AssembledContext } from './context';
+export type { DocumentOptions, UpsertResult, DeleteResult } from './documents';
+export type { BuildIndexOptions, CrawlOptions, BuildIndexResult } from './build-output';
+export type { EvalQuestion, EvalOptions, EvalMetrics, EvalQuestionResult, EvalReport, EvalComparison } from './eval';
@@ -0,0 +1,108 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { indexDocuments, previewIndex, reindexDocuments, IndexEvent } from './indexer';
+import { configure } from './config';
+import { LoaderError } from './errors';
+import { VectorStore } from './vectorstore';
+
+describe('indexing files a loader cannot read', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'nextjs-rag-'));
+    fs.mkdirSync(path.join(dir, 'docs'));
+    fs.writeFileSync(path.join(dir, 'docs', 'guide.md'), '# Guide\n\nRoute handlers live in app/api.\n');
+    fs.writeFileSync(path.join(dir, 'docs', 'broken.pdf'), '%PDF-1.7\nthis is not really a PDF');
+    configure({ embeddingProvider: 'local', dbPath: path.join(dir, 'index.db') });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('records the file as a failure and indexes the others', async () => {
+    const warn = vi.spyOn(console, 'warn');
+    const result = await indexDocuments({ directory: path.join(dir, 'docs') });
+
+    expect(result.chunksCreated).toBe(1);
+    expect(result.failures).toHaveLength(1);
+    expect(result.failures[0].filePath).toMatch(/broken\.pdf$/);
+    expect(result.failures[0].chunkIndexes).toEqual([]);
+    expect(result.failures[0].error).toBeInstanceOf(LoaderError);
+    expect(result.failures[0].error.message).toMatch(/^Loader "pdf" failed to load/);
+    // PDF.js warnings don't leak to the console
+    expect(warn).not.toHaveBeenCalled();
+
+    const store = new VectorStore(path.join(dir, 'index.db'));
+    try {
+      expect(store.getAllFiles().map(file => path.basename(file))).toEqual(['guide.md']);
+    } finally {
+      store.close();
+    }
+  });
+
+  it('retries the file on reindex', async () => {
+    await indexDocuments({ directory: path.join(dir, 'docs') });
+    const result = await reindexDocuments({ directory: path.join(dir, 'docs') });
+
+    expect(result.filesSkipped).toBe(1);
+    expect(result.failures.map(failure => path.basename(failure.filePath))).toEqual(['broken.pdf']);
+  });
+
+  it('reports the file in a dry run', async () => {
+    const preview = await previewIndex({ directory: path.join(dir, 'docs') });
+    const broken = preview.files.find(file => file.filePath.endsWith('broken.pdf'));
+
+    expect(broken).toMatchObject({ chunks: 0, tokens: 0, error: expect.stringMatching(/^Loader "pdf" failed/) });
+    expect(preview.chunks).toBe(1);
+  });
+});
+
+describe('indexing when a file throws', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'nextjs-rag-'));
+    fs.mkdirSync(path.join(dir, 'docs'));
+    for (let i = 0; i < 12; i++) {
+      fs.writeFileSync(path.join(dir, 'docs', `page-${i}.md`), `# Page ${i}\n\nContent of page ${i}.\n`);
+    }
+    configure({ embeddingProvider: 'local', dbPath: path.join(dir, 'index.db') });
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('lets the files in progress finish before closing the index', async () => {
+    const events: IndexEvent[] = [];
+    const run = indexDocuments({
+      directory: path.join(dir, 'docs'),
+      transformContent: (content, file) => {
+        if (file.filePath.endsWith('page-0.md')) throw new Error('Hook failed');
+        return content;
+      },
+      onProgress: event => events.push(event),
+    });
+
+    await expect(run).rejects.toThrow('Hook failed');
+
+    const started = events.filter(event => event.type === 'file-start').map(event => event.filePath);
+    const ended = events.filter(event => event.type === 'file-done' || event.type === 'error').map(event => event.filePath);
+    expect(ended.sort()).toEqual(started.sort());
+    expect(events.filter(event => event.type === 'error')).toHaveLength(1);
+
+    // No new files start after the failure
+    expect(started.length).toBeLessThan(12);
+
+    const store = new VectorStore(path.join(dir, 'index.db'));
+    try {
+      expect(store.getAllFiles()).toHaveLength(started.length - 1);
+    } finally {
+      store.close();
+    }
+  });
+});
@@ -1,233 +1,902 @@
 import * as fs from 'fs';
 import * as path from 'path';
+import { watch } from 'chokidar';
 import { VectorStore } from './vectorstore';
-import { chunkText, hashContent } from './chunker';
-import { generateEmbeddings } from './embedder';
-import { DocumentChunk } from './types';
-import { getConfig } from './config';
+import { chunkText, hashContent, locateChunks, TextChunk } from './chunker';
+import { chunkMarkdown } from './markdown-chunker';
+import { chunkCode } from './code-chunker';
+import { EmbeddingPipeline, estimateEmbeddingCost, getEmbeddingProvider } from './embedder';
+import { EmbeddingError, LoaderError } from './errors';
+import { countTokens, getTextSizer } from './tokenizer';
+import { DocumentChunk, LoadedDocument, ResolvedRagConfig } from './types';
+import { getConfig, resolveIndexConfig, DEFAULT_COLLECTION } from './config';
+import { extractMetadata, FileMetadata } from './metadata';
+import { loadDocument } from './loaders';
+import { checkContent, createIgnoreMatcher, discoverFiles, matchesFileFilters, DiscoveryResult, ExcludedFile } from './discovery';
 
-export interface IndexOptions {
+/** A chunk on its way to being embedded, as seen by transformChunk */
+export interface ChunkDraft {
+  content: string;
+  /** File and chunk metadata, stored with the chunk */
+  metadata: Record<string, any>;
+}
+
+export interface IndexHooks {
+  /**
+   * Rewrite a file's text after its frontmatter is extracted and before it
+   * is chunked, e.g. to strip boilerplate. Return null to leave the file out.
+   */
+  transformContent?: (
+    content: string,
+    file: { filePath: string; metadata: FileMetadata }
+  ) => string | null | Promise<string | null>;
+  /**
+   * Rewrite a chunk before it is embedded, e.g. to redact secrets or prepend
+   * the page title. Return null to drop it.
+   */
+  transformChunk?: (
+    chunk: ChunkDraft,
+    file: { filePath: string; chunkIndex: number }
+  ) => ChunkDraft | null | Promise<ChunkDraft | null>;
+}
+
+/**
+ * Progress of an indexing run. Every file that starts ends with either
+ * 'file-done' or 'error'.
+ */
+export type IndexEvent =
+  | { type: 'discovered'; files: number; excluded: number }
+  | { type: 'file-start'; filePath: string }
+  | { type: 'file-done'; filePath: string; chunksCreated: number; embeddingsReused: number; skipped: boolean }
+  | { type: 'file-removed'; filePath: string }
+  | { type: 'embedded'; chunks: number; tokens: number; estimatedCost?: number }
+  | { type: 'error'; filePath: string; error: Error; chunkIndexes?: number[] };
+
+export interface IndexOptions extends IndexHooks {
   directory: string;
   extensions?: string[];
+  /** Globs relative to the directory; when given, only files matching one are indexed, e.g. ['docs/**', 'app/**\/page.mdx'] */
+  include?: string[];
+  /**
+   * Gitignore-style patterns relative to the directory, e.g. 'build' or
+   * '/docs/drafts/' (default: node_modules, .git, dist, build, .next, coverage)
+   */
   ignorePatterns?: string[];
+  /** Honor .gitignore files (default: true). .ragignore files, in the same format, are always honored. */
+  gitignore?: boolean;
+  /** Largest file to index, in bytes (default: 10 MB) */
+  maxFileSize?: number;
+  /** Follow symbolic links to files and directories (default: false) */
+  followSymlinks?: boolean;
+  /** Collection to index into (default: 'default') */
+  collection?: string;
   verbose?: boolean;
+  /** Called as files are discovered, indexed and embedded, e.g. to show progress */
+  onProgress?: (event: IndexEvent) => void;
 }
 
-const DEFAULT_EXTENSIONS = ['.txt', '.md', '.mdx', '.rst', '.json', '.js', '.ts', '.tsx', '.jsx'];
+const DEFAULT_EXTENSIONS = [
+  '.txt', '.md', '.mdx', '.rst', '.json', '.js', '.ts', '.tsx', '.jsx',
+  '.html', '.htm', '.pdf', '.ipynb', '.csv',
+];
 const DEFAULT_IGNORE = ['node_modules', '.git', 'dist', 'build', '.next', 'coverage'];
 
+/** Files chunked and embedded at a time; their embedding requests share one pipeline */
+const FILE_CONCURRENCY = 8;
+
 /**
- * Recursively get all files in a directory
+ * Default extensions plus those of custom loaders, so files they handle
+ * are picked up without listing extensions
  */
-function getAllFiles(
-  dir: string,
-  extensions: string[],
-  ignorePatterns: string[]
-): string[] {
-  const files: string[] = [];
+function defaultExtensions(): string[] {
+  const loaderExtensions = getConfig().loaders.flatMap(loader => loader.extensions || []);
+  return [...new Set([...DEFAULT_EXTENSIONS, ...loaderExtensions])];
+}
+
+const MARKDOWN_EXTENSIONS = ['.md', '.mdx'];
+const CODE_EXTENSIONS = ['.js', '.jsx', '.ts', '.tsx', '.mjs', '.cjs', '.mts', '.cts'];
+
+/**
+ * Chunk file content with the strategy that fits its format, which is
+ * picked by extension unless a loader set it
+ */
+function chunkFile(
+  content: string,
+  relativePath: string,
+  config: ResolvedRagConfig,
+  format?: LoadedDocument['format']
+): TextChunk[] {
+  const ext = path.extname(relativePath).toLowerCase();
+  const chunkOptions = {
+    chunkSize: config.chunkSize,
+    chunkOverlap: config.chunkOverlap,
+    sizer: getTextSizer(config.chunkUnit),
+  };
   
-  function traverse(currentPath: string) {
-    const entries = fs.readdirSync(currentPath, { withFileTypes: true });
-    
-    for (const entry of entries) {
-      const fullPath = path.join(currentPath, entry.name);
-      
-      // Check if should ignore
-      if (ignorePatterns.some(pattern => fullPath.includes(pattern))) {
-        continue;
-      }
-      
-      if (entry.isDirectory()) {
-        traverse(fullPath);
-      } else if (entry.isFile()) {
-        const ext = path.extname(entry.name);
-        if (extensions.includes(ext)) {
-          files.push(fullPath);
-        }
+  // Token-sized chunks can't be larger than the embedding model accepts
+  const maxInputTokens = getEmbeddingProvider(config).maxInputTokens;
+  if (config.chunkUnit === 'tokens' && maxInputTokens && chunkOptions.chunkSize > maxInputTokens) {
+    chunkOptions.chunkSize = maxInputTokens;
+  }
+  
+  if (config.chunkStrategy === 'text') {
+    return chunkText(content, chunkOptions).map(chunk => ({ content: chunk }));
+  }
+  
+  if (format === 'markdown' || (!format && MARKDOWN_EXTENSIONS.includes(ext))) {
+    return chunkMarkdown(content, { ...chunkOptions, mdx: ext === '.mdx' });
+  }
+  
+  if (format === 'code' || (!format && CODE_EXTENSIONS.includes(ext))) {
+    // Next.js apps commonly use JSX in plain .js files too
+    return chunkCode(content, { ...chunkOptions, jsx: !ext.startsWith('.ts') || ext === '.tsx' });
+  }
+  
+  return chunkText(content, chunkOptions).map(chunk => ({ content: chunk }));
+}
+
+/**
+ * Embedding pipeline for an indexing run. Each embedded batch is
+ * checkpointed right away, so a run that crashes or fails halfway resumes
+ * without embedding those chunks again.
+ */
+export function createIndexPipeline(
+  config: ResolvedRagConfig,
+  vectorStore: VectorStore,
+  onEmbedded?: (chunks: number, tokens: number) => void
+): EmbeddingPipeline {
+  return new EmbeddingPipeline(getEmbeddingProvider(config), {
+    onEmbedded: (texts, embeddings, tokens) => {
+      vectorStore.saveEmbeddingCheckpoints(
+        texts.map((text, idx) => ({ hash: hashContent(text), embedding: embeddings[idx] }))
+      );
+      onEmbedded?.(texts.length, tokens);
+    },
+  }, config);
+}
+
+/**
+ * Run a task for each item, at most `concurrency` at a time. Once a task
+ * fails no new ones start, and its error is thrown after the running ones
+ * finish, so callers can clean up safely.
+ */
+export async function forEachConcurrent<T>(items: T[], concurrency: number, task: (item: T) => Promise<void>): Promise<void> {
+  const queue = [...items];
+  
+  const worker = async () => {
+    for (let item = queue.shift(); item !== undefined; item = queue.shift()) {
+      try {
+        await task(item);
+      } catch (error) {
+        queue.length = 0;
+        throw error;
       }
     }
+  };
+  
+  const results = await Promise.allSettled(Array.from({ length: Math.min(Math.max(concurrency, 1), items.length) }, worker));
+  const failed = results.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+  if (failed) {
+    throw failed.reason;
+  }
+}
+
+/**
+ * Run chunks through the transformChunk hook, leaving out the dropped ones
+ */
+async function transformChunks(chunks: ChunkDraft[], filePath: string, hooks: IndexHooks): Promise<ChunkDraft[]> {
+  if (!hooks.transformChunk) {
+    return chunks;
   }
   
-  traverse(dir);
-  return files;
+  const transformed: ChunkDraft[] = [];
+  for (const [chunkIndex, chunk] of chunks.entries()) {
+    const result = await hooks.transformChunk(chunk, { filePath, chunkIndex });
+    if (result && result.content.trim()) {
+      transformed.push(result);
+    }
+  }
+  return transformed;
 }
 
 /**
- * Index documents from a directory
+ * Extract a document's metadata and cut its text into the chunks to embed,
+ * running the hooks
  */
-export async function indexDocuments(options: IndexOptions): Promise<{
-  filesProcessed: number;
-  chunksCreated: number;
-}> {
-  const {
-    directory,
-    extensions = DEFAULT_EXTENSIONS,
-    ignorePatterns = DEFAULT_IGNORE,
-    verbose = false,
-  } = options;
+async function prepareChunks(
+  relativePath: string,
+  document: LoadedDocument,
+  config: ResolvedRagConfig,
+  hooks: IndexHooks
+): Promise<ChunkDraft[]> {
+  // Pull out frontmatter and path metadata
+  const extracted = extractMetadata(relativePath, document.content);
+  const { metadata } = extracted;
   
-  const config = getConfig();
-  const vectorStore = new VectorStore();
+  const content = hooks.transformContent
+    ? await hooks.transformContent(extracted.content, { filePath: relativePath, metadata })
+    : extracted.content;
+  if (content === null) return [];
   
-  // Get all files to process
-  const files = getAllFiles(directory, extensions, ignorePatterns);
+  // Chunk the content
+  return transformChunks(
+    chunkFile(content, relativePath, config, document.format).map(chunk => ({
+      content: chunk.content,
+      metadata: { ...metadata, ...document.metadata, ...chunk.metadata },
+    })),
+    relativePath,
+    hooks
+  );
+}
+
+/**
+ * Chunk and embed a document's text. Chunks whose content hash is already
+ * in the index reuse the stored embedding instead of calling the API again.
+ * @param document - Loaded text; `raw` if it is the file itself, so chunk positions point into it
+ * @param pipeline - Pipeline to embed with, shared by the files of a run
+ * @throws EmbeddingError naming the chunks that couldn't be embedded
+ */
+export async function buildFileChunks(
+  relativePath: string,
+  document: LoadedDocument & { raw: boolean },
+  config: ResolvedRagConfig,
+  vectorStore: VectorStore,
+  pipeline: EmbeddingPipeline = createIndexPipeline(config, vectorStore),
+  hooks: IndexHooks = {}
+): Promise<{ chunks: DocumentChunk[]; embeddingsReused: number }> {
+  const chunks = await prepareChunks(relativePath, document, config, hooks);
   
-  if (verbose) {
-    console.log(`Found ${files.length} files to process`);
+  if (chunks.length === 0) return { chunks: [], embeddingsReused: 0 };
+  
+  const hashes = chunks.map(chunk => hashContent(chunk.content));
+  const storedEmbeddings = vectorStore.getEmbeddingsByHash(hashes);
+  
+  // Generate embeddings only for chunks the index hasn't seen
+  const missing = chunks
+    .map((chunk, idx) => ({ content: chunk.content, idx }))
+    .filter(({ idx }) => !storedEmbeddings.has(hashes[idx]));
+  const newEmbeddings = await pipeline.embed(missing.map(chunk => chunk.content));
+  
+  // Writing the file without some of its chunks would hide it from the next run
+  const failures = newEmbeddings.flatMap((result, i) => (result instanceof Error ? [{ index: missing[i].idx, error: result }] : []));
+  if (failures.length > 0) {
+    throw new EmbeddingError(
+      `Failed to embed chunk(s) ${failures.map(failure => failure.index).join(', ')} of ${relativePath}: ${failures[0].error.message}`,
+      failures
+    );
   }
   
-  let totalChunks = 0;
+  const embeddings = new Map<number, Float32Array>();
+  missing.forEach(({ idx }, i) => embeddings.set(idx, newEmbeddings[i] as Float32Array));
   
-  for (const filePath of files) {
-    const relativePath = path.relative(process.cwd(), filePath);
-    
-    if (verbose) {
-      console.log(`Processing: ${relativePath}`);
+  // Offsets point into the file as stored, frontmatter included. Text
+  // extracted by a loader has no position in the file.
+  const ranges = document.raw ? locateChunks(document.content, chunks.map(chunk => chunk.content)) : [];
+  
+  // Create document chunks
+  const documentChunks = chunks.map((chunk, idx) => ({
+    filePath: relativePath,
+    content: chunk.content,
+    hash: hashes[idx],
+    embedding: embeddings.get(idx) || storedEmbeddings.get(hashes[idx]),
+    metadata: chunk.metadata,
+    chunkIndex: idx,
+    startOffset: ranges[idx]?.start,
+    endOffset: ranges[idx]?.end,
+    startLine: ranges[idx]?.startLine,
+    endLine: ranges[idx]?.endLine,
+  }));
+  
+  return {
+    chunks: documentChunks,
+    embeddingsReused: chunks.length - missing.length,
+  };
+}
+
+/** State shared by the files of one indexing run */
+interface IndexRun {
+  config: ResolvedRagConfig;
+  vectorStore: VectorStore;
+  pipeline: EmbeddingPipeline;
+  hooks: IndexHooks;
+  emit: (event: IndexEvent) => void;
+  failures: IndexFailure[];
+  tokensEmbedded: number;
+  estimatedCost?: number;
+}
+
+function startRun(options: IndexOptions, config: ResolvedRagConfig, vectorStore: VectorStore): IndexRun {
+  const emit = options.onProgress ?? (() => {});
+  const model = getEmbeddingProvider(config).model;
+  
+  const pipeline = createIndexPipeline(config, vectorStore, (chunks, tokens) => {
+    const estimatedCost = estimateEmbeddingCost(model, tokens);
+    run.tokensEmbedded += tokens;
+    if (estimatedCost !== undefined) {
+      run.estimatedCost = (run.estimatedCost ?? 0) + estimatedCost;
     }
+    emit({ type: 'embedded', chunks, tokens, estimatedCost });
+  });
+  
+  const run: IndexRun = {
+    config,
+    vectorStore,
+    pipeline,
+    hooks: { transformContent: options.transformContent, transformChunk: options.transformChunk },
+    emit,
+    failures: [],
+    tokensEmbedded: 0,
+  };
+  
+  return run;
+}
+
+function toIndexFailure(filePath: string, error: EmbeddingError | LoaderError): IndexFailure {
+  if (error instanceof LoaderError) {
+    return { filePath, chunkIndexes: [], error };
+  }
+  return { filePath, chunkIndexes: error.failures.map(failure => failure.index), error: error.failures[0].error };
+}
+
+/**
+ * Index one file of a run and report its progress. A file that couldn't be
+ * loaded, or whose chunks couldn't be embedded, is recorded as a failure and
+ * resolves to undefined, so the other files still get indexed; other errors
+ * end the run.
+ */
+async function runFile<T extends { chunksCreated: number; embeddingsReused: number } | null>(
+  run: IndexRun,
+  relativePath: string,
+  index: () => Promise<T>
+): Promise<T | undefined> {
+  run.emit({ type: 'file-start', filePath: relativePath });
+  
+  try {
+    const result = await index();
+    run.emit({
+      type: 'file-done',
+      filePath: relativePath,
+      chunksCreated: result?.chunksCreated ?? 0,
+      embeddingsReused: result?.embeddingsReused ?? 0,
+      skipped: !result,
+    });
+    return result;
+  } catch (error) {
+    if (!(error instanceof EmbeddingError || error instanceof LoaderError)) {
+      run.emit({ type: 'error', filePath: relativePath, error: error as Error });
+      throw error;
+    }
+    const failure = toIndexFailure(relativePath, error);
+    run.failures.push(failure);
+    run.emit({ type: 'error', ...failure });
+    return undefined;
+  }
+}
+
+/**
+ * Index a single file, replacing any chunks it had before
+ */
+async function indexFile(
+  filePath: string,
+  relativePath: string,
+  run: IndexRun,
+  known?: { fileContent: Buffer; contentHash: string }
+): Promise<{ chunksCreated: number; embeddingsReused: number }> {
+  const { config, vectorStore } = run;
+  
+  // A document added through the API owns its ID, even if a file has the same path
+  const owner = vectorStore.getFileRecord(relativePath)?.source;
+  if (owner && owner !== 'file') {
+    return { chunksCreated: 0, embeddingsReused: 0 };
+  }
+  
+  const stats = fs.statSync(filePath);
+  const fileContent = known?.fileContent ?? fs.readFileSync(filePath);
+  const contentHash = known?.contentHash ?? hashContent(fileContent);
+  
+  // PDFs, HTML and other formats go through a loader to get clean text
+  const document = await loadDocument(relativePath, fileContent, config);
+  const { chunks, embeddingsReused } = await buildFileChunks(relativePath, document, config, vectorStore, run.pipeline, run.hooks);
+  
+  vectorStore.replaceFileChunks({
+    filePath: relativePath,
+    contentHash,
+    size: stats.size,
+    mtime: Math.floor(stats.mtimeMs),
+    chunkCount: chunks.length,
+  }, chunks);
+  
+  return { chunksCreated: chunks.length, embeddingsReused };
+}
+
+/**
+ * Re-index a file if its content changed since it was last indexed
+ */
+async function reindexFile(
+  filePath: string,
+  relativePath: string,
+  run: IndexRun
+): Promise<{ chunksCreated: number; embeddingsReused: number } | null> {
+  const { vectorStore } = run;
+  const stats = fs.statSync(filePath);
+  const record = vectorStore.getFileRecord(relativePath);
+  const mtime = Math.floor(stats.mtimeMs);
+  
+  // Same size and mtime: assume unchanged without reading the file.
+  // Documents added through the API are never replaced by files.
+  if (record && (record.source !== 'file' || (record.size === stats.size && record.mtime === mtime))) {
+    return null;
+  }
+  
+  // Touched but identical content: just refresh the manifest
+  const fileContent = fs.readFileSync(filePath);
+  const contentHash = hashContent(fileContent);
+  
+  if (record && record.contentHash === contentHash) {
+    vectorStore.upsertFileRecord({ ...record, size: stats.size, mtime });
+    return null;
+  }
+  
+  return indexFile(filePath, relativePath, run, { fileContent, contentHash });
+}
+
+/**
+ * Open a collection, reconcile config with the settings it was built with,
+ * and record them for new collections
+ */
+export function openIndex(collection: string = DEFAULT_COLLECTION): { vectorStore: VectorStore; config: ResolvedRagConfig } {
+  const vectorStore = new VectorStore(undefined, undefined, collection);
+  
+  try {
+    const config = resolveIndexConfig(getConfig(collection), vectorStore.getIndexInfo(), {
+      chunking: true,
+      dbPath: vectorStore.dbPath,
+      collection,
+    });
+    const embeddingProvider = getEmbeddingProvider(config);
+    vectorStore.assertCompatible(embeddingProvider);
     
-    // Read file content
-    const content = fs.readFileSync(filePath, 'utf-8');
-    
-    // Chunk the content
-    const chunks = chunkText(content, {
+    vectorStore.setIndexInfo({
+      embeddingProvider: embeddingProvider.name,
+      embeddingModel: embeddingProvider.model,
+      dimension: embeddingProvider.dimension,
+      chunkStrategy: config.chunkStrategy,
       chunkSize: config.chunkSize,
       chunkOverlap: config.chunkOverlap,
+      chunkUnit: config.chunkUnit,
     });
     
-    if (chunks.length === 0) continue;
-    
-    // Generate embeddings for all chunks
-    const embeddings = await generateEmbeddings(chunks);
+    return { vectorStore, config };
+  } catch (error) {
+    vectorStore.close();
+    throw error;
+  }
+}
+
+export interface IndexFailure {
+  filePath: string;
+  /** Chunks that couldn't be embedded; empty if the file couldn't be loaded */
+  chunkIndexes: number[];
+  /** Why the file couldn't be loaded, or why the first of the chunks failed */
+  error: Error;
+}
+
+export interface IndexResult {
+  filesProcessed: number;
+  chunksCreated: number;
+  /** Chunks whose embedding was reused from the index */
+  embeddingsReused: number;
+  /** Files left out because they are too large, binary, minified or symbolic links */
+  excluded: ExcludedFile[];
+  /** Tokens sent to the embedding provider, counted with cl100k_base */
+  tokensEmbedded: number;
+  /** Estimated cost of the embedding requests in USD, for models with a known price */
+  estimatedCost?: number;
+  /**
+   * Files left as they were because a loader couldn't read them, or some
+   * chunks couldn't be embedded even after retries. Run the indexer again
+   * to retry them.
+   */
+  failures: IndexFailure[];
+}
+
+export interface ReindexResult extends IndexResult {
+  /** Files added, changed or removed */
+  filesUpdated: number;
+  /** Files skipped because their content is unchanged */
+  filesSkipped: number;
+  filesChanged: number;
+  filesAdded: number;
+  filesRemoved: number;
+}
+
+/**
+ * Run a document's indexing, recording an embedding failure instead of
+ * throwing so the other documents still get indexed. Returns undefined if
+ * it failed.
+ */
+export async function catchEmbeddingFailure<T>(
+  filePath: string,
+  failures: IndexFailure[],
+  index: () => Promise<T>
+): Promise<T | undefined> {
+  try {
+    return await index();
+  } catch (error) {
+    if (!(error instanceof EmbeddingError)) {
+      throw error;
+    }
+    failures.push(toIndexFailure(filePath, error));
+    return undefined;
+  }
+}
+
+/**
+ * Find the files to index, applying the default extensions and ignore patterns
+ */
+function findFiles(options: IndexOptions): DiscoveryResult {
+  return discoverFiles(options.directory, {
+    extensions: options.extensions ?? defaultExtensions(),
+    include: options.include,
+    ignorePatterns: options.ignorePatterns ?? DEFAULT_IGNORE,
+    gitignore: options.gitignore,
+    maxFileSize: options.maxFileSize,
+    followSymlinks: options.followSymlinks,
+  });
+}
+
+export interface IndexPreviewFile {
+  filePath: string;
+  size: number;
+  chunks: number;
+  /** Tokens of the file's chunks, counted with cl100k_base */
+  tokens: number;
+  /** Why a loader couldn't read the file; indexing would record it as a failure */
+  error?: string;
+}
+
+export interface IndexPreview {
+  files: IndexPreviewFile[];
+  /** Files left out because they are too large, binary, minified or symbolic links */
+  excluded: ExcludedFile[];
+  chunks: number;
+  /** Tokens indexing every file from scratch would embed */
+  tokens: number;
+  /** Estimated cost of embedding them in USD, for models with a known price */
+  estimatedCost?: number;
+  embeddingModel: string;
+}
+
+/**
+ * List the files indexDocuments would index, with their chunks and tokens,
+ * without embedding anything or touching the index. Tokens are counted for
+ * every chunk, so re-indexing an existing index costs less.
+ */
+export async function previewIndex(options: IndexOptions): Promise<IndexPreview> {
+  const config = getConfig(options.collection);
+  const hooks: IndexHooks = { transformContent: options.transformContent, transformChunk: options.transformChunk };
+  const { files, excluded } = findFiles(options);
+  const embeddingModel = getEmbeddingProvider(config).model;
+  
+  const preview: IndexPreview = { files: [], excluded, chunks: 0, tokens: 0, embeddingModel };
+  
+  for (const filePath of files) {
+    const relativePath = path.relative(process.cwd(), filePath);
+    const fileContent = fs.readFileSync(filePath);
     
-    // Create document chunks
-    const documentChunks: DocumentChunk[] = chunks.map((chunk, idx) => ({
-      filePath: relativePath,
-      content: chunk,
-      hash: hashContent(chunk),
-      embedding: embeddings[idx],
-    }));
+    let document: LoadedDocument;
+    try {
+      document = await loadDocument(relativePath, fileContent, config);
+    } catch (error) {
+      if (!(error instanceof LoaderError)) throw error;
+      preview.files.push({ filePath: relativePath, size: fileContent.length, chunks: 0, tokens: 0, error: error.message });
+      continue;
+    }
     
-    // Insert into vector store
-    vectorStore.insertChunks(documentChunks);
-    totalChunks += documentChunks.length;
+    const chunks = await prepareChunks(relativePath, document, config, hooks);
+    const tokens = chunks.reduce((total, chunk) => total + countTokens(chunk.content), 0);
     
-    if (verbose) {
-      console.log(`  → Created ${chunks.length} chunks`);
+    preview.files.push({ filePath: relativePath, size: fileContent.length, chunks: chunks.length, tokens });
+    preview.chunks += chunks.length;
+    preview.tokens += tokens;
+  }
+  
+  preview.estimatedCost = estimateEmbeddingCost(embeddingModel, preview.tokens);
+  return preview;
+}
+
+/**
+ * Index documents from a directory
+ */
+export async function indexDocuments(options: IndexOptions): Promise<IndexResult> {
+  const { collection, verbose = false } = options;
+  
+  const { vectorStore, config } = openIndex(collection);
+  
+  // Get all files to process
+  const { files, excluded } = findFiles(options);
+  
+  if (verbose) {
+    console.log(`Found ${files.length} files to process`);
+    for (const file of excluded) {
+      console.log(`Excluded (${file.reason}): ${file.filePath}`);
     }
   }
   
-  vectorStore.close();
+  let totalChunks = 0;
+  let embeddingsReused = 0;
+  const run = startRun(options, config, vectorStore);
+  run.emit({ type: 'discovered', files: files.length, excluded: excluded.length });
+  
+  try {
+    await forEachConcurrent(files, FILE_CONCURRENCY, async filePath => {
+      const relativePath = path.relative(process.cwd(), filePath);
+      
+      if (verbose) {
+        console.log(`Processing: ${relativePath}`);
+      }
+      
+      const result = await runFile(run, relativePath, () => indexFile(filePath, relativePath, run));
+      if (!result) return;
+      
+      totalChunks += result.chunksCreated;
+      embeddingsReused += result.embeddingsReused;
+      
+      if (verbose) {
+        console.log(`  → Created ${result.chunksCreated} chunks for ${relativePath}`);
+      }
+    });
+    
+    if (run.failures.length === 0) {
+      vectorStore.clearEmbeddingCheckpoints();
+    }
+  } finally {
+    vectorStore.close();
+  }
   
   return {
     filesProcessed: files.length,
     chunksCreated: totalChunks,
+    embeddingsReused,
+    excluded,
+    tokensEmbedded: run.tokensEmbedded,
+    estimatedCost: run.estimatedCost,
+    failures: run.failures,
   };
 }
 
 /**
  * Re-index only changed files
  */
-export async function reindexDocuments(options: IndexOptions): Promise<{
-  filesProcessed: number;
-  filesUpdated: number;
-  chunksCreated: number;
-}> {
-  const {
-    directory,
-    extensions = DEFAULT_EXTENSIONS,
-    ignorePatterns = DEFAULT_IGNORE,
-    verbose = false,
-  } = options;
+export async function reindexDocuments(options: IndexOptions): Promise<ReindexResult> {
+  const { collection, verbose = false } = options;
   
-  const config = getConfig();
-  const vectorStore = new VectorStore();
+  const { vectorStore, config } = openIndex(collection);
   
   // Get all files to process
-  const files = getAllFiles(directory, extensions, ignorePatterns);
+  const { files, excluded } = findFiles(options);
   const existingFiles = new Set(vectorStore.getAllFiles());
   
   if (verbose) {
     console.log(`Found ${files.length} files, ${existingFiles.size} already indexed`);
   }
   
-  let filesUpdated = 0;
-  let totalChunks = 0;
+  const result: ReindexResult = {
+    filesProcessed: files.length,
+    filesUpdated: 0,
+    filesSkipped: 0,
+    filesChanged: 0,
+    filesAdded: 0,
+    filesRemoved: 0,
+    chunksCreated: 0,
+    embeddingsReused: 0,
+    excluded,
+    tokensEmbedded: 0,
+    failures: [],
+  };
+  const run = startRun(options, config, vectorStore);
+  run.emit({ type: 'discovered', files: files.length, excluded: excluded.length });
   
-  // Check for deleted files
-  for (const existingFile of existingFiles) {
-    const fullPath = path.join(process.cwd(), existingFile);
-    if (!fs.existsSync(fullPath)) {
+  try {
+    // Check for deleted files
+    for (const existingFile of existingFiles) {
+      const fullPath = path.join(process.cwd(), existingFile);
+      if (!fs.existsSync(fullPath)) {
+        if (verbose) {
+          console.log(`Removing deleted file: ${existingFile}`);
+        }
+        vectorStore.deleteChunksByFile(existingFile);
+        result.filesRemoved++;
+        run.emit({ type: 'file-removed', filePath: existingFile });
+      }
+    }
+    
+    // Process each file
+    await forEachConcurrent(files, FILE_CONCURRENCY, async filePath => {
+      const relativePath = path.relative(process.cwd(), filePath);
+      const fileResult = await runFile(run, relativePath, () => reindexFile(filePath, relativePath, run));
+      
+      if (fileResult === undefined) return;
+      if (!fileResult) {
+        result.filesSkipped++;
+        return;
+      }
+      
+      result.chunksCreated += fileResult.chunksCreated;
+      result.embeddingsReused += fileResult.embeddingsReused;
+      
+      if (existingFiles.has(relativePath)) {
+        result.filesChanged++;
+      } else {
+        result.filesAdded++;
+      }
+      
       if (verbose) {
-        console.log(`Removing deleted file: ${existingFile}`);
+        console.log(`Processed: ${relativePath}`);
+        console.log(`  → Created ${fileResult.chunksCreated} chunks (${fileResult.embeddingsReused} embeddings reused)`);
       }
-      vectorStore.deleteChunksByFile(existingFile);
-      filesUpdated++;
+    });
+    
+    if (run.failures.length === 0) {
+      vectorStore.clearEmbeddingCheckpoints();
     }
+  } finally {
+    vectorStore.close();
   }
   
-  // Process each file
-  for (const filePath of files) {
-    const relativePath = path.relative(process.cwd(), filePath);
-    const stats = fs.statSync(filePath);
-    
-    // Check if file needs updating
-    let needsUpdate = !existingFiles.has(relativePath);
+  result.tokensEmbedded = run.tokensEmbedded;
+  result.estimatedCost = run.estimatedCost;
+  result.failures = run.failures;
+  result.filesUpdated = result.filesChanged + result.filesAdded + result.filesRemoved;
+  
+  return result;
+}
+
+export interface WatchOptions extends IndexOptions {
+  /** Milliseconds to wait after the last change before re-indexing (default: 300) */
+  debounceMs?: number;
+  /** Called after a batch of changes has been applied to the index */
+  onUpdate?: (update: WatchUpdate) => void;
+  /** Called when applying changes fails; the watcher keeps running (default: logs the error) */
+  onError?: (error: Error) => void;
+}
+
+export interface WatchUpdate {
+  /** Files that were added or changed, relative to the working directory */
+  filesIndexed: string[];
+  /** Files that were deleted or renamed away */
+  filesRemoved: string[];
+  chunksCreated: number;
+  embeddingsReused: number;
+  /** Files left as they were because some chunks couldn't be embedded; retried on their next change */
+  failures: IndexFailure[];
+}
+
+export interface DocumentWatcher {
+  /** Result of the re-index run that brought the index up to date before watching */
+  initial: ReindexResult;
+  /** Stop watching and close the index */
+  close(): Promise<void>;
+}
+
+/**
+ * Re-index documents, then keep the index up to date as files change.
+ * Bursts of saves are debounced, and only the affected files are re-chunked
+ * and re-embedded.
+ */
+export async function watchDocuments(options: WatchOptions): Promise<DocumentWatcher> {
+  const {
+    directory,
+    extensions = defaultExtensions(),
+    ignorePatterns = DEFAULT_IGNORE,
+    gitignore,
+    maxFileSize,
+    followSymlinks = false,
+    collection,
+    debounceMs = 300,
+    onUpdate,
+    onError = error => console.error(`[nextjs-rag] ${error.message}`),
+  } = options;
+  
+  const initial = await reindexDocuments(options);
+  const { vectorStore, config } = openIndex(collection);
+  
+  const pending = new Set<string>();
+  let timer: NodeJS.Timeout | null = null;
+  let applying: Promise<void> = Promise.resolve();
+  
+  const applyChanges = async (filePaths: string[]) => {
+    const indexedFiles = new Set(vectorStore.getAllFiles());
+    const run = startRun(options, config, vectorStore);
+    const update: WatchUpdate = { filesIndexed: [], filesRemoved: [], chunksCreated: 0, embeddingsReused: 0, failures: run.failures };
     
-    if (!needsUpdate && existingFiles.has(relativePath)) {
-      // For simplicity, we'll re-index if file was modified
-      // A more sophisticated approach would compare content hashes
-      needsUpdate = true;
+    for (const filePath of filePaths) {
+      const relativePath = path.relative(process.cwd(), filePath);
+      
+      if (fs.existsSync(filePath)) {
+        // Files that grew too large or turned binary are left as they were
+        const stats = fs.statSync(filePath);
+        if (!stats.isFile() || checkContent(filePath, stats.size, maxFileSize)) {
+          continue;
+        }
+        const result = await runFile(run, relativePath, () => reindexFile(filePath, relativePath, run));
+        if (result) {
+          update.filesIndexed.push(relativePath);
+          update.chunksCreated += result.chunksCreated;
+          update.embeddingsReused += result.embeddingsReused;
+        }
+        continue;
+      }
+      
+      // A removed directory takes every file indexed under it along
+      const prefix = relativePath + path.sep;
+      const removed = [...indexedFiles].filter(file => file === relativePath || file.startsWith(prefix));
+      for (const file of removed) {
+        vectorStore.deleteChunksByFile(file);
+        indexedFiles.delete(file);
+        update.filesRemoved.push(file);
+        run.emit({ type: 'file-removed', filePath: file });
+      }
     }
     
-    if (!needsUpdate) continue;
-    
-    if (verbose) {
-      console.log(`Processing: ${relativePath}`);
+    if (update.failures.length === 0) {
+      vectorStore.clearEmbeddingCheckpoints();
     }
     
-    // Delete old chunks for this file
-    if (existingFiles.has(relativePath)) {
-      vectorStore.deleteChunksByFile(relativePath);
+    if (update.filesIndexed.length > 0 || update.filesRemoved.length > 0 || update.failures.length > 0) {
+      onUpdate?.(update);
     }
+  };
+  
+  const flush = () => {
+    timer = null;
+    const filePaths = [...pending];
+    pending.clear();
     
-    // Read file content
-    const content = fs.readFileSync(filePath, 'utf-8');
-    
-    // Chunk the content
-    const chunks = chunkText(content, {
-      chunkSize: config.chunkSize,
-      chunkOverlap: config.chunkOverlap,
-    });
-    
-    if (chunks.length === 0) continue;
-    
-    // Generate embeddings for all chunks
-    const embeddings = await generateEmbeddings(chunks);
-    
-    // Create document chunks
-    const documentChunks: DocumentChunk[] = chunks.map((chunk, idx) => ({
-      filePath: relativePath,
-      content: chunk,
-      hash: hashContent(chunk),
-      embedding: embeddings[idx],
-    }));
-    
-    // Insert into vector store
-    vectorStore.insertChunks(documentChunks);
-    totalChunks += documentChunks.length;
-    filesUpdated++;
-    
-    if (verbose) {
-      console.log(`  → Created ${chunks.length} chunks`);
+    // Batches run one after another so a slow embedding call can't interleave writes
+    applying = applying
+      .then(() => applyChanges(filePaths))
+      .catch(error => onError(error as Error));
+  };
+  
+  const isIgnored = createIgnoreMatcher(directory, { ignorePatterns, gitignore });
+  
+  const schedule = (filePath: string, isDirectory = false) => {
+    if (!isDirectory && !matchesFileFilters(directory, filePath, { extensions, include: options.include })) {
+      return;
     }
-  }
+    pending.add(filePath);
+    if (timer) {
+      clearTimeout(timer);
+    }
+    timer = setTimeout(flush, debounceMs);
+  };
+  
+  const watcher = watch(directory, {
+    ignoreInitial: true,
+    followSymlinks,
+    ignored: (filePath, stats) => isIgnored(filePath, stats?.isDirectory() ?? false),
+  });
+  
+  watcher
+    .on('add', filePath => schedule(filePath))
+    .on('change', filePath => schedule(filePath))
+    .on('unlink', filePath => schedule(filePath))
+    .on('unlinkDir', dirPath => schedule(dirPath, true))
+    .on('error', error => onError(error as Error));
   
-  vectorStore.close();
+  await new Promise<void>(resolve => watcher.once('ready', resolve));
   
   return {
-    filesProcessed: files.length,
-    filesUpdated,
-    chunksCreated: totalChunks,
+    initial,
+    close: async () => {
+      await watcher.close();
+      if (timer) {
+        clearTimeout(timer);
+        flush();
+      }
+      await applying;
+      vectorStore.close();
+    },
   };
 }
-
@@ -0,0 +1,293 @@
+import * as path from 'path';
+import { getConfig } from './config';
+import { DocumentLoader, LoadedDocument, ResolvedRagConfig } from './types';
+import { LoaderError } from './errors';
+
+const MIME_TYPES: Record<string, string> = {
+  '.txt': 'text/plain',
+  '.md': 'text/markdown',
+  '.mdx': 'text/mdx',
+  '.json': 'application/json',
+  '.html': 'text/html',
+  '.htm': 'text/html',
+  '.pdf': 'application/pdf',
+  '.ipynb': 'application/x-ipynb+json',
+  '.csv': 'text/csv',
+};
+
+/** Elements whose content isn't part of the page's text, including navigation */
+const HTML_SKIPPED_ELEMENTS = ['script', 'style', 'noscript', 'template', 'svg', 'head', 'iframe', 'nav'];
+
+/** Elements that start a new block of text */
+const HTML_BLOCK_ELEMENTS = [
+  'p', 'div', 'section', 'article', 'main', 'header', 'footer', 'aside', 'blockquote',
+  'ul', 'ol', 'table', 'thead', 'tbody', 'tr', 'dl', 'dt', 'dd', 'figure', 'figcaption', 'form', 'hr',
+];
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ', copy: '©', reg: '®', trade: '™',
+  mdash: '—', ndash: '–', hellip: '…', lsquo: '‘', rsquo: '’', ldquo: '“', rdquo: '”', bull: '•', middot: '·',
+};
+
+function decodeHtmlEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1] === 'x' || entity[1] === 'X' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return Number.isNaN(code) || code > 0x10ffff ? match : String.fromCodePoint(code);
+    }
+    return HTML_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+function stripTags(html: string): string {
+  return decodeHtmlEntities(html.replace(/<[^>]*>/g, '')).replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Extracts the visible text of HTML pages as Markdown, so headings drive
+ * chunking and anchors. The page title becomes the `title` metadata.
+ */
+export const htmlLoader: DocumentLoader = {
+  name: 'html',
+  extensions: ['.html', '.htm'],
+  mimeTypes: ['text/html'],
+  load(content) {
+    let html = content.toString('utf-8');
+    const metadata: Record<string, any> = {};
+
+    const title = html.match(/<title[^>]*>([\s\S]*?)<\/title>/i);
+    if (title && stripTags(title[1])) {
+      metadata.title = stripTags(title[1]);
+    }
+    const description = html.match(/<meta\s+[^>]*name=["']description["'][^>]*content=["']([^"']*)["']/i);
+    if (description) {
+      metadata.description = decodeHtmlEntities(description[1]);
+    }
+
+    html = html.replace(/<!--[\s\S]*?-->/g, '');
+    for (const element of HTML_SKIPPED_ELEMENTS) {
+      html = html.replace(new RegExp(`<${element}\\b[\\s\\S]*?</${element}>`, 'gi'), '');
+    }
+
+    // Keep preformatted text as fenced code before whitespace is collapsed
+    const codeBlocks: string[] = [];
+    html = html.replace(/<pre\b[^>]*>([\s\S]*?)<\/pre>/gi, (match, code: string) => {
+      codeBlocks.push(decodeHtmlEntities(code.replace(/<[^>]*>/g, '')).replace(/\n+$/, ''));
+      return `\n\n\u0000${codeBlocks.length - 1}\u0000\n\n`;
+    });
+
+    html = html
+      .replace(/<h([1-6])\b[^>]*>([\s\S]*?)<\/h\1>/gi, (match, level: string, text: string) =>
+        `\n\n${'#'.repeat(Number(level))} ${stripTags(text)}\n\n`)
+      .replace(/<li\b[^>]*>/gi, '\n- ')
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<\/?(td|th)\b[^>]*>/gi, ' ')
+      .replace(new RegExp(`</?(${HTML_BLOCK_ELEMENTS.join('|')})\\b[^>]*>`, 'gi'), '\n\n')
+      .replace(/<[^>]*>/g, '');
+
+    const text = decodeHtmlEntities(html)
+      .split('\n')
+      .map(line => line.replace(/[ \t\u00a0]+/g, ' ').trim())
+      .join('\n')
+      .replace(/\n{3,}/g, '\n\n')
+      .replace(/\u0000(\d+)\u0000/g, (match, idx: string) => `\`\`\`\n${codeBlocks[Number(idx)]}\n\`\`\``)
+      .trim();
+
+    if (!metadata.title) {
+      const heading = text.match(/^# (.+)$/m);
+      if (heading) metadata.title = heading[1];
+    }
+
+    return { content: text, metadata, format: 'markdown' };
+  },
+};
+
+/**
+ * Indexes Jupyter notebooks as Markdown: markdown cells as-is and code cells
+ * as fenced code blocks in the notebook's language. Outputs are left out.
+ */
+export const notebookLoader: DocumentLoader = {
+  name: 'notebook',
+  extensions: ['.ipynb'],
+  mimeTypes: ['application/x-ipynb+json'],
+  load(content) {
+    const notebook = JSON.parse(content.toString('utf-8'));
+    const language = notebook.metadata?.language_info?.name || notebook.metadata?.kernelspec?.language || '';
+    const source = (cell: { source?: string | string[] }) =>
+      (Array.isArray(cell.source) ? cell.source.join('') : cell.source || '').trim();
+
+    const blocks: string[] = [];
+    for (const cell of notebook.cells || []) {
+      const text = source(cell);
+      if (!text) continue;
+
+      if (cell.cell_type === 'markdown') {
+        blocks.push(text);
+      } else if (cell.cell_type === 'code') {
+        blocks.push(`\`\`\`${language}\n${text}\n\`\`\``);
+      }
+    }
+
+    const metadata: Record<string, any> = {};
+    const heading = blocks.join('\n\n').match(/^# (.+)$/m);
+    if (heading) metadata.title = heading[1].trim();
+    if (language) metadata.language = language;
+
+    return { content: blocks.join('\n\n'), metadata, format: 'markdown' };
+  },
+};
+
+/**
+ * Parse CSV as described by RFC 4180: quoted fields may contain commas,
+ * newlines and doubled quotes
+ */
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(cells => cells.some(cell => cell.trim()));
+}
+
+/**
+ * Indexes CSV files row by row, each row as `column: value` lines, so every
+ * chunk carries the column names its values belong to
+ */
+export const csvLoader: DocumentLoader = {
+  name: 'csv',
+  extensions: ['.csv'],
+  mimeTypes: ['text/csv'],
+  load(content) {
+    const [header = [], ...rows] = parseCsv(content.toString('utf-8').replace(/^\uFEFF/, ''));
+    const columns = header.map((name, idx) => name.trim() || `column ${idx + 1}`);
+
+    const records = rows.map(cells =>
+      cells
+        .map((cell, idx) => ({ column: columns[idx] ?? `column ${idx + 1}`, value: cell.trim() }))
+        .filter(({ value }) => value)
+        .map(({ column, value }) => `${column}: ${value.replace(/\s*\n\s*/g, ' ')}`)
+        .join('\n')
+    );
+
+    return {
+      content: records.join('\n\n'),
+      metadata: { columns, rows: rows.length },
+      format: 'markdown',
+    };
+  },
+};
+
+/**
+ * Extracts the text of PDFs with unpdf, a pure JavaScript build of PDF.js.
+ * Scanned PDFs without a text layer yield no text.
+ */
+export const pdfLoader: DocumentLoader = {
+  name: 'pdf',
+  extensions: ['.pdf'],
+  mimeTypes: ['application/pdf'],
+  async load(content) {
+    // Loaded on first use, so indexing without PDFs doesn't pay for PDF.js
+    const { getDocumentProxy, extractText, getMeta } = await import('unpdf');
+    // PDF.js logs warnings about malformed files straight to the console
+    const pdf = await getDocumentProxy(new Uint8Array(content), { verbosity: 0 });
+
+    try {
+      const { totalPages, text } = await extractText(pdf, { mergePages: false });
+      const { info } = await getMeta(pdf).catch(() => ({ info: {} as Record<string, any> }));
+
+      const metadata: Record<string, any> = { pages: totalPages };
+      if (typeof info?.Title === 'string' && info.Title.trim()) {
+        metadata.title = info.Title.trim();
+      }
+
+      return {
+        content: text.map(page => page.trim()).filter(Boolean).join('\n\n'),
+        metadata,
+        format: 'text',
+      };
+    } finally {
+      await pdf.loadingTask.destroy();
+    }
+  },
+};
+
+/** Loaders used for files no custom loader claims */
+export const BUILT_IN_LOADERS: DocumentLoader[] = [htmlLoader, notebookLoader, csvLoader, pdfLoader];
+
+/**
+ * MIME type of a file, from its extension
+ */
+export function getMimeType(filePath: string): string | undefined {
+  return MIME_TYPES[path.extname(filePath).toLowerCase()];
+}
+
+/**
+ * Find the loader for a file: custom loaders from config first, then the
+ * built-in ones. Files no loader claims are read as UTF-8 text.
+ */
+export function getLoader(filePath: string, config: ResolvedRagConfig = getConfig()): DocumentLoader | undefined {
+  const extension = path.extname(filePath).toLowerCase();
+  const mimeType = getMimeType(filePath);
+
+  return [...config.loaders, ...BUILT_IN_LOADERS].find(loader =>
+    loader.extensions?.some(ext => ext.toLowerCase() === extension) ||
+    (mimeType !== undefined && loader.mimeTypes?.includes(mimeType))
+  );
+}
+
+/**
+ * Turn a file's bytes into the text to chunk. `raw` tells whether the text
+ * is the file itself, so chunk offsets and lines point into the file.
+ */
+export async function loadDocument(
+  filePath: string,
+  content: Buffer,
+  config: ResolvedRagConfig = getConfig()
+): Promise<LoadedDocument & { raw: boolean }> {
+  const loader = getLoader(filePath, config);
+
+  if (!loader) {
+    return { content: content.toString('utf-8'), raw: true };
+  }
+
+  try {
+    const document = await loader.load(content, { path: filePath, mimeType: getMimeType(filePath) });
+    return { ...document, raw: false };
+  } catch (error) {
+    throw new LoaderError(loader.name, filePath, error as Error);
+  }
+}
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { chunkMarkdown } from './markdown-chunker';
+import { countTokens, getTextSizer } from './tokenizer';
+
+const OPTIONS = { chunkSize: 200, chunkOverlap: 20 };
+
+describe('chunkMarkdown', () => {
+  it('records the heading path and anchor of each section', () => {
+    const chunks = chunkMarkdown('# Guide\n\nIntro.\n\n## Data Fetching\n\nUse fetch.\n', { chunkSize: 20, chunkOverlap: 0 });
+
+    expect(chunks.map(chunk => chunk.metadata)).toEqual([
+      { headingPath: ['Guide'], breadcrumb: 'Guide', anchor: 'guide' },
+      { headingPath: ['Guide', 'Data Fetching'], breadcrumb: 'Guide > Data Fetching', anchor: 'data-fetching' },
+    ]);
+  });
+
+  it('merges heading-only sections into the next section', () => {
+    const chunks = chunkMarkdown('# Guide\n\n## Caching\n\nCache everything.\n', OPTIONS);
+
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0].content).toBe('# Guide\n\n## Caching\n\nCache everything.');
+    expect(chunks[0].metadata?.breadcrumb).toBe('Guide > Caching');
+  });
+
+  it('keeps a heading with its content when they exceed the chunk size together', () => {
+    const paragraph = 'Revalidate cached data on a timer. '.repeat(5).trim();
+    const chunks = chunkMarkdown(`## Revalidation\n\n${paragraph}\n\n${paragraph}\n`, { chunkSize: paragraph.length + 5, chunkOverlap: 0 });
+
+    expect(chunks).toHaveLength(2);
+    expect(chunks[0].content).toBe(`## Revalidation\n\n${paragraph}`);
+    expect(chunks.every(chunk => !/^#+ [^\n]+$/.test(chunk.content))).toBe(true);
+  });
+
+  it('adds trailing headings to the last chunk', () => {
+    const chunks = chunkMarkdown('# Guide\n\nIntro.\n\n## Coming soon\n', OPTIONS);
+
+    expect(chunks.map(chunk => chunk.content)).toEqual(['# Guide\n\nIntro.\n\n## Coming soon']);
+  });
+
+  it('keeps fenced code blocks whole', () => {
+    const code = ['```ts', ...Array.from({ length: 20 }, (_, idx) => `const line${idx} = ${idx};`), '```'].join('\n');
+    const chunks = chunkMarkdown(`## Example\n\n${code}\n`, OPTIONS);
+
+    expect(chunks.some(chunk => chunk.content.includes(code))).toBe(true);
+  });
+
+  it('measures chunks in tokens with the token sizer', () => {
+    const paragraphs = Array.from({ length: 12 }, (_, idx) => `Paragraph ${idx} explains how route handlers stream responses.`);
+    const chunks = chunkMarkdown(`# Streaming\n\n${paragraphs.join('\n\n')}\n`, { chunkSize: 40, chunkOverlap: 0, sizer: getTextSizer('tokens') });
+
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) {
+      expect(countTokens(chunk.content)).toBeLessThanOrEqual(40);
+    }
+  });
+});
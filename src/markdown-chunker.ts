@@ -0,0 +1,396 @@
+import { ChunkOptions, TextChunk, chunkText } from './chunker';
+import { TextSizer, getTextSizer } from './tokenizer';
+
+/** Code blocks and tables up to this many times chunkSize are kept whole */
+const MAX_ATOMIC_BLOCK_FACTOR = 3;
+
+type BlockKind = 'heading' | 'paragraph' | 'list' | 'table' | 'code';
+
+interface Block {
+  kind: BlockKind;
+  text: string;
+}
+
+interface Section {
+  headingPath: string[];
+  anchor?: string;
+  blocks: Block[];
+}
+
+/**
+ * Splits Markdown/MDX along its heading hierarchy. Fenced code blocks and
+ * tables are kept whole, MDX imports/exports and JSX tags are removed, and
+ * each chunk records its heading path and the anchor of its nearest heading.
+ */
+export function chunkMarkdown(
+  text: string,
+  options: ChunkOptions & { mdx?: boolean }
+): TextChunk[] {
+  text = text.replace(/\r\n/g, '\n').replace(/\r/g, '\n');
+
+  if (options.mdx) {
+    text = stripMdxSyntax(text);
+  }
+
+  const chunks: TextChunk[] = [];
+  let pendingHeadings: string[] = [];
+
+  for (const section of parseSections(text)) {
+    const hasBody = section.blocks.some(block => block.kind !== 'heading');
+
+    // A heading directly followed by a subheading has nothing to chunk on
+    // its own, so its text rides along with the next section
+    if (!hasBody) {
+      pendingHeadings.push(...section.blocks.map(block => block.text));
+      continue;
+    }
+
+    // Content before the first heading has no breadcrumb
+    const metadata = section.headingPath.length > 0
+      ? {
+        headingPath: section.headingPath,
+        breadcrumb: section.headingPath.join(' > '),
+        anchor: section.anchor,
+      }
+      : undefined;
+
+    const blocks = pendingHeadings.length > 0
+      ? [{ kind: 'heading' as const, text: pendingHeadings.join('\n\n') }, ...section.blocks]
+      : section.blocks;
+    pendingHeadings = [];
+
+    for (const content of packBlocks(blocks, options)) {
+      chunks.push({ content, metadata });
+    }
+  }
+
+  // Headings at the very end have no section to join, so they close the last chunk
+  if (pendingHeadings.length > 0) {
+    const last = chunks[chunks.length - 1];
+    if (last) {
+      last.content = `${last.content}\n\n${pendingHeadings.join('\n\n')}`;
+    } else {
+      chunks.push({ content: pendingHeadings.join('\n\n') });
+    }
+  }
+
+  return chunks;
+}
+
+/**
+ * Group lines into sections (one per heading) made of blocks
+ */
+function parseSections(text: string): Section[] {
+  const sections: Section[] = [];
+  const headingStack: Array<{ level: number; title: string }> = [];
+  const slugCounts = new Map<string, number>();
+
+  let section: Section = { headingPath: [], blocks: [] };
+  let lines: string[] = [];
+  let kind: BlockKind | null = null;
+  let fence: string | null = null;
+
+  const flush = () => {
+    if (lines.length > 0 && kind) {
+      section.blocks.push({ kind, text: lines.join('\n') });
+    }
+    lines = [];
+    kind = null;
+  };
+
+  for (const line of text.split('\n')) {
+    if (fence) {
+      lines.push(line);
+      if (isFenceClose(line, fence)) {
+        fence = null;
+        flush();
+      }
+      continue;
+    }
+
+    const fenceMatch = line.match(/^\s{0,3}(`{3,}|~{3,})/);
+    if (fenceMatch) {
+      flush();
+      fence = fenceMatch[1];
+      kind = 'code';
+      lines.push(line);
+      continue;
+    }
+
+    const heading = line.match(/^\s{0,3}(#{1,6})\s+(.+?)\s*#*\s*$/);
+    if (heading) {
+      flush();
+      if (section.blocks.length > 0) {
+        sections.push(section);
+      }
+
+      const level = heading[1].length;
+      const { title, id } = parseHeadingText(heading[2]);
+
+      while (headingStack.length > 0 && headingStack[headingStack.length - 1].level >= level) {
+        headingStack.pop();
+      }
+      headingStack.push({ level, title });
+
+      section = {
+        headingPath: headingStack.map(entry => entry.title),
+        anchor: id || uniqueSlug(title, slugCounts),
+        blocks: [{ kind: 'heading', text: line.trim() }],
+      };
+      continue;
+    }
+
+    if (!line.trim()) {
+      // Blank lines end paragraphs and tables; lists may continue after one
+      if (kind !== 'list') {
+        flush();
+      }
+      continue;
+    }
+
+    const lineKind: BlockKind = /^\s*\|/.test(line)
+      ? 'table'
+      : /^\s*([-*+]|\d+[.)])\s+/.test(line)
+        ? 'list'
+        : 'paragraph';
+
+    // Indented lines continue the current list item
+    const continuesList: boolean = kind === 'list' && (lineKind === 'list' || /^\s+/.test(line));
+
+    if (kind && !continuesList && lineKind !== kind) {
+      flush();
+    }
+
+    lines.push(line);
+    kind = continuesList ? 'list' : lineKind;
+  }
+
+  flush();
+  if (section.blocks.length > 0) {
+    sections.push(section);
+  }
+
+  return sections;
+}
+
+function isFenceClose(line: string, fence: string): boolean {
+  const trimmed = line.trim();
+  return trimmed.startsWith(fence[0].repeat(fence.length)) && /^(`+|~+)$/.test(trimmed);
+}
+
+/**
+ * Strip inline formatting from heading text and pick up explicit `{#id}` anchors
+ */
+function parseHeadingText(raw: string): { title: string; id?: string } {
+  let title = raw;
+  let id: string | undefined;
+
+  const explicitId = title.match(/\s*\{#([\w-]+)\}\s*$/);
+  if (explicitId) {
+    id = explicitId[1];
+    title = title.slice(0, explicitId.index);
+  }
+
+  title = title
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/`([^`]*)`/g, '$1')
+    .replace(/(\*\*|__|\*|_|~~)(.+?)\1/g, '$2')
+    .replace(/<[^>]+>/g, '')
+    .trim();
+
+  return { title, id };
+}
+
+/**
+ * GitHub-style heading slug, de-duplicated within a document
+ */
+export function slugify(title: string): string {
+  return title
+    .toLowerCase()
+    .replace(/[^\p{L}\p{M}\p{N}\p{Pc}\- ]/gu, '')
+    .replace(/ /g, '-');
+}
+
+function uniqueSlug(title: string, counts: Map<string, number>): string {
+  const slug = slugify(title);
+  const count = counts.get(slug) || 0;
+  counts.set(slug, count + 1);
+  return count === 0 ? slug : `${slug}-${count}`;
+}
+
+/**
+ * Pack a section's blocks into chunks of up to chunkSize,
+ * never splitting a block unless it is too large on its own
+ */
+function packBlocks(blocks: Block[], options: ChunkOptions): string[] {
+  const sizer = options.sizer || getTextSizer();
+  const chunks: string[] = [];
+  let current = '';
+  let currentSize = 0;
+  // Headings are never flushed alone; they stay with the content after them
+  let onlyHeadings = false;
+
+  for (const block of blocks) {
+    for (const piece of splitBlock(block, options, sizer)) {
+      const pieceSize = sizer.measure(piece);
+
+      if (current && !onlyHeadings && currentSize + 2 + pieceSize > options.chunkSize) {
+        chunks.push(current);
+        current = piece;
+        currentSize = pieceSize;
+        onlyHeadings = block.kind === 'heading';
+      } else {
+        onlyHeadings = (!current || onlyHeadings) && block.kind === 'heading';
+        current = current ? `${current}\n\n${piece}` : piece;
+        currentSize += (currentSize > 0 ? 2 : 0) + pieceSize;
+      }
+    }
+  }
+
+  if (current.trim()) {
+    chunks.push(current);
+  }
+
+  return chunks;
+}
+
+function splitBlock(block: Block, options: ChunkOptions, sizer: TextSizer): string[] {
+  const { chunkSize } = options;
+  const size = sizer.measure(block.text);
+
+  if (size <= chunkSize) {
+    return [block.text];
+  }
+
+  if (block.kind === 'code' || block.kind === 'table') {
+    if (size <= chunkSize * MAX_ATOMIC_BLOCK_FACTOR) {
+      return [block.text];
+    }
+    return block.kind === 'code'
+      ? splitCodeFence(block.text, chunkSize, sizer)
+      : splitTable(block.text, chunkSize, sizer);
+  }
+
+  return chunkText(block.text, { ...options, sizer });
+}
+
+/**
+ * Split a huge fenced code block by lines, re-opening the fence in every
+ * piece so each chunk is still valid Markdown
+ */
+function splitCodeFence(text: string, chunkSize: number, sizer: TextSizer): string[] {
+  const lines = text.split('\n');
+  const open = lines[0];
+  const hasClose = lines.length > 1 && /^\s*(`{3,}|~{3,})\s*$/.test(lines[lines.length - 1]);
+  const close = hasClose ? lines[lines.length - 1] : open.trim().match(/^(`+|~+)/)![1];
+  const body = lines.slice(1, hasClose ? -1 : undefined);
+
+  return windowLines(body, chunkSize - sizer.measure(open) - sizer.measure(close) - 2, sizer)
+    .map(window => `${open}\n${window}\n${close}`);
+}
+
+/**
+ * Split a huge table by rows, repeating the header in every piece
+ */
+function splitTable(text: string, chunkSize: number, sizer: TextSizer): string[] {
+  const lines = text.split('\n');
+  const header = lines.slice(0, 2).join('\n');
+
+  return windowLines(lines.slice(2), chunkSize - sizer.measure(header) - 1, sizer)
+    .map(window => `${header}\n${window}`);
+}
+
+function windowLines(lines: string[], maxSize: number, sizer: TextSizer): string[] {
+  const windows: string[] = [];
+  let current: string[] = [];
+  let size = 0;
+
+  for (const line of lines) {
+    const lineSize = sizer.measure(line) + 1;
+    if (current.length > 0 && size + lineSize > maxSize) {
+      windows.push(current.join('\n'));
+      current = [];
+      size = 0;
+    }
+    current.push(line);
+    size += lineSize;
+  }
+
+  if (current.length > 0) {
+    windows.push(current.join('\n'));
+  }
+
+  return windows;
+}
+
+/**
+ * Remove MDX-only syntax outside code fences: import/export statements,
+ * JSX comments and component tags. Text inside components is kept.
+ */
+export function stripMdxSyntax(text: string): string {
+  const output: string[] = [];
+  const lines = text.split('\n');
+  let fence: string | null = null;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    if (fence) {
+      output.push(line);
+      if (isFenceClose(line, fence)) {
+        fence = null;
+      }
+      continue;
+    }
+
+    const fenceMatch = line.match(/^\s{0,3}(`{3,}|~{3,})/);
+    if (fenceMatch) {
+      fence = fenceMatch[1];
+      output.push(line);
+      continue;
+    }
+
+    // ESM statements can span lines; skip until brackets balance and the
+    // statement looks finished
+    if (/^(import|export)\s/.test(line)) {
+      let depth = 0;
+      let j = i;
+      for (; j < lines.length; j++) {
+        depth += countBrackets(lines[j]);
+        const next = lines[j + 1];
+        if (depth <= 0 && (next === undefined || !/^\s*[}\]).,]|^\s+from\s/.test(next))) {
+          break;
+        }
+      }
+      i = j;
+      continue;
+    }
+
+    // A component tag whose props continue on the following lines
+    if (/^\s*<\/?[A-Z][\w.]*/.test(line) && !line.includes('>')) {
+      while (i < lines.length - 1 && !lines[i].includes('>')) {
+        i++;
+      }
+      output.push(lines[i].slice(lines[i].indexOf('>') + 1).trim());
+      continue;
+    }
+
+    output.push(
+      line
+        .replace(/\{\/\*[\s\S]*?\*\/\}/g, '')
+        .replace(/<\/?[A-Z][\w.]*(\s[^>]*)?\/?>/g, '')
+        .replace(/\s+$/, '')
+    );
+  }
+
+  return output.join('\n');
+}
+
+function countBrackets(line: string): number {
+  let depth = 0;
+  for (const char of line.replace(/(["'`])(?:\\.|(?!\1).)*\1/g, '')) {
+    if (char === '{' || char === '(' || char === '[') depth++;
+    if (char === '}' || char === ')' || char === ']') depth--;
+  }
+  return depth;
+}
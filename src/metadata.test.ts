@@ -0,0 +1,83 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { extractMetadata } from './metadata';
+import { VectorStore } from './vectorstore';
+import { LocalEmbeddingProvider } from './embedder';
+import { hashContent } from './chunker';
+
+describe('extractMetadata', () => {
+  it('strips frontmatter and normalizes tags and dates', () => {
+    const { content, metadata } = extractMetadata(
+      'docs/guides/cache.md',
+      '---\ntitle: Caching\ntags: next, cache\ndate: 2024-03-05\n---\n# Caching\n'
+    );
+
+    expect(content).toBe('# Caching\n');
+    expect(metadata).toMatchObject({
+      title: 'Caching',
+      tags: ['next', 'cache'],
+      date: '2024-03-05T00:00:00.000Z',
+      extension: '.md',
+      directory: 'docs/guides',
+    });
+  });
+
+  it('leaves frontmatter-like text in other formats alone', () => {
+    const text = '---\ntitle: x\n---\nbody';
+
+    expect(extractMetadata('notes.txt', text).content).toBe(text);
+  });
+
+  it('uses an empty directory for files at the root', () => {
+    expect(extractMetadata('README.md', 'Hi').metadata.directory).toBe('');
+  });
+});
+
+describe('search filters', () => {
+  const provider = new LocalEmbeddingProvider();
+  let dir: string;
+  let store: VectorStore;
+
+  beforeEach(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'nextjs-rag-'));
+    store = new VectorStore(path.join(dir, 'test.db'), provider);
+
+    const chunks = [
+      { filePath: 'docs/api/fetch.md', content: 'fetch caching options', metadata: { tags: ['api'], date: '2024-01-10T00:00:00.000Z' } },
+      { filePath: 'docs/guides/cache.md', content: 'caching guide', metadata: { tags: ['guide'], date: '2024-06-01T00:00:00.000Z' } },
+      { filePath: 'blog/cache.md', content: 'caching in production', metadata: { tags: ['guide', 'blog'], date: '2023-12-24T00:00:00.000Z' } },
+    ];
+    const embeddings = await provider.embed(chunks.map(chunk => chunk.content));
+    chunks.forEach((chunk, idx) => {
+      store.insertChunk({ ...chunk, hash: hashContent(chunk.content), embedding: embeddings[idx], chunkIndex: 0 });
+    });
+  });
+
+  afterEach(() => {
+    store.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const files = (hits: Array<{ filePath: string }>) => hits.map(hit => hit.filePath).sort();
+
+  it('filters by path prefix and glob', () => {
+    expect(files(store.keywordSearch('caching', 5, { pathPrefix: 'docs/' }))).toEqual(['docs/api/fetch.md', 'docs/guides/cache.md']);
+    expect(files(store.keywordSearch('caching', 5, { pathGlob: 'blog/**' }))).toEqual(['blog/cache.md']);
+  });
+
+  it('filters by any of the tags', () => {
+    expect(files(store.keywordSearch('caching', 5, { tags: ['guide'] }))).toEqual(['blog/cache.md', 'docs/guides/cache.md']);
+  });
+
+  it('filters by date range, inclusive, with dates normalized like frontmatter dates', () => {
+    expect(files(store.keywordSearch('caching', 5, { dateFrom: '2024-01-10', dateTo: '2024-06-01' })))
+      .toEqual(['docs/api/fetch.md', 'docs/guides/cache.md']);
+  });
+
+  it('rejects invalid dates and metadata keys', () => {
+    expect(() => store.keywordSearch('caching', 5, { dateFrom: 'soon' })).toThrow(/Invalid dateFrom/);
+    expect(() => store.keywordSearch('caching', 5, { metadata: { "a') OR 1=1 --": 1 } })).toThrow(/Invalid metadata filter key/);
+  });
+});
@@ -0,0 +1,163 @@
+import * as path from 'path';
+
+export interface FileMetadata {
+  /** File extension including the dot, e.g. '.mdx' */
+  extension: string;
+  /** Directory of the file relative to the project root, '' for the root */
+  directory: string;
+  title?: string;
+  tags?: string[];
+  /** ISO 8601 date */
+  date?: string;
+  [key: string]: any;
+}
+
+const FRONTMATTER_EXTENSIONS = ['.md', '.mdx'];
+const FRONTMATTER_PATTERN = /^---[ \t]*\n([\s\S]*?)\n---[ \t]*(?:\n|$)/;
+
+/**
+ * Extract automatic metadata for a file and strip YAML frontmatter from
+ * Markdown/MDX content so it doesn't end up in chunks
+ */
+export function extractMetadata(
+  filePath: string,
+  content: string
+): { content: string; metadata: FileMetadata } {
+  const extension = path.extname(filePath).toLowerCase();
+  const directory = path.dirname(filePath).replace(/\\/g, '/');
+
+  let body = content.replace(/\r\n/g, '\n');
+  let frontmatter: Record<string, any> = {};
+
+  if (FRONTMATTER_EXTENSIONS.includes(extension)) {
+    const match = body.match(FRONTMATTER_PATTERN);
+    if (match) {
+      frontmatter = normalizeFrontmatter(parseFrontmatter(match[1]));
+      body = body.slice(match[0].length);
+    }
+  }
+
+  return {
+    content: body,
+    metadata: {
+      ...frontmatter,
+      extension,
+      directory: directory === '.' ? '' : directory,
+    },
+  };
+}
+
+/**
+ * Minimal YAML frontmatter parser covering what docs and blogs use:
+ * scalars, quoted strings, inline `[a, b]` lists and `- item` lists.
+ * Nested objects are skipped.
+ */
+export function parseFrontmatter(yaml: string): Record<string, any> {
+  const result: Record<string, any> = {};
+  let listKey: string | null = null;
+
+  for (const line of yaml.split('\n')) {
+    if (!line.trim() || line.trim().startsWith('#')) {
+      continue;
+    }
+
+    const listItem = line.match(/^\s+-\s+(.*)$/);
+    if (listItem && listKey) {
+      result[listKey].push(parseScalar(listItem[1]));
+      continue;
+    }
+
+    const pair = line.match(/^([A-Za-z0-9_-]+)\s*:\s*(.*)$/);
+    if (!pair) {
+      listKey = null;
+      continue;
+    }
+
+    const [, key, rawValue] = pair;
+    const value = rawValue.trim();
+
+    if (value === '') {
+      // Either a block list follows or the value is a nested object we ignore
+      result[key] = [];
+      listKey = key;
+    } else if (value.startsWith('[') && value.endsWith(']')) {
+      result[key] = splitInlineList(value.slice(1, -1)).map(parseScalar);
+      listKey = null;
+    } else {
+      result[key] = parseScalar(value);
+      listKey = null;
+    }
+  }
+
+  // Keys that never got list items were nested objects
+  for (const [key, value] of Object.entries(result)) {
+    if (Array.isArray(value) && value.length === 0) {
+      delete result[key];
+    }
+  }
+
+  return result;
+}
+
+function splitInlineList(list: string): string[] {
+  return list
+    .split(/,(?=(?:[^"']*["'][^"']*["'])*[^"']*$)/)
+    .map(item => item.trim())
+    .filter(Boolean);
+}
+
+function parseScalar(value: string): any {
+  const trimmed = value.replace(/\s+#.*$/, '').trim();
+
+  if (/^".*"$/.test(trimmed) || /^'.*'$/.test(trimmed)) {
+    return trimmed.slice(1, -1);
+  }
+  if (trimmed === 'true' || trimmed === 'false') {
+    return trimmed === 'true';
+  }
+  if (trimmed === 'null' || trimmed === '~') {
+    return null;
+  }
+  if (/^-?\d+(\.\d+)?$/.test(trimmed)) {
+    return Number(trimmed);
+  }
+  return trimmed;
+}
+
+/**
+ * Normalize tags to a string array and dates to ISO strings so they can be
+ * filtered in SQL
+ */
+function normalizeFrontmatter(frontmatter: Record<string, any>): Record<string, any> {
+  const result = { ...frontmatter };
+
+  if (typeof result.tags === 'string') {
+    result.tags = result.tags.split(',').map((tag: string) => tag.trim()).filter(Boolean);
+  }
+  if (Array.isArray(result.tags)) {
+    result.tags = result.tags.map(String);
+  }
+
+  if (result.date !== undefined) {
+    const date = toIsoDate(result.date);
+    if (date) {
+      result.date = date;
+    } else {
+      delete result.date;
+    }
+  }
+
+  if (result.title !== undefined) {
+    result.title = String(result.title);
+  }
+
+  return result;
+}
+
+/**
+ * Convert a date-like value to an ISO 8601 string, or null if it isn't a date
+ */
+export function toIsoDate(value: string | number | Date): string | null {
+  const date = value instanceof Date ? value : new Date(value);
+  return isNaN(date.getTime()) ? null : date.toISOString();
+}
@@ -0,0 +1,139 @@
+import Database from 'better-sqlite3';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as sqliteVec from 'sqlite-vec';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { getSchemaVersion, migrate, SCHEMA_VERSION, tableExists } from './migrations';
+import { VectorStore } from './vectorstore';
+import { LocalEmbeddingProvider } from './embedder';
+
+function columns(db: Database.Database, table: string): string[] {
+  return (db.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>).map(column => column.name);
+}
+
+/**
+ * The schema databases had before migrations existed (v0.x): chunks,
+ * vectors in vec_chunks and settings in index_meta, with user_version 0
+ */
+function createUnversionedIndex(db: Database.Database, dimension: number): void {
+  db.exec(`
+    CREATE TABLE chunks (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      file_path TEXT NOT NULL,
+      content TEXT NOT NULL,
+      hash TEXT NOT NULL,
+      vec_rowid INTEGER,
+      created_at INTEGER NOT NULL,
+      UNIQUE(file_path, hash)
+    );
+    CREATE VIRTUAL TABLE vec_chunks USING vec0(embedding FLOAT[${dimension}]);
+    CREATE TABLE index_meta (key TEXT PRIMARY KEY, value TEXT NOT NULL);
+  `);
+}
+
+describe('migrate', () => {
+  let dir: string;
+  let db: Database.Database;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'nextjs-rag-'));
+    db = new Database(path.join(dir, 'index.db'));
+    sqliteVec.load(db);
+  });
+
+  afterEach(() => {
+    db.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('creates the current schema in an empty database', () => {
+    migrate(db);
+
+    expect(getSchemaVersion(db)).toBe(SCHEMA_VERSION);
+    for (const table of ['chunks', 'chunks_fts', 'files', 'index_meta', 'collections', 'embedding_checkpoints']) {
+      expect(tableExists(db, table)).toBe(true);
+    }
+    expect(columns(db, 'chunks')).toEqual(expect.arrayContaining(['collection', 'metadata', 'chunk_index', 'start_line', 'end_line']));
+    expect(columns(db, 'files')).toEqual(expect.arrayContaining(['collection', 'source']));
+  });
+
+  it('does nothing when the database is up to date', () => {
+    migrate(db);
+    migrate(db);
+
+    expect(getSchemaVersion(db)).toBe(SCHEMA_VERSION);
+  });
+
+  it('upgrades an unversioned index, keeping its chunks and settings', () => {
+    const provider = new LocalEmbeddingProvider({ dimension: 8 });
+    createUnversionedIndex(db, 8);
+    db.prepare(`INSERT INTO chunks (file_path, content, hash, vec_rowid, created_at) VALUES (?, ?, ?, ?, ?)`)
+      .run('docs/cache.md', 'Revalidate cached data', 'h1', 1, Date.now());
+    db.prepare(`INSERT INTO vec_chunks (rowid, embedding) VALUES (1, ?)`).run(Buffer.from(new Float32Array(8).buffer));
+    const meta = { embedding_provider: 'local', embedding_model: 'local-hash-v1', dimension: '8', chunk_size: '1000', chunk_overlap: '200', library_version: '0.3.0' };
+    for (const [key, value] of Object.entries(meta)) {
+      db.prepare(`INSERT INTO index_meta (key, value) VALUES (?, ?)`).run(key, value);
+    }
+    db.close();
+
+    const store = new VectorStore(path.join(dir, 'index.db'), provider);
+    try {
+      expect(store.getCollection()).toMatchObject({ name: 'default', dimension: 8, chunkCount: 1 });
+      expect(store.getIndexInfo()).toMatchObject({ embeddingModel: 'local-hash-v1', chunkSize: 1000, schemaVersion: SCHEMA_VERSION });
+      expect(store.keywordSearch('revalidate', 5).map(hit => hit.filePath)).toEqual(['docs/cache.md']);
+    } finally {
+      store.close();
+    }
+
+    db = new Database(path.join(dir, 'index.db'));
+    expect(db.prepare(`SELECT key FROM index_meta`).all()).toEqual([{ key: 'library_version' }]);
+  });
+
+  it('drops the vector table of an index that was never built', () => {
+    createUnversionedIndex(db, 384);
+
+    migrate(db);
+
+    expect(tableExists(db, 'vec_chunks')).toBe(false);
+    expect(db.prepare(`SELECT COUNT(*) AS count FROM collections`).get()).toEqual({ count: 0 });
+  });
+
+  it('refuses databases from a newer version', () => {
+    db.pragma(`user_version = ${SCHEMA_VERSION + 1}`);
+
+    expect(() => migrate(db)).toThrow(/newer than this version of nextjs-rag supports/);
+  });
+});
+
+describe('index settings', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'nextjs-rag-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('refuses to open an index with a different embedding model or dimension', () => {
+    const dbPath = path.join(dir, 'index.db');
+    const provider = new LocalEmbeddingProvider({ dimension: 8 });
+    const store = new VectorStore(dbPath, provider);
+    store.setIndexInfo({
+      embeddingProvider: provider.name,
+      embeddingModel: provider.model,
+      dimension: 8,
+      chunkStrategy: 'auto',
+      chunkSize: 1000,
+      chunkOverlap: 200,
+      chunkUnit: 'chars',
+    });
+    store.close();
+
+    const otherModel = { ...provider, model: 'other-model', embed: provider.embed.bind(provider) };
+    expect(() => new VectorStore(dbPath, new LocalEmbeddingProvider({ dimension: 16 }))).toThrow(/dimension mismatch.*stores 8-dimensional vectors/);
+    expect(() => new VectorStore(dbPath, otherModel)).toThrow(/model mismatch.*local\/local-hash-v1/);
+  });
+});
@@ -0,0 +1,294 @@
+import Database from 'better-sqlite3';
+
+interface Migration {
+  version: number;
+  description: string;
+  up(db: Database.Database): void;
+}
+
+/**
+ * Schema migrations, applied in order. The schema version is kept in
+ * SQLite's `user_version` pragma.
+ *
+ * Versions 1-5 describe schemas that shipped before migrations existed, so
+ * they must be idempotent: an unversioned database may already contain any
+ * of them. Later migrations can rely on the previous version being in place.
+ */
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Create chunks table',
+    up(db) {
+      // Create chunks table with vec_rowid to track the vector table row
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS chunks (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          file_path TEXT NOT NULL,
+          content TEXT NOT NULL,
+          hash TEXT NOT NULL,
+          vec_rowid INTEGER,
+          created_at INTEGER NOT NULL,
+          UNIQUE(file_path, hash)
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_file_path ON chunks(file_path);
+        CREATE INDEX IF NOT EXISTS idx_hash ON chunks(hash);
+        CREATE INDEX IF NOT EXISTS idx_vec_rowid ON chunks(vec_rowid);
+      `);
+
+      // Vector tables are created per collection once its dimension is
+      // known; older databases already have one named vec_chunks
+    },
+  },
+  {
+    version: 2,
+    description: 'Add full-text index for keyword search',
+    up(db) {
+      if (tableExists(db, 'chunks_fts')) {
+        return;
+      }
+
+      // It reads content from the chunks table, so it only stores the index
+      db.exec(`
+        CREATE VIRTUAL TABLE chunks_fts USING fts5(
+          content,
+          content='chunks',
+          content_rowid='id'
+        );
+      `);
+
+      db.exec(`INSERT INTO chunks_fts(chunks_fts) VALUES ('rebuild')`);
+    },
+  },
+  {
+    version: 3,
+    description: 'Add chunk metadata column',
+    up(db) {
+      if (!columnExists(db, 'chunks', 'metadata')) {
+        db.exec(`ALTER TABLE chunks ADD COLUMN metadata TEXT`);
+      }
+    },
+  },
+  {
+    version: 4,
+    description: 'Add file manifest',
+    up(db) {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS files (
+          file_path TEXT PRIMARY KEY,
+          content_hash TEXT NOT NULL,
+          size INTEGER NOT NULL,
+          mtime INTEGER NOT NULL,
+          chunk_count INTEGER NOT NULL,
+          indexed_at INTEGER NOT NULL
+        );
+      `);
+    },
+  },
+  {
+    version: 5,
+    description: 'Add index metadata table',
+    up(db) {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS index_meta (
+          key TEXT PRIMARY KEY,
+          value TEXT NOT NULL
+        );
+      `);
+    },
+  },
+  {
+    version: 6,
+    description: 'Add collections',
+    up(db) {
+      db.exec(`
+        CREATE TABLE collections (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          name TEXT NOT NULL UNIQUE,
+          vec_table TEXT NOT NULL,
+          dimension INTEGER NOT NULL,
+          embedding_provider TEXT,
+          embedding_model TEXT,
+          chunk_strategy TEXT,
+          chunk_size INTEGER,
+          chunk_overlap INTEGER,
+          chunk_unit TEXT,
+          created_at INTEGER NOT NULL
+        );
+      `);
+
+      // Uniqueness constraints gain a collection column, which needs new
+      // tables. Chunk ids are kept so the full-text index stays valid.
+      db.exec(`
+        CREATE TABLE chunks_v6 (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          collection TEXT NOT NULL DEFAULT 'default',
+          file_path TEXT NOT NULL,
+          content TEXT NOT NULL,
+          hash TEXT NOT NULL,
+          vec_rowid INTEGER,
+          metadata TEXT,
+          created_at INTEGER NOT NULL,
+          UNIQUE(collection, file_path, hash)
+        );
+
+        INSERT INTO chunks_v6 (id, file_path, content, hash, vec_rowid, metadata, created_at)
+        SELECT id, file_path, content, hash, vec_rowid, metadata, created_at FROM chunks;
+
+        DROP TABLE chunks;
+        ALTER TABLE chunks_v6 RENAME TO chunks;
+
+        CREATE INDEX idx_collection_file_path ON chunks(collection, file_path);
+        CREATE INDEX idx_hash ON chunks(hash);
+        CREATE INDEX idx_vec_rowid ON chunks(vec_rowid);
+
+        CREATE TABLE files_v6 (
+          collection TEXT NOT NULL DEFAULT 'default',
+          file_path TEXT NOT NULL,
+          content_hash TEXT NOT NULL,
+          size INTEGER NOT NULL,
+          mtime INTEGER NOT NULL,
+          chunk_count INTEGER NOT NULL,
+          indexed_at INTEGER NOT NULL,
+          PRIMARY KEY (collection, file_path)
+        );
+
+        INSERT INTO files_v6 (file_path, content_hash, size, mtime, chunk_count, indexed_at)
+        SELECT file_path, content_hash, size, mtime, chunk_count, indexed_at FROM files;
+
+        DROP TABLE files;
+        ALTER TABLE files_v6 RENAME TO files;
+      `);
+
+      // The existing index becomes the default collection
+      const meta = Object.fromEntries(
+        (db.prepare(`SELECT key, value FROM index_meta`).all() as Array<{ key: string; value: string }>)
+          .map(row => [row.key, row.value])
+      );
+      const vecTable = db.prepare(`
+        SELECT sql FROM sqlite_master WHERE name = 'vec_chunks'
+      `).get() as { sql: string } | undefined;
+
+      if (vecTable) {
+        const hasVectors = !!db.prepare(`SELECT 1 FROM vec_chunks LIMIT 1`).get();
+
+        if (meta.embedding_model || hasVectors) {
+          const dimension = Number(meta.dimension) || Number(vecTable.sql.match(/FLOAT\[(\d+)\]/i)?.[1]);
+
+          db.prepare(`
+            INSERT INTO collections (
+              name, vec_table, dimension, embedding_provider, embedding_model,
+              chunk_strategy, chunk_size, chunk_overlap, chunk_unit, created_at
+            ) VALUES ('default', 'vec_chunks', ?, ?, ?, ?, ?, ?, ?, ?)
+          `).run(
+            dimension,
+            meta.embedding_provider ?? null,
+            meta.embedding_model ?? null,
+            meta.chunk_strategy ?? null,
+            meta.chunk_size !== undefined ? Number(meta.chunk_size) : null,
+            meta.chunk_overlap !== undefined ? Number(meta.chunk_overlap) : null,
+            meta.chunk_unit ?? null,
+            Date.now()
+          );
+        } else {
+          // Never indexed: let the default collection pick its own dimension
+          db.exec(`DROP TABLE vec_chunks`);
+        }
+      }
+
+      db.exec(`
+        DELETE FROM index_meta WHERE key NOT IN ('library_version', 'schema_version')
+      `);
+    },
+  },
+  {
+    version: 7,
+    description: 'Add chunk positions within their file',
+    up(db) {
+      // Existing chunks keep NULL positions until their file is re-indexed
+      db.exec(`
+        ALTER TABLE chunks ADD COLUMN chunk_index INTEGER;
+        ALTER TABLE chunks ADD COLUMN start_offset INTEGER;
+        ALTER TABLE chunks ADD COLUMN end_offset INTEGER;
+
+        CREATE INDEX idx_file_chunk_index ON chunks(collection, file_path, chunk_index);
+      `);
+    },
+  },
+  {
+    version: 8,
+    description: 'Add chunk line ranges',
+    up(db) {
+      db.exec(`
+        ALTER TABLE chunks ADD COLUMN start_line INTEGER;
+        ALTER TABLE chunks ADD COLUMN end_line INTEGER;
+      `);
+    },
+  },
+  {
+    version: 9,
+    description: 'Track whether files were indexed from disk or added through the API',
+    up(db) {
+      db.exec(`
+        ALTER TABLE files ADD COLUMN source TEXT NOT NULL DEFAULT 'file';
+      `);
+    },
+  },
+  {
+    version: 10,
+    description: 'Checkpoint embeddings during indexing so an interrupted run can resume',
+    up(db) {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS embedding_checkpoints (
+          collection TEXT NOT NULL,
+          hash TEXT NOT NULL,
+          embedding BLOB NOT NULL,
+          created_at INTEGER NOT NULL,
+          PRIMARY KEY (collection, hash)
+        );
+      `);
+    },
+  },
+];
+
+/** Schema version of databases created by this version of the library */
+export const SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/**
+ * Bring a database up to the current schema version in place
+ */
+export function migrate(db: Database.Database): void {
+  const currentVersion = getSchemaVersion(db);
+
+  if (currentVersion > SCHEMA_VERSION) {
+    throw new Error(
+      `Index schema version ${currentVersion} is newer than this version of nextjs-rag supports (${SCHEMA_VERSION}). Upgrade nextjs-rag to use this index.`
+    );
+  }
+
+  for (const migration of MIGRATIONS) {
+    if (migration.version <= currentVersion) continue;
+
+    const apply = db.transaction(() => {
+      migration.up(db);
+      db.pragma(`user_version = ${migration.version}`);
+    });
+
+    apply();
+  }
+}
+
+export function getSchemaVersion(db: Database.Database): number {
+  return db.pragma('user_version', { simple: true }) as number;
+}
+
+export function tableExists(db: Database.Database, name: string): boolean {
+  return !!db.prepare(`
+    SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = ?
+  `).get(name);
+}
+
+function columnExists(db: Database.Database, table: string, column: string): boolean {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>;
+  return columns.some(entry => entry.name === column);
+}
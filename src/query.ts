@@ -1,40 +1,242 @@
-import { VectorStore } from './vectorstore';
-import { generateEmbedding } from './embedder';
-import { QueryResult } from './types';
-import { getConfig } from './config';
+import { VectorStore, RRF_K } from './vectorstore';
+import { getEmbeddingProvider, embedTexts } from './embedder';
+import { QueryResult, SearchMode, ContextChunk, QueryFilter, EmbeddingProvider } from './types';
+import { getConfig, resolveIndexConfig, DEFAULT_COLLECTION } from './config';
+import { RagError } from './errors';
+import { RerankOptions, needsRerank, rerankResults } from './rerank';
+import { assembleContext } from './context';
+import { getUrlMapper, toCitation } from './citations';
+
+export interface QueryOptions extends RerankOptions {
+  topK?: number;
+  dbPath?: string;
+  /** Search mode: vector, keyword (BM25) or hybrid (default: vector) */
+  mode?: SearchMode;
+  /** Weight of the vector ranking in hybrid mode, 0-1 (default: 0.5) */
+  hybridWeight?: number;
+  /** Restrict the search by path, tags, date or other metadata */
+  filter?: QueryFilter;
+  /** Collection(s) to search; results from several collections are merged (default: 'default') */
+  collection?: string | string[];
+  /** Candidates fetched before reranking, MMR and per-file caps (default: 4 × topK) */
+  candidates?: number;
+  /** Token budget for the context text; passages that don't fit are cut short or dropped */
+  maxContextTokens?: number;
+  /** Merge hits that are adjacent or overlapping in the same file into one passage (default: true) */
+  mergeAdjacent?: boolean;
+  /** Also include this many chunks before and after each hit (default: 0) */
+  expandNeighbors?: number;
+}
+
+interface CollectionSearch {
+  question: string;
+  topK: number;
+  mode: SearchMode;
+  hybridWeight: number;
+  filter?: QueryFilter;
+  /** Question embeddings by provider, shared by collections using the same model */
+  embeddings: Map<string, Promise<Float32Array>>;
+  /** Also load the stored embeddings of the results (for MMR) */
+  withChunkEmbeddings: boolean;
+}
+
+interface CollectionResult {
+  chunks: ContextChunk[];
+  model: string;
+  chunkEmbeddings: Map<number, Float32Array>;
+}
+
+/**
+ * Search one collection with the embedding model it was built with
+ */
+async function searchCollection(
+  collection: string,
+  dbPath: string | undefined,
+  search: CollectionSearch
+): Promise<CollectionResult> {
+  const vectorStore = new VectorStore(dbPath, undefined, collection);
+
+  try {
+    if (collection !== DEFAULT_COLLECTION && !vectorStore.getCollection()) {
+      throw new RagError('not_found', `Collection "${collection}" does not exist in ${vectorStore.dbPath}`);
+    }
+
+    // The collection's own settings decide which model embeds the question
+    const config = resolveIndexConfig(getConfig(collection), vectorStore.getIndexInfo(), {
+      dbPath: vectorStore.dbPath,
+      collection,
+    });
+
+    const embeddingProvider = getEmbeddingProvider(config);
+    vectorStore.assertCompatible(embeddingProvider);
+    const model = `${embeddingProvider.name}/${embeddingProvider.model}/${embeddingProvider.dimension}`;
+
+    let chunks: ContextChunk[];
+
+    if (search.mode === 'keyword') {
+      // Keyword search needs no embedding call
+      chunks = vectorStore.keywordSearch(search.question, search.topK, search.filter);
+    } else {
+      const queryEmbedding = await embedQuestion(search, embeddingProvider);
+
+      chunks = search.mode === 'hybrid'
+        ? vectorStore.hybridSearch(queryEmbedding, search.question, search.topK, search.hybridWeight, search.filter)
+        : vectorStore.similaritySearch(queryEmbedding, search.topK, search.filter);
+    }
+
+    const chunkEmbeddings = search.withChunkEmbeddings
+      ? vectorStore.getEmbeddings(chunks.map(chunk => chunk.id))
+      : new Map<number, Float32Array>();
+
+    return { chunks, model, chunkEmbeddings };
+  } finally {
+    vectorStore.close();
+  }
+}
+
+function embedQuestion(search: CollectionSearch, provider: EmbeddingProvider): Promise<Float32Array> {
+  const key = `${provider.name}/${provider.model}/${provider.dimension}`;
+  let embedding = search.embeddings.get(key);
+
+  if (!embedding) {
+    embedding = embedTexts([search.question], provider).then(([vector]) => vector);
+    search.embeddings.set(key, embedding);
+  }
+  return embedding;
+}
+
+/**
+ * Merge results from several collections. Scores are compared directly when
+ * they are on the same scale; cosine similarities from different embedding
+ * models are not, so those rankings are fused by rank instead.
+ */
+function mergeRankings(rankings: ContextChunk[][], topK: number, fuseByRank: boolean): ContextChunk[] {
+  const merged = fuseByRank
+    ? rankings.flatMap(ranking => ranking.map((chunk, rank) => ({ ...chunk, score: 1 / (RRF_K + rank + 1) })))
+    : rankings.flat();
+
+  return merged
+    .sort((a, b) => b.score - a.score)
+    .slice(0, topK);
+}
+
+/**
+ * Load the chunks surrounding each hit, by hit id. Chunks indexed before
+ * positions were stored have no neighbors.
+ */
+function loadNeighbors(hits: ContextChunk[], distance: number, dbPath?: string): Map<number, ContextChunk[]> {
+  const neighbors = new Map<number, ContextChunk[]>();
+  const collections = [...new Set(hits.map(hit => hit.collection))];
+
+  for (const collection of collections) {
+    const vectorStore = new VectorStore(dbPath, undefined, collection);
+
+    try {
+      const byFile = new Map<string, ContextChunk[]>();
+      for (const hit of hits) {
+        if (hit.collection === collection && hit.chunkIndex !== undefined) {
+          byFile.set(hit.filePath, [...(byFile.get(hit.filePath) || []), hit]);
+        }
+      }
+
+      for (const [filePath, fileHits] of byFile) {
+        const wanted = new Set<number>();
+        for (const hit of fileHits) {
+          for (let offset = -distance; offset <= distance; offset++) {
+            if (offset !== 0 && hit.chunkIndex! + offset >= 0) {
+              wanted.add(hit.chunkIndex! + offset);
+            }
+          }
+        }
+
+        const chunks = vectorStore.getChunksByIndex(filePath, [...wanted]);
+        for (const hit of fileHits) {
+          neighbors.set(hit.id, chunks.filter(chunk =>
+            chunk.id !== hit.id && Math.abs(chunk.chunkIndex! - hit.chunkIndex!) <= distance
+          ));
+        }
+      }
+    } finally {
+      vectorStore.close();
+    }
+  }
+
+  return neighbors;
+}
 
 /**
  * Query the RAG system
  */
 export async function queryRag(
   question: string,
-  options?: {
-    topK?: number;
-    dbPath?: string;
-  }
+  options?: QueryOptions
 ): Promise<QueryResult> {
   const config = getConfig();
   const topK = options?.topK || config.topK;
-  
-  // Generate embedding for the question
-  const queryEmbedding = await generateEmbedding(question);
-  
-  // Search for similar chunks
-  const vectorStore = new VectorStore(options?.dbPath);
-  const contextChunks = vectorStore.similaritySearch(queryEmbedding, topK);
-  vectorStore.close();
-  
-  // Combine context
-  const contextText = contextChunks
-    .map((chunk, idx) => `[${idx + 1}] ${chunk.content}`)
-    .join('\n\n');
-  
+  const mode = options?.mode || config.searchMode;
+  const hybridWeight = options?.hybridWeight ?? config.hybridWeight;
+
+  const requested = options?.collection ?? DEFAULT_COLLECTION;
+  const collections = [...new Set(Array.isArray(requested) ? requested : [requested])];
+
+  if (collections.length === 0) {
+    throw new RagError('invalid_request', 'At least one collection is required');
+  }
+
+  // Reranking, MMR and per-file caps pick from a larger candidate pool
+  const rerank = needsRerank(options || {});
+  const candidateCount = rerank ? Math.max(options?.candidates ?? topK * 4, topK) : topK;
+
+  const search: CollectionSearch = {
+    question,
+    topK: candidateCount,
+    mode,
+    hybridWeight,
+    filter: options?.filter,
+    embeddings: new Map(),
+    withChunkEmbeddings: !!options?.mmr,
+  };
+
+  const results: CollectionResult[] = [];
+  for (const collection of collections) {
+    results.push(await searchCollection(collection, options?.dbPath, search));
+  }
+
+  const models = new Set(results.map(result => result.model));
+  const candidates = results.length === 1
+    ? results[0].chunks
+    : mergeRankings(results.map(result => result.chunks), candidateCount, mode === 'vector' && models.size > 1);
+
+  const contextChunks = rerank
+    ? await rerankResults(
+      question,
+      candidates,
+      topK,
+      options!,
+      new Map(results.flatMap(result => [...result.chunkEmbeddings]))
+    )
+    : candidates;
+
+  const neighbors = options?.expandNeighbors
+    ? loadNeighbors(contextChunks, options.expandNeighbors, options.dbPath)
+    : undefined;
+
+  // Merge hits into passages and fit them into the token budget
+  const { text, passages, truncation } = assembleContext(contextChunks, neighbors, {
+    maxTokens: options?.maxContextTokens,
+    mergeAdjacent: options?.mergeAdjacent,
+  });
+
   // Get unique citations
-  const citations = [...new Set(contextChunks.map(chunk => chunk.filePath))];
-  
+  const citations = [...new Set(passages.map(passage => passage.filePath))];
+  const urlMapper = getUrlMapper(config);
+
   return {
-    text: contextText,
+    text,
     context: contextChunks,
+    passages,
     citations,
+    sources: passages.map(passage => toCitation(passage, urlMapper)),
+    truncation,
   };
 }
@@ -0,0 +1,285 @@
+import * as readline from 'readline';
+import * as fs from 'fs';
+import * as path from 'path';
+import chalk from 'chalk';
+import { queryRag, QueryOptions } from './query';
+import { askRagStream } from './answer';
+import { toCitation } from './citations';
+import { getConfig, DEFAULT_COLLECTION } from './config';
+import { formatSource, printChunk, printResults } from './cli-output';
+import { ContextChunk, QueryFilter, SearchMode } from './types';
+
+/** Questions kept in the history file */
+const HISTORY_SIZE = 500;
+
+const SEARCH_MODES: SearchMode[] = ['vector', 'keyword', 'hybrid'];
+
+export interface ChatReplOptions {
+  /** Initial query options; the REPL commands change them as you go */
+  query?: QueryOptions;
+  /** Start in answer mode, generating an answer with the chat model (default: false) */
+  answer?: boolean;
+  /** Show the whole text of each result (default: false) */
+  full?: boolean;
+  /** File to keep the question history in (default: chat_history next to the database) */
+  historyFile?: string;
+}
+
+const HELP = `
+Type a question to search the index. Commands:
+  /k <n>                      Number of results
+  /mode <mode>                Search mode: vector, keyword or hybrid
+  /collection <names>         Comma-separated collections to search
+  /filter <key> <value>       Filter by path (prefix), glob, tags, from or to (dates)
+  /filter clear               Remove all filters
+  /rerank on|off              Rerank with the built-in heuristic reranker
+  /tokens <n>|off             Token budget for the context
+  /full on|off                Show the whole text of each result
+  /answer on|off              Generate an answer with the chat model
+  /show <n>                   Show the whole text and source of result n
+  /context                    Show the context of the last question
+  /history                    List earlier questions
+  /settings                   Show the current settings
+  /help                       Show this help
+  /exit                       Quit (or press Ctrl+D)
+`;
+
+interface ReplState {
+  query: QueryOptions;
+  answer: boolean;
+  full: boolean;
+  /** Results and context of the last question */
+  hits: ContextChunk[];
+  context?: string;
+  history: string[];
+}
+
+function readHistory(historyFile: string): string[] {
+  try {
+    return fs.readFileSync(historyFile, 'utf-8').split('\n').filter(Boolean).slice(-HISTORY_SIZE);
+  } catch {
+    return [];
+  }
+}
+
+function appendHistory(historyFile: string, question: string): void {
+  try {
+    fs.mkdirSync(path.dirname(historyFile), { recursive: true });
+    fs.appendFileSync(historyFile, `${question.replace(/\n/g, ' ')}\n`);
+  } catch {
+    // History is a convenience; a read-only directory shouldn't stop the REPL
+  }
+}
+
+function parseSwitch(value: string | undefined): boolean | undefined {
+  if (value === 'on') return true;
+  if (value === 'off') return false;
+  return undefined;
+}
+
+function parseCount(value: string | undefined): number | undefined {
+  const count = Number(value);
+  return Number.isInteger(count) && count > 0 ? count : undefined;
+}
+
+function describeSettings(state: ReplState): string {
+  const { query } = state;
+  const filter = Object.entries(query.filter || {})
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => `${key}=${Array.isArray(value) ? value.join(',') : value}`);
+  const collection = [query.collection || DEFAULT_COLLECTION].flat().join(',');
+
+  return [
+    `k=${query.topK ?? getConfig().topK}`,
+    `mode=${query.mode || getConfig().searchMode}`,
+    `collection=${collection}`,
+    `filter=${filter.length > 0 ? filter.join(' ') : 'none'}`,
+    `rerank=${query.reranker ? 'on' : 'off'}`,
+    `tokens=${query.maxContextTokens ?? 'off'}`,
+    `full=${state.full ? 'on' : 'off'}`,
+    `answer=${state.answer ? 'on' : 'off'}`,
+  ].join('  ');
+}
+
+const FILTER_KEYS: Record<string, (filter: QueryFilter, value: string) => void> = {
+  path: (filter, value) => { filter.pathPrefix = value; },
+  glob: (filter, value) => { filter.pathGlob = value.split(',').map(pattern => pattern.trim()); },
+  tags: (filter, value) => { filter.tags = value.split(',').map(tag => tag.trim()); },
+  from: (filter, value) => { filter.dateFrom = value; },
+  to: (filter, value) => { filter.dateTo = value; },
+};
+
+/**
+ * Run a REPL command. Returns false for /exit.
+ */
+function runCommand(input: string, state: ReplState): boolean {
+  const [command, ...args] = input.slice(1).trim().split(/\s+/);
+  const value = args.join(' ');
+  const invalid = (usage: string) => {
+    console.log(chalk.yellow(`Usage: ${usage}`));
+    return true;
+  };
+
+  switch (command) {
+    case 'k': {
+      const topK = parseCount(value);
+      if (topK === undefined) return invalid('/k <n>');
+      state.query.topK = topK;
+      break;
+    }
+    case 'mode':
+      if (!SEARCH_MODES.includes(value as SearchMode)) return invalid(`/mode ${SEARCH_MODES.join('|')}`);
+      state.query.mode = value as SearchMode;
+      break;
+    case 'collection':
+      if (!value) return invalid('/collection <names>');
+      state.query.collection = value.split(',').map(name => name.trim());
+      break;
+    case 'filter': {
+      if (args[0] === 'clear') {
+        state.query.filter = undefined;
+        break;
+      }
+      const setFilter = FILTER_KEYS[args[0]];
+      if (!setFilter || args.length < 2) return invalid(`/filter ${Object.keys(FILTER_KEYS).join('|')} <value>, or /filter clear`);
+      state.query.filter = { ...state.query.filter };
+      setFilter(state.query.filter, args.slice(1).join(' '));
+      break;
+    }
+    case 'rerank': {
+      const enabled = parseSwitch(value);
+      if (enabled === undefined) return invalid('/rerank on|off');
+      state.query.reranker = enabled ? 'heuristic' : undefined;
+      break;
+    }
+    case 'tokens': {
+      const maxTokens = parseCount(value);
+      if (maxTokens === undefined && value !== 'off') return invalid('/tokens <n>|off');
+      state.query.maxContextTokens = maxTokens;
+      break;
+    }
+    case 'full':
+    case 'answer': {
+      const enabled = parseSwitch(value);
+      if (enabled === undefined) return invalid(`/${command} on|off`);
+      state[command] = enabled;
+      break;
+    }
+    case 'show': {
+      const rank = parseCount(value);
+      const hit = rank !== undefined ? state.hits[rank - 1] : undefined;
+      if (!hit) return invalid(state.hits.length > 0 ? `/show 1-${state.hits.length}` : '/show <n>, after asking a question');
+      console.log();
+      printChunk(hit, rank!, { full: true, showScore: true, showCollection: true });
+      if (hit.breadcrumb) console.log(chalk.gray(`    Section: ${hit.breadcrumb}`));
+      console.log(chalk.gray(`    Source: ${formatSource(toCitation(hit))}`));
+      if (hit.metadata && Object.keys(hit.metadata).length > 0) {
+        console.log(chalk.gray(`    Metadata: ${JSON.stringify(hit.metadata)}`));
+      }
+      console.log();
+      return true;
+    }
+    case 'context':
+      console.log(state.context ? `\n${state.context}\n` : chalk.gray('Ask a question first.'));
+      return true;
+    case 'history':
+      state.history.forEach((question, idx) => console.log(chalk.gray(`${String(idx + 1).padStart(4)}  `) + question));
+      return true;
+    case 'settings':
+      break;
+    case 'help':
+      console.log(HELP);
+      return true;
+    case 'exit':
+    case 'quit':
+      return false;
+    default:
+      console.log(chalk.yellow(`Unknown command /${command}. Type /help for the commands.`));
+      return true;
+  }
+
+  console.log(chalk.gray(describeSettings(state)));
+  return true;
+}
+
+async function ask(question: string, state: ReplState): Promise<void> {
+  if (!state.answer) {
+    const result = await queryRag(question, state.query);
+    state.hits = result.context;
+    state.context = result.text;
+    printResults(result, { full: state.full, showScore: (state.query.mode || getConfig().searchMode) !== 'vector' });
+    console.log();
+    return;
+  }
+
+  process.stdout.write('\n');
+  for await (const event of askRagStream(question, state.query)) {
+    if (event.type === 'token') {
+      process.stdout.write(event.token);
+      continue;
+    }
+
+    state.hits = event.context;
+    state.context = event.passages.map((passage, idx) => `[${idx + 1}] ${passage.content}`).join('\n\n');
+    console.log('\n');
+    if (event.citations.length > 0) {
+      console.log(chalk.bold('📚 Citations:'));
+      for (const citation of event.citations) {
+        console.log(chalk.gray(`  [${citation.index}] ${formatSource(citation)}`));
+      }
+    }
+    console.log(chalk.gray(`  ${event.context.length} result(s) retrieved; /show <n> shows one\n`));
+  }
+}
+
+/**
+ * Interactive search over the index: type questions, change the query
+ * options with /commands, and optionally generate answers. Resolves when
+ * the user quits.
+ */
+export async function startChat(options: ChatReplOptions = {}): Promise<void> {
+  const historyFile = options.historyFile || path.join(path.dirname(options.query?.dbPath || getConfig().dbPath), 'chat_history');
+
+  const state: ReplState = {
+    query: { ...options.query },
+    answer: options.answer ?? false,
+    full: options.full ?? false,
+    hits: [],
+    history: readHistory(historyFile),
+  };
+
+  const rl = readline.createInterface({
+    input: process.stdin,
+    output: process.stdout,
+    prompt: chalk.cyan('rag> '),
+    // readline wants the most recent entry first
+    history: [...state.history].reverse(),
+    historySize: HISTORY_SIZE,
+  });
+  rl.on('SIGINT', () => rl.close());
+
+  console.log(chalk.bold('nextjs-rag chat') + chalk.gray(' — type a question, /help for commands, Ctrl+D to quit'));
+  console.log(chalk.gray(describeSettings(state)));
+  rl.prompt();
+
+  for await (const line of rl) {
+    const input = line.trim();
+
+    if (input.startsWith('/')) {
+      if (!runCommand(input, state)) break;
+    } else if (input) {
+      state.history.push(input);
+      appendHistory(historyFile, input);
+
+      try {
+        await ask(input, state);
+      } catch (error) {
+        console.log(chalk.red((error as Error).message));
+      }
+    }
+
+    rl.prompt();
+  }
+
+  rl.close();
+}
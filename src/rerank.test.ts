@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { HeuristicReranker, rerankResults } from './rerank';
+import { ContextChunk } from './types';
+
+function chunk(id: number, filePath: string, content: string, score: number): ContextChunk {
+  return { id, filePath, content, collection: 'default', similarity: score, score };
+}
+
+const ids = (chunks: ContextChunk[]) => chunks.map(entry => entry.id);
+
+describe('rerankResults', () => {
+  it('diversifies results with MMR, sinking near-duplicates', async () => {
+    const candidates = [
+      chunk(1, 'docs/cache.md', 'caching part 1', 0.9),
+      chunk(2, 'docs/cache.md', 'caching part 2', 0.89),
+      chunk(3, 'docs/routing.md', 'routing', 0.8),
+    ];
+    const embeddings = new Map([
+      [1, new Float32Array([1, 0])],
+      [2, new Float32Array([0.99, 0.1])],
+      [3, new Float32Array([0, 1])],
+    ]);
+
+    expect(ids(await rerankResults('caching', candidates, 3, {}, embeddings))).toEqual([1, 2, 3]);
+    expect(ids(await rerankResults('caching', candidates, 3, { mmr: true }, embeddings))).toEqual([1, 3, 2]);
+    // A lambda of 1 is pure relevance
+    expect(ids(await rerankResults('caching', candidates, 3, { mmr: { lambda: 1 } }, embeddings))).toEqual([1, 2, 3]);
+  });
+
+  it('caps results per file and records the original rank', async () => {
+    const candidates = [
+      chunk(1, 'a.md', 'a1', 0.9),
+      chunk(2, 'a.md', 'a2', 0.8),
+      chunk(3, 'a.md', 'a3', 0.7),
+      chunk(4, 'b.md', 'b1', 0.6),
+    ];
+    const results = await rerankResults('q', candidates, 3, { maxPerFile: 2 });
+
+    expect(ids(results)).toEqual([1, 2, 4]);
+    expect(results.map(result => result.originalRank)).toEqual([1, 2, 4]);
+  });
+
+  it('orders by the scores of a custom reranker', async () => {
+    const reranker = { name: 'reverse', rerank: async (_query: string, chunks: ContextChunk[]) => chunks.map(entry => entry.id) };
+    const results = await rerankResults('q', [chunk(1, 'a.md', 'a', 0.9), chunk(2, 'b.md', 'b', 0.5)], 2, { reranker });
+
+    expect(ids(results)).toEqual([2, 1]);
+    expect(results[0].rerankScore).toBe(2);
+  });
+
+  it('rejects rerankers that return the wrong number of scores', async () => {
+    const reranker = { name: 'broken', rerank: async () => [1] };
+
+    await expect(rerankResults('q', [chunk(1, 'a.md', 'a', 1), chunk(2, 'b.md', 'b', 1)], 2, { reranker }))
+      .rejects.toThrow('Reranker broken returned 1 scores for 2 chunks');
+  });
+});
+
+describe('HeuristicReranker', () => {
+  it('prefers chunks that contain the query terms', async () => {
+    const scores = await new HeuristicReranker().rerank('revalidate cached data', [
+      chunk(1, 'docs/styling.md', 'Style buttons with CSS modules', 0.6),
+      chunk(2, 'docs/cache.md', 'Revalidate cached data on a timer', 0.5),
+    ]);
+
+    expect(scores[1]).toBeGreaterThan(scores[0]);
+  });
+});
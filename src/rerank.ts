@@ -0,0 +1,173 @@
+import { ContextChunk, Reranker } from './types';
+
+/** Relevance/diversity trade-off used when MMR is enabled without one */
+const DEFAULT_MMR_LAMBDA = 0.5;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'can', 'do', 'does', 'for', 'from', 'how', 'i',
+  'in', 'is', 'it', 'of', 'on', 'or', 'that', 'the', 'this', 'to', 'what', 'when', 'where', 'which',
+  'who', 'why', 'with', 'you',
+]);
+
+export interface RerankOptions {
+  /** Rerank candidates before picking the top K: 'heuristic' or a custom Reranker */
+  reranker?: 'heuristic' | Reranker;
+  /** Diversify results with Maximal Marginal Relevance; lambda trades relevance (1) for diversity (0) (default: 0.5) */
+  mmr?: boolean | { lambda?: number };
+  /** Max results from the same file */
+  maxPerFile?: number;
+}
+
+function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}_]+/gu) || [];
+}
+
+/**
+ * Local reranker that needs no model: combines the retrieval similarity
+ * with how many query terms a chunk contains, whether it contains query
+ * phrases, and whether its path or heading mentions the query terms
+ */
+export class HeuristicReranker implements Reranker {
+  readonly name = 'heuristic';
+
+  async rerank(query: string, chunks: ContextChunk[]): Promise<number[]> {
+    const queryTokens = tokenize(query);
+    const keywords = [...new Set(queryTokens.filter(token => !STOP_WORDS.has(token)))];
+    const terms = keywords.length > 0 ? keywords : [...new Set(queryTokens)];
+    const phrases = queryTokens.slice(1).map((token, idx) => `${queryTokens[idx]} ${token}`);
+
+    return chunks.map(chunk => {
+      const contentTokens = tokenize(chunk.content);
+      const content = new Set(contentTokens);
+      const joined = ` ${contentTokens.join(' ')} `;
+      const title = new Set(tokenize(`${chunk.filePath} ${chunk.breadcrumb || ''}`));
+
+      const coverage = terms.length > 0 ? terms.filter(term => content.has(term)).length / terms.length : 0;
+      const phraseMatch = phrases.length > 0 ? phrases.filter(phrase => joined.includes(` ${phrase} `)).length / phrases.length : 0;
+      const titleMatch = terms.length > 0 ? terms.filter(term => title.has(term)).length / terms.length : 0;
+      const similarity = Math.min(Math.max(chunk.similarity, 0), 1);
+
+      return 0.5 * similarity + 0.3 * coverage + 0.1 * phraseMatch + 0.1 * titleMatch;
+    });
+  }
+}
+
+function cosineSimilarity(a: Float32Array, b: Float32Array): number {
+  if (a.length !== b.length) {
+    return 0;
+  }
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/**
+ * Order chunks by Maximal Marginal Relevance: each pick balances relevance
+ * against similarity to the chunks already picked, so near-duplicates (such
+ * as overlapping chunks of one file) sink. Chunks without an embedding, or
+ * from a collection with a different model, count as dissimilar.
+ */
+function orderByMmr(
+  chunks: ContextChunk[],
+  relevance: number[],
+  embeddings: Map<number, Float32Array>,
+  lambda: number
+): ContextChunk[] {
+  // Scale relevance to 0-1 so it is comparable with cosine similarity
+  const min = Math.min(...relevance);
+  const range = Math.max(...relevance) - min;
+  const normalized = relevance.map(value => (range > 0 ? (value - min) / range : 1));
+
+  const remaining = chunks.map((chunk, idx) => idx);
+  const maxSimilarity = chunks.map(() => 0);
+  const ordered: ContextChunk[] = [];
+
+  while (remaining.length > 0) {
+    let bestPosition = 0;
+    let bestScore = -Infinity;
+
+    remaining.forEach((idx, position) => {
+      const score = lambda * normalized[idx] - (1 - lambda) * maxSimilarity[idx];
+      if (score > bestScore) {
+        bestScore = score;
+        bestPosition = position;
+      }
+    });
+
+    const [picked] = remaining.splice(bestPosition, 1);
+    const pickedChunk = chunks[picked];
+    ordered.push(pickedChunk);
+
+    const pickedEmbedding = embeddings.get(pickedChunk.id);
+    if (!pickedEmbedding) continue;
+
+    for (const idx of remaining) {
+      const embedding = embeddings.get(chunks[idx].id);
+      if (embedding && chunks[idx].collection === pickedChunk.collection) {
+        maxSimilarity[idx] = Math.max(maxSimilarity[idx], cosineSimilarity(embedding, pickedEmbedding));
+      }
+    }
+  }
+
+  return ordered;
+}
+
+/**
+ * Whether any post-retrieval stage is enabled
+ */
+export function needsRerank(options: RerankOptions): boolean {
+  return !!(options.reranker || options.mmr || options.maxPerFile);
+}
+
+/**
+ * Pick the top K of over-fetched candidates: rerank them, diversify with
+ * MMR, then cap the number of results per file
+ * @param embeddings - Stored embeddings of the candidates, needed for MMR
+ */
+export async function rerankResults(
+  query: string,
+  candidates: ContextChunk[],
+  topK: number,
+  options: RerankOptions,
+  embeddings: Map<number, Float32Array> = new Map()
+): Promise<ContextChunk[]> {
+  let chunks: ContextChunk[] = candidates.map((chunk, idx) => ({ ...chunk, originalRank: idx + 1 }));
+  let relevance = chunks.map(chunk => chunk.score);
+
+  if (options.reranker) {
+    const reranker = options.reranker === 'heuristic' ? new HeuristicReranker() : options.reranker;
+    const scores = await reranker.rerank(query, chunks);
+
+    if (scores.length !== chunks.length) {
+      throw new Error(`Reranker ${reranker.name} returned ${scores.length} scores for ${chunks.length} chunks`);
+    }
+
+    chunks = chunks
+      .map((chunk, idx) => ({ ...chunk, rerankScore: scores[idx] }))
+      .sort((a, b) => b.rerankScore - a.rerankScore);
+    relevance = chunks.map(chunk => chunk.rerankScore!);
+  }
+
+  if (options.mmr) {
+    const lambda = typeof options.mmr === 'object' ? options.mmr.lambda ?? DEFAULT_MMR_LAMBDA : DEFAULT_MMR_LAMBDA;
+    chunks = orderByMmr(chunks, relevance, embeddings, Math.min(Math.max(lambda, 0), 1));
+  }
+
+  if (options.maxPerFile) {
+    const perFile = new Map<string, number>();
+    chunks = chunks.filter(chunk => {
+      const count = perFile.get(chunk.filePath) || 0;
+      perFile.set(chunk.filePath, count + 1);
+      return count < options.maxPerFile!;
+    });
+  }
+
+  return chunks.slice(0, topK);
+}
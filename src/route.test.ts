@@ -0,0 +1,175 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createRagRouteHandler, RagRouteHandlerOptions } from './route';
+import { configure } from './config';
+import { upsertDocuments } from './documents';
+import { ChatModel } from './types';
+
+const URL_BASE = 'http://localhost/api/ask';
+
+const post = (body: unknown) =>
+  new Request(URL_BASE, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: typeof body === 'string' ? body : JSON.stringify(body),
+  });
+
+/** Answers with fixed tokens and a citation of the first context entry */
+const fakeChatModel: ChatModel = {
+  name: 'fake',
+  model: 'fake-chat',
+  complete: async () => 'Use revalidateTag [1].',
+  async *stream() {
+    yield 'Use ';
+    yield 'revalidateTag ';
+    yield '[1].';
+  },
+};
+
+const json = (response: Response): Promise<any> => response.json();
+
+/** Parse a server-sent event stream into its events */
+async function readEvents(response: Response): Promise<Array<{ event: string; data: any }>> {
+  const text = await response.text();
+  return text
+    .split('\n\n')
+    .filter(Boolean)
+    .map(block => {
+      const [eventLine, dataLine] = block.split('\n');
+      return { event: eventLine.replace('event: ', ''), data: JSON.parse(dataLine.replace('data: ', '')) };
+    });
+}
+
+describe('createRagRouteHandler', () => {
+  let dir: string;
+
+  const handler = (options: RagRouteHandlerOptions = {}) => createRagRouteHandler({ onRequest: () => {}, ...options });
+
+  beforeEach(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'nextjs-rag-'));
+    configure({ embeddingProvider: 'local', dbPath: path.join(dir, 'index.db') });
+    await upsertDocuments([
+      { id: 'docs/caching.md', text: '# Caching\n\nCall revalidateTag to purge cached data on demand.' },
+      { id: 'docs/routing.md', text: '# Routing\n\nDynamic segments are wrapped in square brackets.' },
+    ]);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('returns the retrieved context in query mode', async () => {
+    const response = await handler().POST(post({ question: 'How do I purge cached data?', topK: 1 }));
+    const body = await json(response);
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-type')).toBe('application/json');
+    expect(body.context).toHaveLength(1);
+    expect(body.context[0].filePath).toBe('docs/caching.md');
+  });
+
+  it.each([
+    [{}, 'question is required'],
+    [{ question: 'x'.repeat(20) }, 'question must be at most 10 characters'],
+    [{ question: 'cache', topK: 50 }, 'topK must be an integer between 1 and 20'],
+    [{ question: 'cache', filter: { folder: 'docs' } }, 'Unknown filter field: folder'],
+    [{ question: 'cache', collection: 'docs' }, 'Choosing a collection is not enabled for this route'],
+    [{ question: 'cache', stream: true }, 'Streaming is not enabled for this route'],
+    ['{ not json', 'Request body must be valid JSON'],
+  ])('rejects the invalid request %j', async (body, message) => {
+    const response = await handler({ maxQuestionLength: 10 }).POST(post(body));
+
+    expect(response.status).toBe(400);
+    expect(await json(response)).toEqual({ error: { code: 'invalid_request', message } });
+  });
+
+  it('answers GET requests only when enabled', async () => {
+    const request = () => new Request(`${URL_BASE}?q=dynamic+segments&topK=1`);
+
+    expect((await handler().GET(request())).status).toBe(405);
+
+    const response = await handler({ enableGet: true }).GET(request());
+    expect(response.status).toBe(200);
+    expect((await json(response)).context[0].filePath).toBe('docs/routing.md');
+  });
+
+  it('rejects unauthorized requests', async () => {
+    const response = await handler({ authorize: () => false }).POST(post({ question: 'cache' }));
+
+    expect(response.status).toBe(401);
+    expect((await json(response)).error.code).toBe('unauthorized');
+  });
+
+  it('reports a missing collection without the database path', async () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const routes = createRagRouteHandler({ allowedCollections: ['blog'] });
+
+    const response = await routes.POST(post({ question: 'cache', collection: 'blog' }));
+    const body = await json(response);
+
+    expect(response.status).toBe(404);
+    expect(body).toEqual({ error: { code: 'not_found', message: 'Not found' } });
+    expect(JSON.stringify(body)).not.toContain(dir);
+    // The detailed message stays on the server
+    expect(error).toHaveBeenCalledWith('[nextjs-rag] Route error:', expect.objectContaining({ message: expect.stringContaining(dir) }));
+  });
+
+  it('hides unexpected errors behind a generic 500', async () => {
+    const failing: ChatModel = { ...fakeChatModel, complete: async () => { throw new Error(`Cannot read ${dir}/secret`); } };
+    const routes = handler({ mode: 'ask', defaults: { chatModel: failing } });
+
+    const response = await routes.POST(post({ question: 'cache' }));
+
+    expect(response.status).toBe(500);
+    expect(await json(response)).toEqual({ error: { code: 'internal_error', message: 'The request could not be processed' } });
+  });
+
+  it('answers with citations in ask mode', async () => {
+    const routes = handler({ mode: 'ask', defaults: { chatModel: fakeChatModel } });
+
+    const response = await routes.POST(post({ question: 'How do I purge cached data?', topK: 1 }));
+    const body = await json(response);
+
+    expect(body.answer).toBe('Use revalidateTag [1].');
+    expect(body.citations.map((citation: { filePath: string }) => citation.filePath)).toEqual(['docs/caching.md']);
+  });
+
+  it('streams tokens, then the done event', async () => {
+    const routes = handler({ mode: 'ask', defaults: { chatModel: fakeChatModel } });
+
+    const response = await routes.POST(post({ question: 'How do I purge cached data?', topK: 1, stream: true }));
+    const events = await readEvents(response);
+
+    expect(response.headers.get('content-type')).toBe('text/event-stream');
+    expect(events.slice(0, 3)).toEqual([
+      { event: 'token', data: { token: 'Use ' } },
+      { event: 'token', data: { token: 'revalidateTag ' } },
+      { event: 'token', data: { token: '[1].' } },
+    ]);
+    expect(events[3].event).toBe('done');
+    expect(events[3].data.answer).toBe('Use revalidateTag [1].');
+    expect(events[3].data.citations[0].filePath).toBe('docs/caching.md');
+    expect(events).toHaveLength(4);
+  });
+
+  it('sends errors raised while streaming as an error event', async () => {
+    const failing: ChatModel = {
+      ...fakeChatModel,
+      async *stream() {
+        yield 'Use ';
+        throw new Error(`Cannot read ${dir}/secret`);
+      },
+    };
+    const routes = handler({ mode: 'ask', defaults: { chatModel: failing } });
+
+    const events = await readEvents(await routes.POST(post({ question: 'cache', stream: true })));
+
+    expect(events).toEqual([
+      { event: 'token', data: { token: 'Use ' } },
+      { event: 'error', data: { code: 'internal_error', message: 'The request could not be processed' } },
+    ]);
+  });
+});
@@ -0,0 +1,372 @@
+import { queryRag } from './query';
+import { askRag, askRagStream, AskOptions } from './answer';
+import { RagError, RagErrorCode } from './errors';
+import { AskResult, QueryFilter, QueryResult, SearchMode } from './types';
+
+const SEARCH_MODES: SearchMode[] = ['vector', 'keyword', 'hybrid'];
+
+export interface RagRouteHandlerOptions {
+  /** 'query' returns retrieved context; 'ask' answers with the chat model (default: query) */
+  mode?: 'query' | 'ask';
+  /** Options applied to every request, e.g. collection, chatModel or dbPath */
+  defaults?: Omit<AskOptions, 'topK' | 'filter'>;
+  /** topK used when the request doesn't set one (default: 5) */
+  defaultTopK?: number;
+  /** Largest topK a request may ask for (default: 20) */
+  maxTopK?: number;
+  /** Longest question accepted, in characters (default: 1000) */
+  maxQuestionLength?: number;
+  /** Whether requests may pass a filter (default: true) */
+  allowFilters?: boolean;
+  /** Collections requests may choose from; requests can't pick one if unset */
+  allowedCollections?: string[];
+  /** Whether requests may ask for a streamed answer in ask mode (default: true) */
+  allowStreaming?: boolean;
+  /** Also answer GET requests with a ?q= parameter (default: false) */
+  enableGet?: boolean;
+  /**
+   * Reject requests before they reach the index. Return false for a 401, or
+   * throw a RagError for another status.
+   */
+  authorize?: (request: Request) => boolean | void | Promise<boolean | void>;
+  /** Called once per request with its outcome, e.g. for logging (default: logs server errors and errors raised while answering) */
+  onRequest?: (log: RagRouteLog) => void;
+  /** Shape the JSON body of successful responses (default: the query or ask result) */
+  transformResponse?: (result: QueryResult | AskResult, request: RagRouteRequest) => unknown;
+}
+
+/**
+ * A validated request to a RAG route
+ */
+export interface RagRouteRequest {
+  question: string;
+  topK: number;
+  filter?: QueryFilter;
+  collection?: string | string[];
+  searchMode?: SearchMode;
+  stream: boolean;
+}
+
+export interface RagRouteLog {
+  method: string;
+  status: number;
+  durationMs: number;
+  request?: RagRouteRequest;
+  error?: Error;
+}
+
+export interface RagRouteHandlers {
+  POST: (request: Request) => Promise<Response>;
+  GET: (request: Request) => Promise<Response>;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
+
+/**
+ * Check a filter from an untrusted request, field by field
+ */
+function parseFilter(value: unknown): QueryFilter {
+  if (!isObject(value)) {
+    throw new RagError('invalid_request', 'filter must be an object');
+  }
+
+  const filter: QueryFilter = {};
+
+  for (const [key, field] of Object.entries(value)) {
+    switch (key) {
+      case 'pathPrefix':
+      case 'dateFrom':
+      case 'dateTo':
+        if (typeof field !== 'string') {
+          throw new RagError('invalid_request', `filter.${key} must be a string`);
+        }
+        filter[key] = field;
+        break;
+      case 'pathGlob':
+        if (typeof field !== 'string' && !isStringArray(field)) {
+          throw new RagError('invalid_request', 'filter.pathGlob must be a string or an array of strings');
+        }
+        filter.pathGlob = field;
+        break;
+      case 'tags':
+        if (!isStringArray(field)) {
+          throw new RagError('invalid_request', 'filter.tags must be an array of strings');
+        }
+        filter.tags = field;
+        break;
+      case 'metadata':
+        if (!isObject(field) || !Object.values(field).every(item => ['string', 'number', 'boolean'].includes(typeof item))) {
+          throw new RagError('invalid_request', 'filter.metadata must map keys to strings, numbers or booleans');
+        }
+        filter.metadata = field as QueryFilter['metadata'];
+        break;
+      default:
+        throw new RagError('invalid_request', `Unknown filter field: ${key}`);
+    }
+  }
+
+  return filter;
+}
+
+/**
+ * Validate a request body against the handler's limits
+ */
+function parseRequest(body: unknown, options: RagRouteHandlerOptions): RagRouteRequest {
+  const {
+    defaultTopK = 5,
+    maxTopK = 20,
+    maxQuestionLength = 1000,
+    allowFilters = true,
+    allowedCollections,
+    allowStreaming = true,
+  } = options;
+
+  if (!isObject(body)) {
+    throw new RagError('invalid_request', 'Request body must be a JSON object');
+  }
+
+  const question = typeof body.question === 'string' ? body.question.trim() : '';
+  if (!question) {
+    throw new RagError('invalid_request', 'question is required');
+  }
+  if (question.length > maxQuestionLength) {
+    throw new RagError('invalid_request', `question must be at most ${maxQuestionLength} characters`);
+  }
+
+  const request: RagRouteRequest = { question, topK: defaultTopK, stream: false };
+
+  if (body.topK !== undefined) {
+    if (typeof body.topK !== 'number' || !Number.isInteger(body.topK) || body.topK < 1 || body.topK > maxTopK) {
+      throw new RagError('invalid_request', `topK must be an integer between 1 and ${maxTopK}`);
+    }
+    request.topK = body.topK;
+  }
+
+  if (body.filter !== undefined) {
+    if (!allowFilters) {
+      throw new RagError('invalid_request', 'Filters are not enabled for this route');
+    }
+    request.filter = parseFilter(body.filter);
+  }
+
+  if (body.collection !== undefined) {
+    if (!allowedCollections) {
+      throw new RagError('invalid_request', 'Choosing a collection is not enabled for this route');
+    }
+    const collections = typeof body.collection === 'string' ? [body.collection] : body.collection;
+    if (!isStringArray(collections) || collections.length === 0) {
+      throw new RagError('invalid_request', 'collection must be a string or a non-empty array of strings');
+    }
+    const unknown = collections.find(collection => !allowedCollections.includes(collection));
+    if (unknown !== undefined) {
+      throw new RagError('invalid_request', `Unknown collection: ${unknown}`);
+    }
+    request.collection = body.collection as string | string[];
+  }
+
+  if (body.mode !== undefined) {
+    if (!SEARCH_MODES.includes(body.mode as SearchMode)) {
+      throw new RagError('invalid_request', `mode must be one of ${SEARCH_MODES.join(', ')}`);
+    }
+    request.searchMode = body.mode as SearchMode;
+  }
+
+  if (body.stream !== undefined && typeof body.stream !== 'boolean') {
+    throw new RagError('invalid_request', 'stream must be a boolean');
+  }
+  if (body.stream) {
+    if (options.mode !== 'ask' || !allowStreaming) {
+      throw new RagError('invalid_request', 'Streaming is not enabled for this route');
+    }
+    request.stream = true;
+  }
+
+  return request;
+}
+
+/**
+ * Turn GET query parameters into the shape of a POST body
+ */
+function searchParamsToBody(url: URL, request: Request): Record<string, unknown> {
+  const params = url.searchParams;
+  const body: Record<string, unknown> = { question: params.get('q') ?? '' };
+
+  const topK = params.get('topK');
+  if (topK !== null) {
+    body.topK = Number(topK);
+  }
+
+  const collection = params.get('collection');
+  if (collection !== null) {
+    body.collection = collection.split(',').map(name => name.trim());
+  }
+
+  const mode = params.get('mode');
+  if (mode !== null) {
+    body.mode = mode;
+  }
+
+  // EventSource can't set a body, so GET streams on the Accept header or ?stream=1
+  const stream = params.get('stream');
+  if (stream === '1' || stream === 'true' || request.headers.get('accept')?.includes('text/event-stream')) {
+    body.stream = true;
+  }
+
+  return body;
+}
+
+function jsonResponse(body: unknown, status: number): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+/** Messages sent to clients for errors raised while answering */
+const CLIENT_MESSAGES: Record<RagErrorCode, string> = {
+  invalid_request: 'The request is invalid',
+  unauthorized: 'Unauthorized',
+  forbidden: 'Forbidden',
+  not_found: 'Not found',
+  method_not_allowed: 'Method not allowed',
+  internal_error: 'The request could not be processed',
+};
+
+/**
+ * The error to send to the client. Errors from authorize() and request
+ * validation are sent as-is. Errors raised while answering keep their code
+ * and status, but not their message: it can name server paths, such as
+ * the database's, so it is only logged.
+ */
+function toClientError(error: unknown, answering: boolean): RagError {
+  if (!(error instanceof RagError)) {
+    return new RagError('internal_error', CLIENT_MESSAGES.internal_error);
+  }
+  return answering ? new RagError(error.code, CLIENT_MESSAGES[error.code], error.status) : error;
+}
+
+function sseEvent(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * Create App Router handlers for a RAG endpoint:
+ *
+ * ```ts
+ * // app/api/ask/route.ts
+ * export const { POST } = createRagRouteHandler({ mode: 'ask' });
+ * ```
+ *
+ * Errors are returned as `{ error: { code, message } }` with a matching status.
+ */
+export function createRagRouteHandler(options: RagRouteHandlerOptions = {}): RagRouteHandlers {
+  const mode = options.mode || 'query';
+  const onRequest = options.onRequest || ((log: RagRouteLog) => {
+    // Clients only get a generic message for these
+    if (log.error && (log.status >= 500 || log.request)) {
+      console.error('[nextjs-rag] Route error:', log.error);
+    }
+  });
+
+  const toAskOptions = (request: RagRouteRequest): AskOptions => ({
+    ...options.defaults,
+    topK: request.topK,
+    filter: request.filter,
+    collection: request.collection ?? options.defaults?.collection,
+    mode: request.searchMode ?? options.defaults?.mode,
+  });
+
+  const shape = (result: QueryResult | AskResult, request: RagRouteRequest) =>
+    options.transformResponse ? options.transformResponse(result, request) : result;
+
+  const streamResponse = (request: RagRouteRequest, log: (status: number, error?: Error) => void): Response => {
+    const encoder = new TextEncoder();
+
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        try {
+          for await (const event of askRagStream(request.question, toAskOptions(request))) {
+            if (event.type === 'token') {
+              controller.enqueue(encoder.encode(sseEvent('token', { token: event.token })));
+            } else {
+              const { type, ...result } = event;
+              controller.enqueue(encoder.encode(sseEvent('done', await shape(result, request))));
+            }
+          }
+          log(200);
+        } catch (error) {
+          // Headers are already sent, so the error goes into the stream
+          const ragError = toClientError(error, true);
+          controller.enqueue(encoder.encode(sseEvent('error', ragError.toJSON().error)));
+          log(ragError.status, error as Error);
+        } finally {
+          controller.close();
+        }
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        Connection: 'keep-alive',
+      },
+    });
+  };
+
+  const handle = async (httpRequest: Request, readBody: () => Promise<unknown>): Promise<Response> => {
+    const startedAt = Date.now();
+    let request: RagRouteRequest | undefined;
+
+    const log = (status: number, error?: Error) => {
+      onRequest({ method: httpRequest.method, status, durationMs: Date.now() - startedAt, request, error });
+    };
+
+    try {
+      if (options.authorize && (await options.authorize(httpRequest)) === false) {
+        throw new RagError('unauthorized', 'Unauthorized');
+      }
+
+      request = parseRequest(await readBody(), options);
+
+      if (request.stream) {
+        return streamResponse(request, log);
+      }
+
+      const result = mode === 'ask'
+        ? await askRag(request.question, toAskOptions(request))
+        : await queryRag(request.question, toAskOptions(request));
+
+      const response = jsonResponse(await shape(result, request), 200);
+      log(200);
+      return response;
+    } catch (error) {
+      const ragError = toClientError(error, request !== undefined);
+      log(ragError.status, error as Error);
+      return jsonResponse(ragError.toJSON(), ragError.status);
+    }
+  };
+
+  return {
+    POST: request => handle(request, async () => {
+      try {
+        return await request.json();
+      } catch {
+        throw new RagError('invalid_request', 'Request body must be valid JSON');
+      }
+    }),
+    GET: async request => {
+      if (!options.enableGet) {
+        const error = new RagError('method_not_allowed', 'GET is not enabled for this route');
+        return jsonResponse(error.toJSON(), error.status);
+      }
+      return handle(request, async () => searchParamsToBody(new URL(request.url), request));
+    },
+  };
+}
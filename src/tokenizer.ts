@@ -0,0 +1,116 @@
+import { Tiktoken } from 'js-tiktoken/lite';
+import cl100kBase from 'js-tiktoken/ranks/cl100k_base';
+import { ChunkUnit } from './types';
+
+/**
+ * Measures and cuts text in the unit chunk sizes are expressed in
+ */
+export interface TextSizer {
+  unit: ChunkUnit;
+  /** Size of the text */
+  measure(text: string): number;
+  /** Longest suffix of the text no larger than size, used for overlaps */
+  tail(text: string, size: number): string;
+  /** Cut text into windows of at most size, each overlapping the previous one */
+  split(text: string, size: number, overlap: number): string[];
+}
+
+/**
+ * Max input tokens accepted by known embedding models
+ */
+const MODEL_MAX_INPUT_TOKENS: Record<string, number> = {
+  'text-embedding-3-small': 8191,
+  'text-embedding-3-large': 8191,
+  'text-embedding-ada-002': 8191,
+  'nomic-embed-text': 8192,
+  'mxbai-embed-large': 512,
+  'all-minilm': 256,
+  'bge-m3': 8192,
+  'snowflake-arctic-embed': 512,
+};
+
+/**
+ * Get the input token limit for an embedding model, if known
+ */
+export function getMaxInputTokens(model: string): number | undefined {
+  return MODEL_MAX_INPUT_TOKENS[model] ?? MODEL_MAX_INPUT_TOKENS[model.split(':')[0]];
+}
+
+let encoder: Tiktoken | null = null;
+
+/**
+ * The bundled cl100k_base tokenizer, used by all OpenAI embedding models.
+ * Other models get it as a close approximation of their own tokenizer.
+ */
+function getEncoder(): Tiktoken {
+  if (!encoder) {
+    encoder = new Tiktoken(cl100kBase);
+  }
+  return encoder;
+}
+
+function encode(text: string): number[] {
+  // Treat special-token markers like <|endoftext|> as plain text
+  return getEncoder().encode(text, [], []);
+}
+
+function decode(tokens: number[]): string {
+  return getEncoder().decode(tokens);
+}
+
+/**
+ * Count tokens in text
+ */
+export function countTokens(text: string): number {
+  return encode(text).length;
+}
+
+/**
+ * Cut text down to at most maxTokens tokens
+ */
+export function truncateToTokens(text: string, maxTokens: number): string {
+  const tokens = encode(text);
+  return tokens.length <= maxTokens ? text : decode(tokens.slice(0, maxTokens));
+}
+
+const charSizer: TextSizer = {
+  unit: 'chars',
+  measure: text => text.length,
+  tail: (text, size) => (size > 0 ? text.slice(-size) : ''),
+  split: (text, size, overlap) => {
+    const chunks: string[] = [];
+    const step = Math.max(size - overlap, 1);
+    for (let start = 0; start < text.length; start += step) {
+      chunks.push(text.slice(start, start + size));
+      if (start + size >= text.length) break;
+    }
+    return chunks;
+  },
+};
+
+const tokenSizer: TextSizer = {
+  unit: 'tokens',
+  measure: countTokens,
+  tail: (text, size) => {
+    if (size <= 0) return '';
+    const tokens = encode(text);
+    return tokens.length <= size ? text : decode(tokens.slice(-size));
+  },
+  split: (text, size, overlap) => {
+    const tokens = encode(text);
+    const chunks: string[] = [];
+    const step = Math.max(size - overlap, 1);
+    for (let start = 0; start < tokens.length; start += step) {
+      chunks.push(decode(tokens.slice(start, start + size)));
+      if (start + size >= tokens.length) break;
+    }
+    return chunks;
+  },
+};
+
+/**
+ * Get the sizer for a chunk unit
+ */
+export function getTextSizer(unit: ChunkUnit = 'chars'): TextSizer {
+  return unit === 'tokens' ? tokenSizer : charSizer;
+}
@@ -1,16 +1,177 @@
+export type EmbeddingProviderName = 'openai' | 'openai-compatible' | 'local';
+
+export type SearchMode = 'vector' | 'keyword' | 'hybrid';
+
+export type ChunkUnit = 'chars' | 'tokens';
+
+/** 'auto' picks the Markdown, code or text chunker by file extension */
+export type ChunkStrategy = 'auto' | 'text';
+
+export type OpenAIEmbeddingModel = 'text-embedding-3-small' | 'text-embedding-3-large' | 'text-embedding-ada-002';
+
 export interface RagConfig {
-  /** OpenAI API key */
+  /** OpenAI API key (only required by the openai provider) */
   apiKey?: string;
-  /** OpenAI embedding model (default: text-embedding-3-small) */
-  embeddingModel?: 'text-embedding-3-small' | 'text-embedding-3-large' | 'text-embedding-ada-002';
+  /** Embedding provider name or a custom provider instance (default: openai) */
+  embeddingProvider?: EmbeddingProviderName | EmbeddingProvider;
+  /** Embedding model (default: text-embedding-3-small for openai, local-hash-v1 for local) */
+  embeddingModel?: OpenAIEmbeddingModel | (string & {});
+  /** Base URL for the openai-compatible provider, e.g. http://localhost:11434/v1 */
+  embeddingBaseUrl?: string;
+  /** Embedding dimension (required for unknown openai-compatible models) */
+  embeddingDimension?: number;
+  /** Embedding requests in flight at once while indexing (default: 4) */
+  embeddingConcurrency?: number;
+  /** Max inputs per embedding request (default: 100) */
+  embeddingBatchSize?: number;
+  /** Max tokens per embedding request (default: 250000) */
+  embeddingBatchTokens?: number;
+  /** Retries of an embedding request that failed with a rate limit, server or network error (default: 5) */
+  embeddingMaxRetries?: number;
   /** Database path (default: .rag/sqlite.db) */
   dbPath?: string;
-  /** Chunk size in characters (default: 1000) */
+  /** Chunk size in chunkUnit (default: 1000 chars or 300 tokens) */
   chunkSize?: number;
-  /** Chunk overlap in characters (default: 200) */
+  /** Chunk overlap in chunkUnit (default: 200 chars or 50 tokens) */
   chunkOverlap?: number;
+  /** Unit for chunkSize and chunkOverlap (default: chars) */
+  chunkUnit?: ChunkUnit;
+  /** Chunking strategy (default: auto) */
+  chunkStrategy?: ChunkStrategy;
   /** Top K results to return (default: 5) */
   topK?: number;
+  /** Search mode: vector, keyword (BM25) or hybrid (default: vector) */
+  searchMode?: SearchMode;
+  /** Weight of the vector ranking in hybrid mode, 0-1 (default: 0.5) */
+  hybridWeight?: number;
+  /** Chat model used by askRag: an OpenAI model name or a custom model instance (default: gpt-4o-mini) */
+  chatModel?: string | ChatModel;
+  /** Base URL of an OpenAI-compatible chat server, e.g. http://localhost:11434/v1 (default: the OpenAI API) */
+  chatBaseUrl?: string;
+  /**
+   * Maps file paths to page URLs for citations: options for the built-in
+   * Next.js mapper, a custom function, or false for no URLs (default: {})
+   */
+  urlMapper?: UrlMapperOptions | UrlMapper | false;
+  /** Loaders for file types the built-in loaders don't handle, or to replace them; tried first */
+  loaders?: DocumentLoader[];
+}
+
+/**
+ * Text extracted from a file, ready to chunk
+ */
+export interface LoadedDocument {
+  content: string;
+  /** Metadata added to every chunk of the file, e.g. title */
+  metadata?: Record<string, any>;
+  /** Chunker for the content (default: picked by file extension) */
+  format?: 'markdown' | 'code' | 'text';
+}
+
+/**
+ * Turns files of some type into text, e.g. PDFs or HTML pages
+ */
+export interface DocumentLoader {
+  /** Loader identifier, used in error messages */
+  readonly name: string;
+  /** File extensions handled, including the dot, e.g. ['.pdf'] */
+  extensions?: string[];
+  /** MIME types handled, e.g. ['application/pdf'], matched by file extension */
+  mimeTypes?: string[];
+  load(content: Buffer, file: { path: string; mimeType?: string }): LoadedDocument | Promise<LoadedDocument>;
+}
+
+/** Maps an indexed file path to the URL of the page it renders, or undefined if it has none */
+export type UrlMapper = (filePath: string) => string | undefined;
+
+export interface UrlMapperOptions {
+  /** Prepended to every URL, e.g. https://example.com (default: none, URLs are root-relative) */
+  baseUrl?: string;
+  /**
+   * Directories of content rendered by a dynamic route, mapped to the route's
+   * path, e.g. { 'content/docs': '/docs' } for app/docs/[slug]/page.tsx
+   */
+  contentDirs?: Record<string, string>;
+}
+
+/** A directory indexed by `init`, `reindex` and `watch` when none is given */
+export interface SourceConfig {
+  /** Directory to index, relative to the config file */
+  directory: string;
+  /** Collection to index into (default: 'default') */
+  collection?: string;
+  extensions?: string[];
+  /** Globs relative to the directory; when given, only files matching one are indexed */
+  include?: string[];
+  /** Gitignore-style patterns relative to the directory (default: node_modules, .git, dist, build, .next, coverage) */
+  ignorePatterns?: string[];
+  /** Honor .gitignore files (default: true) */
+  gitignore?: boolean;
+  /** Largest file to index, in bytes (default: 10 MB) */
+  maxFileSize?: number;
+  /** Follow symbolic links (default: false) */
+  followSymlinks?: boolean;
+}
+
+/** Settings of one collection that differ from the project-wide ones */
+export type CollectionConfig = Pick<
+  RagConfig,
+  'embeddingProvider' | 'embeddingModel' | 'embeddingBaseUrl' | 'embeddingDimension' | 'chunkSize' | 'chunkOverlap' | 'chunkUnit' | 'chunkStrategy'
+>;
+
+/**
+ * Contents of a project config file (rag.config.ts, .js or .json), shared
+ * by the CLI and getConfig()
+ */
+export interface RagConfigFile extends Omit<RagConfig, 'loaders'> {
+  /** Loaders, or paths of modules exporting them relative to the config file */
+  loaders?: Array<DocumentLoader | string>;
+  /** Directories to index */
+  sources?: SourceConfig[];
+  /** Per-collection embedding and chunk settings, by collection name */
+  collections?: Record<string, CollectionConfig>;
+}
+
+/** Config returned by getConfig(), with defaults applied */
+export type ResolvedRagConfig = Required<Omit<RagConfig, 'embeddingBaseUrl' | 'embeddingDimension' | 'chatBaseUrl'>> &
+  Pick<RagConfig, 'embeddingBaseUrl' | 'embeddingDimension' | 'chatBaseUrl'>;
+
+export interface EmbeddingProvider {
+  /** Provider identifier, e.g. 'openai' or 'local' */
+  readonly name: string;
+  /** Model id used to generate embeddings */
+  readonly model: string;
+  /** Length of the vectors returned by embed() */
+  readonly dimension: number;
+  /** Max tokens per input, if the model has a limit */
+  readonly maxInputTokens?: number;
+  /** Embed a batch of texts, returning one vector per input in the same order */
+  embed(texts: string[]): Promise<Float32Array[]>;
+}
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface ChatModel {
+  /** Provider identifier, e.g. 'openai' */
+  readonly name: string;
+  /** Model id used to generate answers */
+  readonly model: string;
+  /** Generate a complete reply */
+  complete(messages: ChatMessage[]): Promise<string>;
+  /** Stream a reply as text deltas; models without it are streamed as one piece */
+  stream?(messages: ChatMessage[]): AsyncIterable<string>;
+}
+
+/**
+ * Scores retrieved chunks against the query, e.g. with a cross-encoder or an LLM
+ */
+export interface Reranker {
+  readonly name: string;
+  /** Relevance of each chunk to the query, higher is better, in the same order as the chunks */
+  rerank(query: string, chunks: ContextChunk[]): Promise<number[]>;
 }
 
 export interface DocumentChunk {
@@ -20,17 +181,266 @@ export interface DocumentChunk {
   hash: string;
   embedding?: Float32Array;
   metadata?: Record<string, any>;
+  /** Position of the chunk among the chunks of its file, from 0 */
+  chunkIndex?: number;
+  /** Character range of the chunk within its file */
+  startOffset?: number;
+  endOffset?: number;
+  /** 1-based line range of the chunk within its file, inclusive */
+  startLine?: number;
+  endLine?: number;
+}
+
+/**
+ * Settings an index was built with, stored in the database
+ */
+export interface IndexInfo {
+  embeddingProvider: string;
+  embeddingModel: string;
+  dimension: number;
+  chunkStrategy: ChunkStrategy;
+  chunkSize: number;
+  chunkOverlap: number;
+  chunkUnit: ChunkUnit;
+  /** nextjs-rag version that last wrote to the index */
+  libraryVersion: string;
+  schemaVersion: number;
+}
+
+/**
+ * A named collection of documents within an index database
+ */
+export interface CollectionInfo {
+  name: string;
+  /** Settings the collection was built with, once something was indexed into it */
+  index?: IndexInfo;
+  dimension: number;
+  fileCount: number;
+  chunkCount: number;
+  createdAt: number;
+}
+
+/**
+ * Content that doesn't live on disk, e.g. an entry of a headless CMS
+ */
+export interface DocumentInput {
+  /** Stable ID, e.g. the CMS entry ID; stands in for the file path in results and filters */
+  id: string;
+  text: string;
+  /** Metadata added to every chunk, e.g. title, tags, date or url */
+  metadata?: Record<string, any>;
+  /** Chunker for the text (default: picked by the extension of id, else text) */
+  format?: LoadedDocument['format'];
+}
+
+/**
+ * 'file' for files indexed from disk, 'api' for documents added with
+ * upsertDocuments, 'build' for pages indexed from a Next.js build
+ */
+export type DocumentSource = 'file' | 'api' | 'build';
+
+/**
+ * Manifest entry for an indexed file
+ */
+export interface FileRecord {
+  /** Path relative to the working directory, or the ID of a document added through the API */
+  filePath: string;
+  /** MD5 of the raw file content */
+  contentHash: string;
+  size: number;
+  /** Modification time in milliseconds */
+  mtime: number;
+  chunkCount: number;
+  indexedAt: number;
+  /** Where the file came from (default: file) */
+  source?: DocumentSource;
+}
+
+/**
+ * A stored chunk as it is in the index, for inspecting it
+ */
+export interface ChunkInfo {
+  id: number;
+  filePath: string;
+  collection: string;
+  content: string;
+  /** MD5 of the chunk content, used to reuse its embedding */
+  hash: string;
+  /** Position of the chunk among the chunks of its file, when known */
+  chunkIndex?: number;
+  /** Character range of the chunk within its file, when known */
+  startOffset?: number;
+  endOffset?: number;
+  /** 1-based line range of the chunk within its file, inclusive, when known */
+  startLine?: number;
+  endLine?: number;
+  /** Whether the chunk has a stored embedding */
+  embedded: boolean;
+  metadata?: Record<string, any>;
+}
+
+/**
+ * What the index holds for a collection, as reported by `nextjs-rag stats`
+ */
+export interface IndexStats {
+  collection: string;
+  /** Settings the collection was built with, once something was indexed into it */
+  index?: IndexInfo;
+  fileCount: number;
+  /** Files and documents by where they came from */
+  sources: Partial<Record<DocumentSource, number>>;
+  chunkCount: number;
+  /** Chunks without a stored embedding, e.g. after an interrupted run */
+  chunksWithoutEmbedding: number;
+  /** Total size of the indexed files and documents in bytes */
+  totalSize: number;
+  /** Size of the database file in bytes, for all collections */
+  databaseSize: number;
+  /** Largest files first */
+  largestFiles: Array<{ filePath: string; size: number; chunkCount: number }>;
+  /** Chunk lengths in characters */
+  chunkLengths: {
+    min: number;
+    max: number;
+    mean: number;
+    median: number;
+    p90: number;
+    /** Equal-width ranges between min and max */
+    histogram: Array<{ from: number; to: number; count: number }>;
+  };
+}
+
+export interface QueryFilter {
+  /** Only search files whose path starts with this prefix, e.g. 'docs/api/' */
+  pathPrefix?: string;
+  /** Only search files matching any of these globs, e.g. 'docs/api/**' */
+  pathGlob?: string | string[];
+  /** Only search chunks tagged with at least one of these tags */
+  tags?: string[];
+  /** Only search chunks dated on or after this date */
+  dateFrom?: string | Date;
+  /** Only search chunks dated on or before this date */
+  dateTo?: string | Date;
+  /** Exact matches on other metadata fields, e.g. { extension: '.mdx' } */
+  metadata?: Record<string, string | number | boolean>;
 }
 
 export interface QueryResult {
+  /** Passages numbered [n] for a prompt, packed into maxContextTokens if set */
   text: string;
+  /** Retrieved chunks, best first */
   context: ContextChunk[];
+  /** Passages `text` is built from; [n] in text refers to passages[n - 1] */
+  passages: ContextPassage[];
+  /** Unique file paths of the passages */
   citations: string[];
+  /** Where each passage comes from, for display; sources[n - 1] describes passage [n] */
+  sources: Citation[];
+  /** What was left out of `text` to fit maxContextTokens; undefined without a budget */
+  truncation?: ContextTruncation;
+}
+
+/**
+ * Retrieved chunks of one file merged into a single span of text
+ */
+export interface ContextPassage {
+  content: string;
+  filePath: string;
+  collection: string;
+  breadcrumb?: string;
+  /** Retrieved chunks in this passage, best first */
+  chunks: ContextChunk[];
+  /** Character range of the passage within its file, when known */
+  startOffset?: number;
+  endOffset?: number;
+  /** 1-based line range of the passage within its file, inclusive, when known */
+  startLine?: number;
+  endLine?: number;
+  /** Slug of the nearest heading above the start of the passage */
+  anchor?: string;
+  /** Whether content was cut short to fit the token budget */
+  truncated: boolean;
+}
+
+export interface ContextTruncation {
+  /** Whether any passage was dropped or cut short */
+  truncated: boolean;
+  /** Token budget the passages were packed into */
+  maxTokens: number;
+  /** Tokens used by `text` */
+  tokens: number;
+  /** Passages left out entirely */
+  droppedPassages: number;
+  /** Retrieved chunks left out of `text`, entirely or partly */
+  droppedChunkIds: number[];
 }
 
 export interface ContextChunk {
+  id: number;
   content: string;
   filePath: string;
+  /** Collection the chunk belongs to */
+  collection: string;
+  /** Cosine similarity; normalized BM25 relevance in keyword mode */
   similarity: number;
+  /** Ranking score for the search mode (similarity, BM25 or fused rank score) */
+  score: number;
+  /** Score from the reranker, when one was used */
+  rerankScore?: number;
+  /** 1-based position among the retrieved candidates, when results were reranked or diversified */
+  originalRank?: number;
+  /** Position of the chunk among the chunks of its file, when known */
+  chunkIndex?: number;
+  /** Character range of the chunk within its file, when known */
+  startOffset?: number;
+  endOffset?: number;
+  /** 1-based line range of the chunk within its file, inclusive, when known */
+  startLine?: number;
+  endLine?: number;
+  /** Slug of the nearest heading above the chunk, for Markdown/MDX files */
+  anchor?: string;
+  /** Heading path of Markdown chunks, e.g. 'Guide > Routing > Dynamic Segments' */
+  breadcrumb?: string;
+  metadata?: Record<string, any>;
+}
+
+/**
+ * Where a passage or chunk comes from, in a form that can be shown to users
+ */
+export interface Citation {
+  filePath: string;
+  collection: string;
+  /** URL of the page the file renders, with the anchor; undefined if it isn't a page */
+  url?: string;
+  /** Frontmatter title, or the top heading above the text */
+  title?: string;
+  /** Slug of the nearest heading above the text */
+  anchor?: string;
+  /** 1-based line range within the file, inclusive */
+  lines?: { start: number; end: number };
+}
+
+export interface AnswerCitation extends Citation {
+  /** Number of the inline [n] marker in the answer */
+  index: number;
+  /** Best retrieved chunk of the cited passage */
+  chunk: ContextChunk;
+  /** Passage the marker refers to, when the answer was built from passages */
+  passage?: ContextPassage;
+}
+
+export interface AskResult {
+  answer: string;
+  /** Retrieved chunks, best first */
+  context: ContextChunk[];
+  /** Passages given to the chat model; [n] in the answer refers to passages[n - 1] */
+  passages: ContextPassage[];
+  /** Passages cited in the answer, in order of first citation */
+  citations: AnswerCitation[];
+  /** What was left out of the prompt to fit maxContextTokens */
+  truncation?: ContextTruncation;
 }
 
+export type AskStreamEvent =
+  | { type: 'token'; token: string }
+  | ({ type: 'done' } & AskResult);
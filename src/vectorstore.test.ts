@@ -0,0 +1,70 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { VectorStore } from './vectorstore';
+import { LocalEmbeddingProvider } from './embedder';
+import { hashContent } from './chunker';
+
+const provider = new LocalEmbeddingProvider();
+
+const DOCUMENTS = [
+  { filePath: 'docs/caching.md', content: 'Caching and revalidation of fetch requests in the app router' },
+  { filePath: 'docs/routing.md', content: 'Dynamic routes use square brackets in folder names' },
+  { filePath: 'docs/styling.md', content: 'Style components with CSS modules or Tailwind' },
+  { filePath: 'docs/deploy.md', content: 'Deploy to any Node.js server; revalidation works there too' },
+];
+
+describe('VectorStore search', () => {
+  let dir: string;
+  let store: VectorStore;
+
+  beforeEach(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'nextjs-rag-'));
+    store = new VectorStore(path.join(dir, 'test.db'), provider);
+    const embeddings = await provider.embed(DOCUMENTS.map(doc => doc.content));
+    DOCUMENTS.forEach((doc, idx) => {
+      store.insertChunk({ ...doc, hash: hashContent(doc.content), embedding: embeddings[idx], chunkIndex: 0 });
+    });
+  });
+
+  afterEach(() => {
+    store.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('ranks keyword hits by BM25 and scales the best to 1', () => {
+    const hits = store.keywordSearch('revalidation', 5);
+
+    expect(hits.map(hit => hit.filePath).sort()).toEqual(['docs/caching.md', 'docs/deploy.md']);
+    expect(hits[0].similarity).toBe(1);
+  });
+
+  it('returns nothing for a query without searchable words', () => {
+    expect(store.keywordSearch('?!', 5)).toEqual([]);
+  });
+
+  it('finds the closest chunk by vector similarity', async () => {
+    const [query] = await provider.embed(['square brackets dynamic routes']);
+
+    expect(store.similaritySearch(query, 1)[0].filePath).toBe('docs/routing.md');
+  });
+
+  it('fuses both rankings with reciprocal rank fusion', async () => {
+    const [query] = await provider.embed(['revalidation']);
+    const hits = store.hybridSearch(query, 'revalidation', 4, 0.5);
+
+    // Chunks found by both rankings come first
+    expect(hits.slice(0, 2).map(hit => hit.filePath).sort()).toEqual(['docs/caching.md', 'docs/deploy.md']);
+    for (let idx = 1; idx < hits.length; idx++) {
+      expect(hits[idx - 1].score).toBeGreaterThanOrEqual(hits[idx].score);
+    }
+  });
+
+  it('follows only the keyword ranking with a vector weight of 0', async () => {
+    const [query] = await provider.embed(['Tailwind']);
+    const hits = store.hybridSearch(query, 'revalidation', 4, 0);
+
+    expect(hits.slice(0, 2).map(hit => hit.filePath).sort()).toEqual(['docs/caching.md', 'docs/deploy.md']);
+  });
+});
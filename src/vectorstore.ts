@@ -1,17 +1,212 @@
 import Database from 'better-sqlite3';
+import * as fs from 'fs';
 import * as sqliteVec from 'sqlite-vec';
-import { DocumentChunk, ContextChunk } from './types';
-import { ensureRagDir, getConfig } from './config';
-import { getEmbeddingDimension } from './embedder';
-import * as path from 'path';
+import { DocumentChunk, ContextChunk, EmbeddingProvider, QueryFilter, FileRecord, IndexInfo, CollectionInfo, DocumentSource, ChunkInfo, IndexStats } from './types';
+import { ensureRagDir, getConfig, DEFAULT_COLLECTION } from './config';
+import { getEmbeddingProvider } from './embedder';
+import { matchesGlob } from './glob';
+import { toIsoDate } from './metadata';
+import { migrate, getSchemaVersion } from './migrations';
+import { VERSION } from './version';
+import { RagError } from './errors';
+
+/** Rank offset used by reciprocal rank fusion; 60 is the value from the original paper */
+export const RRF_K = 60;
+
+interface CollectionRow {
+  id: number;
+  name: string;
+  vec_table: string;
+  dimension: number;
+  embedding_provider: string | null;
+  embedding_model: string | null;
+  chunk_strategy: string | null;
+  chunk_size: number | null;
+  chunk_overlap: number | null;
+  chunk_unit: string | null;
+  created_at: number;
+}
+
+interface StoredChunkRow {
+  id: number;
+  content: string;
+  vec_rowid: number | null;
+}
+
+interface SearchRow {
+  id: number;
+  content: string;
+  file_path: string;
+  collection: string;
+  metadata: string | null;
+  chunk_index: number | null;
+  start_offset: number | null;
+  end_offset: number | null;
+  start_line: number | null;
+  end_line: number | null;
+}
+
+/** Columns selected into a SearchRow, from the chunks table aliased as `c` */
+const SEARCH_COLUMNS = `
+  c.id,
+  c.content,
+  c.file_path,
+  c.collection,
+  c.metadata,
+  c.chunk_index,
+  c.start_offset,
+  c.end_offset,
+  c.start_line,
+  c.end_line
+`;
+
+function toContextChunk(row: SearchRow, similarity: number, score: number): ContextChunk {
+  const metadata = row.metadata ? JSON.parse(row.metadata) : undefined;
+  
+  return {
+    id: row.id,
+    content: row.content,
+    filePath: row.file_path,
+    collection: row.collection,
+    similarity,
+    score,
+    breadcrumb: metadata?.breadcrumb || undefined,
+    metadata,
+    chunkIndex: row.chunk_index ?? undefined,
+    startOffset: row.start_offset ?? undefined,
+    endOffset: row.end_offset ?? undefined,
+    startLine: row.start_line ?? undefined,
+    endLine: row.end_line ?? undefined,
+    anchor: metadata?.anchor || undefined,
+  };
+}
+
+/** Ranges in the chunk length histogram of IndexStats */
+const HISTOGRAM_BUCKETS = 10;
+
+/**
+ * Value at a percentile of sorted numbers, nearest rank
+ */
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) {
+    return 0;
+  }
+  return sorted[Math.min(Math.max(Math.ceil(p * sorted.length) - 1, 0), sorted.length - 1)];
+}
+
+/**
+ * Build a SQL condition (against the `chunks` table aliased as `c`) for a
+ * query filter, so filtering happens inside the search rather than after it
+ */
+function buildFilterClause(filter?: QueryFilter): { sql: string; params: unknown[] } {
+  const conditions: string[] = [];
+  const params: unknown[] = [];
+  
+  if (!filter) {
+    return { sql: '1 = 1', params };
+  }
+  
+  if (filter.pathPrefix) {
+    conditions.push('substr(c.file_path, 1, length(?)) = ?');
+    params.push(filter.pathPrefix, filter.pathPrefix);
+  }
+  
+  if (filter.pathGlob) {
+    const globs = Array.isArray(filter.pathGlob) ? filter.pathGlob : [filter.pathGlob];
+    if (globs.length > 0) {
+      conditions.push(`(${globs.map(() => 'rag_glob(?, c.file_path)').join(' OR ')})`);
+      params.push(...globs);
+    }
+  }
+  
+  if (filter.tags && filter.tags.length > 0) {
+    conditions.push(`EXISTS (
+      SELECT 1 FROM json_each(c.metadata, '$.tags')
+      WHERE json_each.value IN (${filter.tags.map(() => '?').join(', ')})
+    )`);
+    params.push(...filter.tags);
+  }
+  
+  if (filter.dateFrom !== undefined) {
+    conditions.push(`json_extract(c.metadata, '$.date') >= ?`);
+    params.push(requireIsoDate(filter.dateFrom, 'dateFrom'));
+  }
+  
+  if (filter.dateTo !== undefined) {
+    conditions.push(`json_extract(c.metadata, '$.date') <= ?`);
+    params.push(requireIsoDate(filter.dateTo, 'dateTo'));
+  }
+  
+  for (const [key, value] of Object.entries(filter.metadata || {})) {
+    // Keys are interpolated into a JSON path, so only allow plain identifiers
+    if (!/^[A-Za-z0-9_]+$/.test(key)) {
+      throw new RagError('invalid_request', `Invalid metadata filter key: ${key}`);
+    }
+    conditions.push(`json_extract(c.metadata, '$.${key}') = ?`);
+    // SQLite's JSON booleans come back as 0/1
+    params.push(typeof value === 'boolean' ? Number(value) : value);
+  }
+  
+  return {
+    sql: conditions.length > 0 ? conditions.join(' AND ') : '1 = 1',
+    params,
+  };
+}
+
+function requireIsoDate(value: string | Date, name: string): string {
+  const date = toIsoDate(value);
+  if (!date) {
+    throw new RagError('invalid_request', `Invalid ${name} filter: ${value}`);
+  }
+  return date;
+}
+
+function toFloat32Array(buffer: Buffer): Float32Array {
+  // Copy out of the driver's buffer, which may be a shared slab
+  const bytes = new Uint8Array(buffer);
+  return new Float32Array(bytes.buffer);
+}
+
+/**
+ * Turn free text into an FTS5 query that ORs its quoted terms, so
+ * punctuation and FTS operators in user input can't cause syntax errors
+ */
+function toFtsQuery(text: string): string {
+  const terms = text.match(/[\p{L}\p{N}_]+/gu) || [];
+  return [...new Set(terms)].map(term => `"${term}"`).join(' OR ');
+}
+
+/**
+ * Collection names end up in table metadata and CLI arguments, so keep them simple
+ */
+function validateCollectionName(name: string): void {
+  if (!/^[A-Za-z0-9][A-Za-z0-9_-]{0,63}$/.test(name)) {
+    throw new RagError('invalid_request', `Invalid collection name "${name}". Use up to 64 letters, numbers, dashes and underscores.`);
+  }
+}
 
 export class VectorStore {
   private db: Database.Database;
-  private dimension: number;
+  private embeddingProvider?: EmbeddingProvider;
+  private collectionRow?: CollectionRow;
+  /** Path of the database file */
+  readonly dbPath: string;
+  /** Collection this store reads and writes */
+  readonly collection: string;
 
-  constructor(dbPath?: string) {
+  /**
+   * @param embeddingProvider - Provider that will embed queries or chunks for
+   * this index; an error is thrown if it doesn't match what the collection was built with
+   * @param collection - Collection to work with (default: 'default')
+   */
+  constructor(dbPath?: string, embeddingProvider?: EmbeddingProvider, collection: string = DEFAULT_COLLECTION) {
+    validateCollectionName(collection);
+    
     const config = getConfig();
     const finalDbPath = dbPath || config.dbPath;
+    this.dbPath = finalDbPath;
+    this.collection = collection;
+    this.embeddingProvider = embeddingProvider;
     
     // Ensure directory exists
     ensureRagDir(finalDbPath);
@@ -19,40 +214,188 @@ export class VectorStore {
     // Initialize database
     this.db = new Database(finalDbPath);
     
-    this.dimension = getEmbeddingDimension(config.embeddingModel);
-    
     // Load sqlite-vec extension
     sqliteVec.load(this.db);
     
-    // Initialize tables
-    this.initTables();
-  }
-
-  private initTables(): void {
-    // Create chunks table with vec_rowid to track the vector table row
-    this.db.exec(`
-      CREATE TABLE IF NOT EXISTS chunks (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        file_path TEXT NOT NULL,
-        content TEXT NOT NULL,
-        hash TEXT NOT NULL,
-        vec_rowid INTEGER,
-        created_at INTEGER NOT NULL,
-        UNIQUE(file_path, hash)
+    // Glob matching for path filters
+    this.db.function('rag_glob', { deterministic: true }, (pattern, filePath) =>
+      matchesGlob(String(filePath), String(pattern)) ? 1 : 0
+    );
+    
+    // Create tables or upgrade an existing database in place
+    migrate(this.db);
+    
+    this.collectionRow = this.getCollectionRow(collection);
+    
+    if (embeddingProvider) {
+      this.assertCompatible(embeddingProvider);
+    }
+  }
+
+  /**
+   * Embedding dimension of the collection. A collection that doesn't exist
+   * yet takes the dimension of the embedding provider.
+   */
+  get dimension(): number {
+    return this.collectionRow?.dimension
+      ?? (this.embeddingProvider || getEmbeddingProvider(getConfig())).dimension;
+  }
+
+  private getCollectionRow(name: string): CollectionRow | undefined {
+    return this.db.prepare(`
+      SELECT * FROM collections WHERE name = ?
+    `).get(name) as CollectionRow | undefined;
+  }
+
+  /**
+   * Create the collection and its vector table if they don't exist yet
+   */
+  private ensureCollection(dimension: number): CollectionRow {
+    if (this.collectionRow) {
+      return this.collectionRow;
+    }
+    
+    const create = this.db.transaction(() => {
+      const result = this.db.prepare(`
+        INSERT INTO collections (name, vec_table, dimension, created_at)
+        VALUES (?, '', ?, ?)
+      `).run(this.collection, dimension, Date.now());
+      
+      // The default collection keeps the table name databases have always used
+      const id = Number(result.lastInsertRowid);
+      const vecTable = this.collection === DEFAULT_COLLECTION ? 'vec_chunks' : `vec_chunks_${id}`;
+      
+      // vec0 auto-assigns rowid, we don't specify it
+      this.db.exec(`
+        CREATE VIRTUAL TABLE ${vecTable} USING vec0(
+          embedding FLOAT[${dimension}]
+        );
+      `);
+      this.db.prepare(`
+        UPDATE collections SET vec_table = ? WHERE id = ?
+      `).run(vecTable, id);
+    });
+    
+    create();
+    
+    this.collectionRow = this.getCollectionRow(this.collection)!;
+    return this.collectionRow;
+  }
+
+  /**
+   * Name of the collection's vector table, if it has one yet
+   */
+  private get vecTable(): string | undefined {
+    return this.collectionRow?.vec_table;
+  }
+
+  /**
+   * Human-readable name of the collection for error messages
+   */
+  private describe(): string {
+    return this.collection === DEFAULT_COLLECTION
+      ? `the index at ${this.dbPath}`
+      : `collection "${this.collection}" in ${this.dbPath}`;
+  }
+
+  /**
+   * Get the settings the collection was built with, if it has been built
+   */
+  getIndexInfo(): IndexInfo | undefined {
+    return this.collectionRow && this.toIndexInfo(this.collectionRow);
+  }
+
+  private toIndexInfo(row: CollectionRow): IndexInfo | undefined {
+    // Collections created by inserting chunks directly have no settings
+    if (!row.embedding_model) {
+      return undefined;
+    }
+    
+    const libraryVersion = this.db.prepare(`
+      SELECT value FROM index_meta WHERE key = 'library_version'
+    `).get() as { value: string } | undefined;
+    
+    return {
+      embeddingProvider: row.embedding_provider!,
+      embeddingModel: row.embedding_model,
+      dimension: row.dimension,
+      chunkStrategy: row.chunk_strategy as IndexInfo['chunkStrategy'],
+      chunkSize: row.chunk_size!,
+      chunkOverlap: row.chunk_overlap!,
+      chunkUnit: row.chunk_unit as IndexInfo['chunkUnit'],
+      libraryVersion: libraryVersion?.value ?? VERSION,
+      schemaVersion: getSchemaVersion(this.db),
+    };
+  }
+
+  /**
+   * Record the settings the collection is built with, creating it if needed
+   */
+  setIndexInfo(info: Omit<IndexInfo, 'libraryVersion' | 'schemaVersion'>): void {
+    const write = this.db.transaction(() => {
+      const row = this.ensureCollection(info.dimension);
+      
+      if (row.dimension !== info.dimension) {
+        throw new Error(
+          `Embedding dimension mismatch: ${this.describe()} stores ${row.dimension}-dimensional vectors, not ${info.dimension}.`
+        );
+      }
+      
+      this.db.prepare(`
+        UPDATE collections SET
+          embedding_provider = ?,
+          embedding_model = ?,
+          chunk_strategy = ?,
+          chunk_size = ?,
+          chunk_overlap = ?,
+          chunk_unit = ?
+        WHERE id = ?
+      `).run(
+        info.embeddingProvider,
+        info.embeddingModel,
+        info.chunkStrategy,
+        info.chunkSize,
+        info.chunkOverlap,
+        info.chunkUnit,
+        row.id
       );
       
-      CREATE INDEX IF NOT EXISTS idx_file_path ON chunks(file_path);
-      CREATE INDEX IF NOT EXISTS idx_hash ON chunks(hash);
-      CREATE INDEX IF NOT EXISTS idx_vec_rowid ON chunks(vec_rowid);
-    `);
+      const upsert = this.db.prepare(`
+        INSERT INTO index_meta (key, value) VALUES (?, ?)
+        ON CONFLICT(key) DO UPDATE SET value = excluded.value
+      `);
+      upsert.run('library_version', VERSION);
+      upsert.run('schema_version', String(getSchemaVersion(this.db)));
+    });
     
-    // Create vector table using vec0 virtual table
-    // vec0 auto-assigns rowid, we don't specify it
-    this.db.exec(`
-      CREATE VIRTUAL TABLE IF NOT EXISTS vec_chunks USING vec0(
-        embedding FLOAT[${this.dimension}]
+    write();
+    this.collectionRow = this.getCollectionRow(this.collection);
+  }
+
+  /**
+   * Throw if a provider produces embeddings that don't belong in this index
+   */
+  assertCompatible(embeddingProvider: EmbeddingProvider): void {
+    if (!this.collectionRow) {
+      return;
+    }
+    
+    const info = this.getIndexInfo();
+    
+    if (embeddingProvider.dimension !== this.dimension) {
+      throw new Error(
+        `Embedding dimension mismatch: ${this.describe()} stores ${this.dimension}-dimensional vectors, ` +
+        `but ${embeddingProvider.name}/${embeddingProvider.model} produces ${embeddingProvider.dimension}. ` +
+        `Use the model the index was built with${info ? ` (${info.embeddingProvider}/${info.embeddingModel})` : ''}, or rebuild the index.`
       );
-    `);
+    }
+    
+    if (info && (info.embeddingProvider !== embeddingProvider.name || info.embeddingModel !== embeddingProvider.model)) {
+      throw new Error(
+        `Embedding model mismatch: ${this.describe()} was built with ${info.embeddingProvider}/${info.embeddingModel}, ` +
+        `but ${embeddingProvider.name}/${embeddingProvider.model} is configured. Use the same model, or rebuild the index.`
+      );
+    }
   }
 
   /**
@@ -61,12 +404,23 @@ export class VectorStore {
   insertChunk(chunk: DocumentChunk): number {
     const now = Date.now();
     
+    // Replacing a chunk must also drop its vector and full-text rows
+    const existing = this.db.prepare(`
+      SELECT id, content, vec_rowid FROM chunks WHERE collection = ? AND file_path = ? AND hash = ?
+    `).get(this.collection, chunk.filePath, chunk.hash) as StoredChunkRow | undefined;
+    
+    if (existing) {
+      this.deleteChunkRows([existing]);
+    }
+    
+    const { vec_table: vecTable } = this.ensureCollection(chunk.embedding?.length ?? this.dimension);
+    
     // Insert embedding first and let vec0 auto-assign rowid
     let vecRowId: number | undefined;
     if (chunk.embedding) {
-      // Insert into vec_chunks without specifying rowid - let it auto-assign
+      // Insert into the vector table without specifying rowid - let it auto-assign
       const vecResult = this.db.prepare(`
-        INSERT INTO vec_chunks (embedding)
+        INSERT INTO ${vecTable} (embedding)
         VALUES (?)
       `).run(chunk.embedding);
       
@@ -75,11 +429,32 @@ export class VectorStore {
     
     // Insert chunk with reference to vec_rowid
     const result = this.db.prepare(`
-      INSERT OR REPLACE INTO chunks (file_path, content, hash, vec_rowid, created_at)
-      VALUES (?, ?, ?, ?, ?)
-    `).run(chunk.filePath, chunk.content, chunk.hash, vecRowId || null, now);
+      INSERT INTO chunks (
+        collection, file_path, content, hash, vec_rowid, metadata,
+        chunk_index, start_offset, end_offset, start_line, end_line, created_at
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      this.collection,
+      chunk.filePath,
+      chunk.content,
+      chunk.hash,
+      vecRowId || null,
+      chunk.metadata ? JSON.stringify(chunk.metadata) : null,
+      chunk.chunkIndex ?? null,
+      chunk.startOffset ?? null,
+      chunk.endOffset ?? null,
+      chunk.startLine ?? null,
+      chunk.endLine ?? null,
+      now
+    );
     
     const chunkId = Number(result.lastInsertRowid);
+    
+    this.db.prepare(`
+      INSERT INTO chunks_fts (rowid, content) VALUES (?, ?)
+    `).run(chunkId, chunk.content);
+    
     return chunkId;
   }
 
@@ -100,28 +475,43 @@ export class VectorStore {
    * Delete all chunks for a specific file
    */
   deleteChunksByFile(filePath: string): void {
-    // Get vec_rowids first
-    const vecRowIds = this.db.prepare(`
-      SELECT vec_rowid FROM chunks WHERE file_path = ? AND vec_rowid IS NOT NULL
-    `).all(filePath) as Array<{ vec_rowid: number }>;
-    
-    // Delete from vector table using rowid
-    const deleteVec = this.db.prepare(`
-      DELETE FROM vec_chunks WHERE rowid = ?
-    `);
+    const rows = this.db.prepare(`
+      SELECT id, content, vec_rowid FROM chunks WHERE collection = ? AND file_path = ?
+    `).all(this.collection, filePath) as StoredChunkRow[];
     
-    const deleteTransaction = this.db.transaction((ids: number[]) => {
-      for (const id of ids) {
-        deleteVec.run(id);
-      }
+    const deleteTransaction = this.db.transaction((rows: StoredChunkRow[]) => {
+      this.deleteChunkRows(rows);
     });
     
-    deleteTransaction(vecRowIds.map(row => row.vec_rowid));
+    deleteTransaction(rows);
     
-    // Delete from chunks table
     this.db.prepare(`
-      DELETE FROM chunks WHERE file_path = ?
-    `).run(filePath);
+      DELETE FROM files WHERE collection = ? AND file_path = ?
+    `).run(this.collection, filePath);
+  }
+
+  /**
+   * Delete chunks along with their vector and full-text index entries
+   */
+  private deleteChunkRows(rows: StoredChunkRow[]): void {
+    const deleteVec = this.vecTable && this.db.prepare(`
+      DELETE FROM ${this.vecTable} WHERE rowid = ?
+    `);
+    // External-content FTS tables need the old content to remove a row
+    const deleteFts = this.db.prepare(`
+      INSERT INTO chunks_fts (chunks_fts, rowid, content) VALUES ('delete', ?, ?)
+    `);
+    const deleteChunk = this.db.prepare(`
+      DELETE FROM chunks WHERE id = ?
+    `);
+    
+    for (const row of rows) {
+      if (deleteVec && row.vec_rowid !== null) {
+        deleteVec.run(row.vec_rowid);
+      }
+      deleteFts.run(row.id, row.content);
+      deleteChunk.run(row.id);
+    }
   }
 
   /**
@@ -129,63 +519,547 @@ export class VectorStore {
    */
   fileExists(filePath: string): boolean {
     const result = this.db.prepare(`
-      SELECT COUNT(*) as count FROM chunks WHERE file_path = ?
-    `).get(filePath) as { count: number };
+      SELECT COUNT(*) as count FROM chunks WHERE collection = ? AND file_path = ?
+    `).get(this.collection, filePath) as { count: number };
     
     return result.count > 0;
   }
 
   /**
-   * Get all unique file paths in database
+   * Get all unique file paths in database, or the IDs of documents added
+   * through the API
    */
-  getAllFiles(): string[] {
+  getAllFiles(source: DocumentSource = 'file'): string[] {
+    // Files that produced no chunks only appear in the manifest, and chunks
+    // indexed before the manifest existed only in chunks
     const results = this.db.prepare(`
-      SELECT DISTINCT file_path FROM chunks
-    `).all() as Array<{ file_path: string }>;
+      SELECT file_path FROM files WHERE collection = ? AND source = ?
+      UNION
+      SELECT file_path FROM chunks
+      WHERE collection = ? AND ? = 'file' AND file_path NOT IN (
+        SELECT file_path FROM files WHERE collection = ?
+      )
+    `).all(this.collection, source, this.collection, source, this.collection) as Array<{ file_path: string }>;
     
     return results.map(row => row.file_path);
   }
 
+  /**
+   * Get the manifest record of an indexed file
+   */
+  getFileRecord(filePath: string): FileRecord | undefined {
+    const row = this.db.prepare(`
+      SELECT file_path, content_hash, size, mtime, chunk_count, indexed_at, source
+      FROM files WHERE collection = ? AND file_path = ?
+    `).get(this.collection, filePath) as {
+      file_path: string;
+      content_hash: string;
+      size: number;
+      mtime: number;
+      chunk_count: number;
+      indexed_at: number;
+      source: DocumentSource;
+    } | undefined;
+    
+    if (!row) {
+      return undefined;
+    }
+    
+    return {
+      filePath: row.file_path,
+      contentHash: row.content_hash,
+      size: row.size,
+      mtime: row.mtime,
+      chunkCount: row.chunk_count,
+      indexedAt: row.indexed_at,
+      source: row.source,
+    };
+  }
+
+  /**
+   * Insert or update the manifest record of an indexed file
+   */
+  upsertFileRecord(record: Omit<FileRecord, 'indexedAt'>): void {
+    this.db.prepare(`
+      INSERT INTO files (collection, file_path, content_hash, size, mtime, chunk_count, indexed_at, source)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(collection, file_path) DO UPDATE SET
+        content_hash = excluded.content_hash,
+        size = excluded.size,
+        mtime = excluded.mtime,
+        chunk_count = excluded.chunk_count,
+        indexed_at = excluded.indexed_at,
+        source = excluded.source
+    `).run(
+      this.collection,
+      record.filePath,
+      record.contentHash,
+      record.size,
+      record.mtime,
+      record.chunkCount,
+      Date.now(),
+      record.source || 'file'
+    );
+  }
+
+  /**
+   * Replace all chunks of a file and record it in the manifest, atomically
+   */
+  replaceFileChunks(record: Omit<FileRecord, 'indexedAt'>, chunks: DocumentChunk[]): void {
+    const replace = this.db.transaction(() => {
+      this.deleteChunksByFile(record.filePath);
+      this.insertChunks(chunks);
+      this.upsertFileRecord(record);
+    });
+    
+    replace();
+  }
+
+  /**
+   * Look up stored embeddings by chunk content hash, so unchanged chunks
+   * don't need to be embedded again. Embeddings checkpointed by an
+   * interrupted indexing run count too.
+   */
+  getEmbeddingsByHash(hashes: string[]): Map<string, Float32Array> {
+    const embeddings = new Map<string, Float32Array>();
+    const vecTable = this.vecTable;
+    
+    const unique = [...new Set(hashes)];
+    // Stay well below SQLite's bound parameter limit
+    const BATCH_SIZE = 500;
+    
+    for (let i = 0; i < unique.length; i += BATCH_SIZE) {
+      const batch = unique.slice(i, i + BATCH_SIZE);
+      const placeholders = batch.map(() => '?').join(', ');
+      
+      const checkpointed = this.db.prepare(`
+        SELECT hash, embedding FROM embedding_checkpoints
+        WHERE collection = ? AND hash IN (${placeholders})
+      `).all(this.collection, ...batch) as Array<{ hash: string; embedding: Buffer }>;
+      
+      const stored = vecTable ? this.db.prepare(`
+        SELECT c.hash, v.embedding
+        FROM chunks c
+        JOIN ${vecTable} v ON v.rowid = c.vec_rowid
+        WHERE c.collection = ? AND c.hash IN (${placeholders})
+      `).all(this.collection, ...batch) as Array<{ hash: string; embedding: Buffer }> : [];
+      
+      for (const row of [...checkpointed, ...stored]) {
+        embeddings.set(row.hash, toFloat32Array(row.embedding));
+      }
+    }
+    
+    return embeddings;
+  }
+
+  /**
+   * Save freshly generated embeddings by chunk content hash before their
+   * chunks are written, so a run that crashes or fails halfway doesn't pay
+   * for them again
+   */
+  saveEmbeddingCheckpoints(entries: Array<{ hash: string; embedding: Float32Array }>): void {
+    const insert = this.db.prepare(`
+      INSERT OR REPLACE INTO embedding_checkpoints (collection, hash, embedding, created_at)
+      VALUES (?, ?, ?, ?)
+    `);
+    const now = Date.now();
+    
+    const save = this.db.transaction(() => {
+      for (const { hash, embedding } of entries) {
+        const blob = Buffer.from(embedding.buffer, embedding.byteOffset, embedding.byteLength);
+        insert.run(this.collection, hash, blob, now);
+      }
+    });
+    
+    save();
+  }
+
+  /**
+   * Remove the collection's checkpointed embeddings, once a run has written
+   * every chunk they were for
+   */
+  clearEmbeddingCheckpoints(): void {
+    this.db.prepare(`DELETE FROM embedding_checkpoints WHERE collection = ?`).run(this.collection);
+  }
+
+  /**
+   * Get the stored embeddings of chunks by id
+   */
+  getEmbeddings(chunkIds: number[]): Map<number, Float32Array> {
+    const embeddings = new Map<number, Float32Array>();
+    const vecTable = this.vecTable;
+    if (chunkIds.length === 0 || !vecTable) {
+      return embeddings;
+    }
+    
+    const rows = this.db.prepare(`
+      SELECT c.id, v.embedding
+      FROM chunks c
+      JOIN ${vecTable} v ON v.rowid = c.vec_rowid
+      WHERE c.collection = ? AND c.id IN (${chunkIds.map(() => '?').join(', ')})
+    `).all(this.collection, ...chunkIds) as Array<{ id: number; embedding: Buffer }>;
+    
+    for (const row of rows) {
+      embeddings.set(row.id, toFloat32Array(row.embedding));
+    }
+    return embeddings;
+  }
+
   /**
    * Similarity search using vector embeddings
    */
   similaritySearch(
     queryEmbedding: Float32Array,
-    topK: number = 5
+    topK: number = 5,
+    filter?: QueryFilter
   ): ContextChunk[] {
+    const vecTable = this.vecTable;
+    if (!vecTable) {
+      return [];
+    }
+    
+    const where = buildFilterClause(filter);
+    
     const results = this.db.prepare(`
-      SELECT 
-        c.content,
-        c.file_path,
+      SELECT ${SEARCH_COLUMNS},
         vec_distance_cosine(v.embedding, ?) as distance
-      FROM vec_chunks v
+      FROM ${vecTable} v
       JOIN chunks c ON v.rowid = c.vec_rowid
+      WHERE c.collection = ? AND ${where.sql}
       ORDER BY distance ASC
       LIMIT ?
-    `).all(queryEmbedding, topK) as Array<{
-      content: string;
-      file_path: string;
-      distance: number;
-    }>;
+    `).all(queryEmbedding, this.collection, ...where.params, topK) as Array<SearchRow & { distance: number }>;
     
-    return results.map(row => ({
-      content: row.content,
-      filePath: row.file_path,
-      similarity: 1 - row.distance, // Convert distance to similarity
-    }));
+    // Convert distance to similarity
+    return results.map(row => toContextChunk(row, 1 - row.distance, 1 - row.distance));
+  }
+
+  /**
+   * Keyword search ranked by BM25 over the full-text index
+   */
+  keywordSearch(queryText: string, topK: number = 5, filter?: QueryFilter): ContextChunk[] {
+    const match = toFtsQuery(queryText);
+    if (!match) {
+      return [];
+    }
+    
+    const where = buildFilterClause(filter);
+    
+    const results = this.db.prepare(`
+      SELECT ${SEARCH_COLUMNS},
+        bm25(chunks_fts) as rank
+      FROM chunks_fts
+      JOIN chunks c ON c.id = chunks_fts.rowid
+      WHERE chunks_fts MATCH ? AND c.collection = ? AND ${where.sql}
+      ORDER BY rank ASC
+      LIMIT ?
+    `).all(match, this.collection, ...where.params, topK) as Array<SearchRow & { rank: number }>;
+    
+    // bm25() is negative with lower being better; flip it and scale the
+    // best hit to 1 so it reads like a similarity
+    const best = results.length > 0 ? -results[0].rank : 0;
+    
+    return results.map(row => toContextChunk(row, best > 0 ? -row.rank / best : 0, -row.rank));
   }
 
   /**
-   * Get total number of chunks
+   * Hybrid search fusing vector and BM25 rankings with reciprocal rank fusion
+   * @param vectorWeight - Weight of the vector ranking, 0-1; the keyword ranking gets the rest
+   */
+  hybridSearch(
+    queryEmbedding: Float32Array,
+    queryText: string,
+    topK: number = 5,
+    vectorWeight: number = 0.5,
+    filter?: QueryFilter
+  ): ContextChunk[] {
+    const candidateCount = Math.max(topK * 4, 20);
+    const vectorHits = this.similaritySearch(queryEmbedding, candidateCount, filter);
+    const keywordHits = this.keywordSearch(queryText, candidateCount, filter);
+    
+    const weight = Math.min(Math.max(vectorWeight, 0), 1);
+    const fused = new Map<number, { chunk: ContextChunk; score: number }>();
+    
+    const addRanking = (hits: ContextChunk[], rankWeight: number) => {
+      hits.forEach((hit, rank) => {
+        const entry = fused.get(hit.id) || { chunk: hit, score: 0 };
+        entry.score += rankWeight / (RRF_K + rank + 1);
+        fused.set(hit.id, entry);
+      });
+    };
+    
+    addRanking(vectorHits, weight);
+    addRanking(keywordHits, 1 - weight);
+    
+    // Keyword-only hits still get a real cosine similarity
+    const vectorIds = new Set(vectorHits.map(hit => hit.id));
+    const missingIds = keywordHits.map(hit => hit.id).filter(id => !vectorIds.has(id));
+    const similarities = this.getSimilarities(queryEmbedding, missingIds);
+    
+    return [...fused.values()]
+      .sort((a, b) => b.score - a.score)
+      .slice(0, topK)
+      .map(({ chunk, score }) => ({
+        ...chunk,
+        similarity: vectorIds.has(chunk.id) ? chunk.similarity : similarities.get(chunk.id) ?? 0,
+        score,
+      }));
+  }
+
+  /**
+   * Get chunks of a file by their position in it, e.g. the neighbors of a hit.
+   * Neighbors aren't ranked, so their similarity and score are 0.
+   */
+  getChunksByIndex(filePath: string, chunkIndexes: number[]): ContextChunk[] {
+    if (chunkIndexes.length === 0) {
+      return [];
+    }
+    
+    const rows = this.db.prepare(`
+      SELECT ${SEARCH_COLUMNS}
+      FROM chunks c
+      WHERE c.collection = ? AND c.file_path = ? AND c.chunk_index IN (${chunkIndexes.map(() => '?').join(', ')})
+      ORDER BY c.chunk_index
+    `).all(this.collection, filePath, ...chunkIndexes) as SearchRow[];
+    
+    return rows.map(row => toContextChunk(row, 0, 0));
+  }
+
+  /**
+   * Cosine similarity between a query embedding and specific chunks
+   */
+  private getSimilarities(queryEmbedding: Float32Array, chunkIds: number[]): Map<number, number> {
+    const similarities = new Map<number, number>();
+    const vecTable = this.vecTable;
+    if (chunkIds.length === 0 || !vecTable) {
+      return similarities;
+    }
+    
+    const results = this.db.prepare(`
+      SELECT c.id, vec_distance_cosine(v.embedding, ?) as distance
+      FROM chunks c
+      JOIN ${vecTable} v ON v.rowid = c.vec_rowid
+      WHERE c.id IN (${chunkIds.map(() => '?').join(', ')})
+    `).all(queryEmbedding, ...chunkIds) as Array<{ id: number; distance: number }>;
+    
+    for (const row of results) {
+      similarities.set(row.id, 1 - row.distance);
+    }
+    return similarities;
+  }
+
+  /**
+   * Get total number of chunks in the collection
    */
   getChunkCount(): number {
     const result = this.db.prepare(`
-      SELECT COUNT(*) as count FROM chunks
-    `).get() as { count: number };
+      SELECT COUNT(*) as count FROM chunks WHERE collection = ?
+    `).get(this.collection) as { count: number };
     
     return result.count;
   }
 
+  /**
+   * Get the stored chunks of a file in order, with their hashes and positions
+   */
+  getFileChunks(filePath: string): ChunkInfo[] {
+    const rows = this.db.prepare(`
+      SELECT ${SEARCH_COLUMNS}, c.hash, c.vec_rowid
+      FROM chunks c
+      WHERE c.collection = ? AND c.file_path = ?
+      ORDER BY c.chunk_index, c.id
+    `).all(this.collection, filePath) as Array<SearchRow & { hash: string; vec_rowid: number | null }>;
+    
+    return rows.map(row => ({
+      id: row.id,
+      filePath: row.file_path,
+      collection: row.collection,
+      content: row.content,
+      hash: row.hash,
+      chunkIndex: row.chunk_index ?? undefined,
+      startOffset: row.start_offset ?? undefined,
+      endOffset: row.end_offset ?? undefined,
+      startLine: row.start_line ?? undefined,
+      endLine: row.end_line ?? undefined,
+      embedded: row.vec_rowid !== null,
+      metadata: row.metadata ? JSON.parse(row.metadata) : undefined,
+    }));
+  }
+
+  /**
+   * Find the chunks nearest to a chunk, by id, or to a file, by the mean
+   * of its chunk embeddings. Chunks of the file itself are left out.
+   */
+  findSimilar(target: number | string, topK: number = 5): ContextChunk[] {
+    const vecTable = this.vecTable;
+    if (!vecTable) {
+      return [];
+    }
+    
+    let embedding: Float32Array | undefined;
+    let excludeSql: string;
+    
+    if (typeof target === 'number') {
+      embedding = this.getEmbeddings([target]).get(target);
+      excludeSql = 'c.id != ?';
+      if (!embedding) {
+        throw new RagError('not_found', `Chunk ${target} has no stored embedding in ${this.describe()}`);
+      }
+    } else {
+      const embeddings = [...this.getEmbeddings(this.getFileChunks(target).map(chunk => chunk.id)).values()];
+      excludeSql = 'c.file_path != ?';
+      if (embeddings.length === 0) {
+        throw new RagError('not_found', `${target} has no embedded chunks in ${this.describe()}`);
+      }
+      
+      const mean = new Float32Array(embeddings[0].length);
+      for (const chunkEmbedding of embeddings) {
+        for (let i = 0; i < mean.length; i++) {
+          mean[i] += chunkEmbedding[i] / embeddings.length;
+        }
+      }
+      embedding = mean;
+    }
+    
+    const results = this.db.prepare(`
+      SELECT ${SEARCH_COLUMNS},
+        vec_distance_cosine(v.embedding, ?) as distance
+      FROM ${vecTable} v
+      JOIN chunks c ON v.rowid = c.vec_rowid
+      WHERE c.collection = ? AND ${excludeSql}
+      ORDER BY distance ASC
+      LIMIT ?
+    `).all(embedding, this.collection, target, topK) as Array<SearchRow & { distance: number }>;
+    
+    return results.map(row => toContextChunk(row, 1 - row.distance, 1 - row.distance));
+  }
+
+  /**
+   * Summarize what the collection holds: files, chunks, sizes, the
+   * largest files and how long chunks are
+   * @param largestFiles - Number of largest files to list
+   */
+  getStats(largestFiles: number = 10): IndexStats {
+    const sources = this.db.prepare(`
+      SELECT source, COUNT(*) as count, COALESCE(SUM(size), 0) as size
+      FROM files WHERE collection = ? GROUP BY source
+    `).all(this.collection) as Array<{ source: DocumentSource; count: number; size: number }>;
+    
+    const largest = this.db.prepare(`
+      SELECT file_path, size, chunk_count FROM files
+      WHERE collection = ? ORDER BY size DESC, file_path LIMIT ?
+    `).all(this.collection, largestFiles) as Array<{ file_path: string; size: number; chunk_count: number }>;
+    
+    const { unembedded } = this.db.prepare(`
+      SELECT COUNT(*) as unembedded FROM chunks WHERE collection = ? AND vec_rowid IS NULL
+    `).get(this.collection) as { unembedded: number };
+    
+    const lengths = (this.db.prepare(`
+      SELECT length(content) as length FROM chunks WHERE collection = ? ORDER BY length
+    `).all(this.collection) as Array<{ length: number }>).map(row => row.length);
+    
+    const min = lengths[0] ?? 0;
+    const max = lengths[lengths.length - 1] ?? 0;
+    const width = Math.max(Math.ceil((max - min + 1) / HISTOGRAM_BUCKETS), 1);
+    const histogram = lengths.length === 0 ? [] : Array.from(
+      { length: Math.ceil((max - min + 1) / width) },
+      (_, idx) => ({ from: min + idx * width, to: Math.min(min + (idx + 1) * width - 1, max), count: 0 })
+    );
+    for (const length of lengths) {
+      histogram[Math.floor((length - min) / width)].count++;
+    }
+    
+    let databaseSize = 0;
+    try {
+      databaseSize = fs.statSync(this.dbPath).size;
+    } catch {
+      // In-memory databases have no file
+    }
+    
+    return {
+      collection: this.collection,
+      index: this.getIndexInfo(),
+      fileCount: sources.reduce((total, row) => total + row.count, 0),
+      sources: Object.fromEntries(sources.map(row => [row.source, row.count])),
+      chunkCount: lengths.length,
+      chunksWithoutEmbedding: unembedded,
+      totalSize: sources.reduce((total, row) => total + row.size, 0),
+      databaseSize,
+      largestFiles: largest.map(row => ({ filePath: row.file_path, size: row.size, chunkCount: row.chunk_count })),
+      chunkLengths: {
+        min,
+        max,
+        mean: lengths.length > 0 ? Math.round(lengths.reduce((total, length) => total + length, 0) / lengths.length) : 0,
+        median: percentile(lengths, 0.5),
+        p90: percentile(lengths, 0.9),
+        histogram,
+      },
+    };
+  }
+
+  /**
+   * Get a collection of this database, if it exists
+   */
+  getCollection(name: string = this.collection): CollectionInfo | undefined {
+    return this.listCollections().find(collection => collection.name === name);
+  }
+
+  /**
+   * List the collections in this database
+   */
+  listCollections(): CollectionInfo[] {
+    const rows = this.db.prepare(`
+      SELECT * FROM collections ORDER BY name
+    `).all() as CollectionRow[];
+    
+    const counts = (table: 'chunks' | 'files') => new Map(
+      (this.db.prepare(`
+        SELECT collection, COUNT(*) as count FROM ${table} GROUP BY collection
+      `).all() as Array<{ collection: string; count: number }>).map(row => [row.collection, row.count])
+    );
+    const chunkCounts = counts('chunks');
+    const fileCounts = counts('files');
+    
+    return rows.map(row => ({
+      name: row.name,
+      index: this.toIndexInfo(row),
+      dimension: row.dimension,
+      fileCount: fileCounts.get(row.name) ?? 0,
+      chunkCount: chunkCounts.get(row.name) ?? 0,
+      createdAt: row.created_at,
+    }));
+  }
+
+  /**
+   * Delete a collection with all its chunks, manifest entries, vectors and checkpoints
+   */
+  dropCollection(name: string): void {
+    const row = this.getCollectionRow(name);
+    
+    if (!row) {
+      throw new RagError('not_found', `Collection "${name}" does not exist in ${this.dbPath}`);
+    }
+    
+    const drop = this.db.transaction(() => {
+      // The vector table is dropped as a whole, so leave vec_rowid out
+      const chunks = this.db.prepare(`
+        SELECT id, content, NULL as vec_rowid FROM chunks WHERE collection = ?
+      `).all(name) as StoredChunkRow[];
+      
+      this.deleteChunkRows(chunks);
+      this.db.prepare(`DELETE FROM files WHERE collection = ?`).run(name);
+      this.db.prepare(`DELETE FROM embedding_checkpoints WHERE collection = ?`).run(name);
+      this.db.exec(`DROP TABLE IF EXISTS ${row.vec_table}`);
+      this.db.prepare(`DELETE FROM collections WHERE id = ?`).run(row.id);
+    });
+    
+    drop();
+    
+    if (name === this.collection) {
+      this.collectionRow = undefined;
+    }
+  }
+
   /**
    * Close database connection
    */
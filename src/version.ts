@@ -0,0 +1,2 @@
+/** Library version, kept in sync with package.json and recorded in each index */
+export const VERSION = '1.0.1';